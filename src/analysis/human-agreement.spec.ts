@@ -0,0 +1,239 @@
+import type {
+	BatchEvaluationResult,
+	BatchInputRow,
+	BatchResult,
+} from "../batch/types.js";
+import type { EvaluatorResult } from "../types/evaluator.js";
+import { analyzeAgreement, formatAgreementReport } from "./human-agreement.js";
+
+const createResult = (
+	evaluatorName: string,
+	score: number | string,
+	error?: string,
+): EvaluatorResult => ({
+	evaluatorName,
+	score,
+	feedback: "",
+	processingStats: { executionTime: 1 },
+	...(error ? { error } : {}),
+});
+
+const createRow = (
+	human: unknown,
+	results: EvaluatorResult[],
+	error?: string,
+): BatchEvaluationResult => ({
+	rowId: "row",
+	rowIndex: 0,
+	input: { candidateText: "Test", humanScore: human } as BatchInputRow,
+	results,
+	timestamp: "2024-01-01T00:00:00.000Z",
+	durationMs: 10,
+	retryCount: 0,
+	...(error ? { error } : {}),
+});
+
+const createBatch = (results: BatchEvaluationResult[]): BatchResult => ({
+	batchId: "batch",
+	startTime: "2024-01-01T00:00:00.000Z",
+	endTime: "2024-01-01T00:00:01.000Z",
+	durationMs: 1000,
+	totalRows: results.length,
+	successfulRows: results.length,
+	failedRows: 0,
+	results,
+	summary: { averageProcessingTime: 10, errorRate: 0 },
+});
+
+describe("analyzeAgreement", () => {
+	it("should compare numeric scores with human labels on an interval scale", () => {
+		const report = analyzeAgreement(
+			createBatch([
+				createRow(1, [createResult("fluency", 1)]),
+				createRow("2", [createResult("fluency", 2)]),
+				createRow(3, [createResult("fluency", 3)]),
+				createRow(4, [createResult("fluency", 5)]),
+			]),
+			{ humanLabelField: "humanScore" },
+		);
+
+		const [fluency] = report.evaluators;
+		expect(report.weighting).toBe("quadratic");
+		expect(fluency).toMatchObject({
+			evaluatorName: "fluency",
+			level: "interval",
+			sampleSize: 4,
+			skippedRows: 0,
+			exactAgreement: 0.75,
+		});
+		expect(fluency.spearman).toBeCloseTo(1);
+		expect(fluency.kendallTau).toBeCloseTo(1);
+		expect(fluency.pearson).toBeGreaterThan(0.9);
+		expect(fluency.weightedKappa).toBeGreaterThan(fluency.cohensKappa ?? 1);
+		expect(fluency.confusionMatrix.labels).toEqual([1, 2, 3, 4, 5]);
+		expect(fluency.confusionMatrix.counts[3]).toEqual([0, 0, 0, 0, 1]);
+	});
+
+	it("should compare categorical scores as nominal labels", () => {
+		const report = analyzeAgreement(
+			createBatch([
+				createRow("good", [createResult("tone", "good")]),
+				createRow("poor", [createResult("tone", "poor")]),
+				createRow("good", [createResult("tone", "poor")]),
+				createRow("poor", [createResult("tone", "poor")]),
+			]),
+			{ humanLabelField: "humanScore" },
+		);
+
+		const [tone] = report.evaluators;
+		expect(tone.level).toBe("nominal");
+		expect(tone.cohensKappa).toBeCloseTo(0.5);
+		expect(tone.weightedKappa).toBeUndefined();
+		expect(tone.spearman).toBeUndefined();
+		expect(tone.confusionMatrix).toEqual({
+			labels: ["good", "poor"],
+			counts: [
+				[1, 1],
+				[0, 2],
+			],
+		});
+	});
+
+	it("should weight interval kappa by score distance when the scale has gaps", () => {
+		const rows = [
+			[1, 1],
+			[1, 2],
+			[2, 2],
+			[2, 1],
+			[10, 10],
+			[10, 2],
+		].map(([human, judge]) =>
+			createRow(human, [createResult("fluency", judge)]),
+		);
+
+		const [interval] = analyzeAgreement(createBatch(rows), {
+			humanLabelField: "humanScore",
+		}).evaluators;
+		const [fullScale] = analyzeAgreement(createBatch(rows), {
+			humanLabelField: "humanScore",
+			labels: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10],
+		}).evaluators;
+
+		expect(interval.level).toBe("interval");
+		expect(interval.confusionMatrix.labels).toEqual([1, 2, 10]);
+		expect(interval.weightedKappa).toBeCloseTo(fullScale.weightedKappa ?? 0);
+	});
+
+	it("should require labels for an ordinal scale", () => {
+		expect(() =>
+			analyzeAgreement(
+				createBatch([createRow(1, [createResult("fluency", 2)])]),
+				{ humanLabelField: "humanScore", level: "ordinal" },
+			),
+		).toThrow(
+			"Ordinal agreement for fluency requires labels listing the whole scale",
+		);
+	});
+
+	it("should treat given labels as an ordinal scale", () => {
+		const report = analyzeAgreement(
+			createBatch([
+				createRow("poor", [createResult("quality", "poor")]),
+				createRow("fair", [createResult("quality", "good")]),
+				createRow("good", [createResult("quality", "good")]),
+				createRow("great", [createResult("quality", "excellent")]),
+			]),
+			{
+				humanLabelField: "humanScore",
+				labels: ["poor", "fair", "good", "excellent"],
+			},
+		);
+
+		const [quality] = report.evaluators;
+		expect(quality.level).toBe("ordinal");
+		expect(quality.sampleSize).toBe(3);
+		expect(quality.skippedRows).toBe(1);
+		expect(quality.confusionMatrix.labels).toEqual([
+			"poor",
+			"fair",
+			"good",
+			"excellent",
+		]);
+		expect(quality.spearman).toBeCloseTo(Math.sqrt(3) / 2);
+	});
+
+	it("should skip failed evaluations and rows without a human label", () => {
+		const report = analyzeAgreement(
+			createBatch([
+				createRow(1, [
+					createResult("fluency", 1),
+					createResult("tone", "good"),
+				]),
+				createRow(2, [createResult("fluency", 0, "API down")]),
+				createRow("", [createResult("fluency", 3)]),
+				createRow(undefined, [createResult("fluency", 4)]),
+				createRow(5, [], "Row failed"),
+				createRow("n/a", [createResult("fluency", 5)]),
+				createRow(2, [createResult("fluency", 2)]),
+			]),
+			{ humanLabelField: "humanScore", evaluators: ["fluency"] },
+		);
+
+		expect(report.evaluators).toHaveLength(1);
+		expect(report.evaluators[0]).toMatchObject({
+			sampleSize: 2,
+			skippedRows: 5,
+			exactAgreement: 1,
+		});
+	});
+
+	it("should leave statistics unset when there is nothing to compare", () => {
+		const report = analyzeAgreement(
+			createBatch([createRow(undefined, [createResult("fluency", 3)])]),
+			{ humanLabelField: "humanScore" },
+		);
+
+		const [fluency] = report.evaluators;
+		expect(fluency.sampleSize).toBe(0);
+		expect(fluency.exactAgreement).toBeUndefined();
+		expect(fluency.cohensKappa).toBeUndefined();
+		expect(fluency.krippendorffAlpha).toBeUndefined();
+	});
+
+	it("should reject the interval level for categorical scores", () => {
+		expect(() =>
+			analyzeAgreement(
+				createBatch([createRow("good", [createResult("tone", "good")])]),
+				{ humanLabelField: "humanScore", level: "interval" },
+			),
+		).toThrow("Interval agreement for tone requires numeric scores and labels");
+	});
+});
+
+describe("formatAgreementReport", () => {
+	const report = analyzeAgreement(
+		createBatch([
+			createRow("good", [createResult("tone", "good")]),
+			createRow("poor", [createResult("tone", "poor")]),
+			createRow("good", [createResult("tone", "poor")]),
+		]),
+		{ humanLabelField: "humanScore" },
+	);
+
+	it("should render statistics and the confusion matrix as text", () => {
+		const text = formatAgreementReport(report);
+
+		expect(text).toContain("human labels: humanScore");
+		expect(text).toContain("tone (nominal, n=3, 0 skipped)");
+		expect(text).toMatch(/Exact agreement: +0\.667/);
+		expect(text).toContain("Confusion matrix (rows: human, columns: judge)");
+		expect(text).toContain("   good     1     1");
+		expect(text).not.toContain("Spearman");
+	});
+
+	it("should render the report as JSON", () => {
+		expect(JSON.parse(formatAgreementReport(report, "json"))).toEqual(
+			JSON.parse(JSON.stringify(report)),
+		);
+	});
+});
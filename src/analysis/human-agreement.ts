@@ -0,0 +1,236 @@
+import type { BatchResult } from "../batch/types.js";
+import {
+	cohensKappa,
+	confusionMatrix,
+	kendallTau,
+	krippendorffAlpha,
+	type MeasurementLevel,
+	pearsonCorrelation,
+	spearmanCorrelation,
+} from "../utils/agreement.js";
+import type {
+	AgreementLabel,
+	AgreementOptions,
+	AgreementReport,
+	EvaluatorAgreement,
+} from "./types.js";
+
+interface LabelledPair {
+	readonly judge: AgreementLabel;
+	readonly human: AgreementLabel;
+}
+
+const isMissing = (value: unknown): boolean =>
+	value === undefined || value === null || value === "";
+
+/**
+ * Compare each evaluator's scores with human labels stored in a field of
+ * the input rows, e.g. a "humanScore" column of the batch CSV.
+ *
+ * Numeric judge scores are compared with labels parsed as numbers; other
+ * scores are compared as strings. Rows without a human label and failed
+ * evaluations are skipped.
+ */
+export const analyzeAgreement = (
+	result: BatchResult,
+	options: AgreementOptions,
+): AgreementReport => {
+	const weighting = options.weighting ?? "quadratic";
+	const evaluatorNames = options.evaluators ?? [
+		...new Set(
+			result.results.flatMap((row) =>
+				row.results.map((evalResult) => evalResult.evaluatorName),
+			),
+		),
+	];
+
+	return {
+		humanLabelField: options.humanLabelField,
+		weighting,
+		evaluators: evaluatorNames.map((evaluatorName) => {
+			const pairs: { judge: unknown; human: unknown }[] = [];
+			let skippedRows = 0;
+			for (const row of result.results) {
+				const evalResult = row.results.find(
+					(candidate) => candidate.evaluatorName === evaluatorName,
+				);
+				const human = row.input[options.humanLabelField];
+				if (row.error || !evalResult || evalResult.error || isMissing(human)) {
+					skippedRows++;
+					continue;
+				}
+				pairs.push({ judge: evalResult.score, human });
+			}
+
+			const labelled = normalizeLabels(pairs, options.labels);
+			return compareRaters(
+				evaluatorName,
+				labelled.pairs,
+				skippedRows + labelled.dropped,
+				options,
+			);
+		}),
+	};
+};
+
+/**
+ * Bring judge scores and human labels onto the same type. Labels that
+ * cannot be matched (a non-numeric label for a numeric score, or a value
+ * outside options.labels) are dropped.
+ */
+function normalizeLabels(
+	pairs: readonly { judge: unknown; human: unknown }[],
+	labels: readonly AgreementLabel[] | undefined,
+): { pairs: LabelledPair[]; dropped: number } {
+	let convert: (value: unknown) => AgreementLabel | undefined;
+	if (labels) {
+		convert = (value) =>
+			labels.find((label) => String(label) === String(value));
+	} else if (pairs.every((pair) => typeof pair.judge === "number")) {
+		convert = (value) => {
+			const number = typeof value === "number" ? value : Number(value);
+			return Number.isFinite(number) ? number : undefined;
+		};
+	} else {
+		convert = (value) => String(value);
+	}
+
+	const converted = pairs.flatMap((pair) => {
+		const judge = convert(pair.judge);
+		const human = convert(pair.human);
+		return judge === undefined || human === undefined ? [] : [{ judge, human }];
+	});
+	return { pairs: converted, dropped: pairs.length - converted.length };
+}
+
+function compareRaters(
+	evaluatorName: string,
+	pairs: readonly LabelledPair[],
+	skippedRows: number,
+	options: AgreementOptions,
+): EvaluatorAgreement {
+	const numeric = pairs.every((pair) => typeof pair.judge === "number");
+	const categories =
+		options.labels ??
+		[...new Set(pairs.flatMap((pair) => [pair.human, pair.judge]))].sort(
+			(a, b) =>
+				numeric ? Number(a) - Number(b) : String(a).localeCompare(String(b)),
+		);
+	const level: MeasurementLevel =
+		options.level ??
+		(numeric && !options.labels
+			? "interval"
+			: options.labels
+				? "ordinal"
+				: "nominal");
+	if (
+		level === "interval" &&
+		categories.some((category) => typeof category !== "number")
+	) {
+		throw new Error(
+			`Interval agreement for ${evaluatorName} requires numeric scores and labels`,
+		);
+	}
+	// Observed values alone may miss points of the scale, which would put
+	// the remaining categories the wrong distance apart
+	if (level === "ordinal" && !options.labels) {
+		throw new Error(
+			`Ordinal agreement for ${evaluatorName} requires labels listing the whole scale`,
+		);
+	}
+
+	const human = pairs.map((pair) => pair.human);
+	const judge = pairs.map((pair) => pair.judge);
+	const counts = confusionMatrix(human, judge, categories);
+	const ordered = level !== "nominal";
+
+	// Correlations use the values on an interval scale, otherwise their rank
+	const toNumber = (value: AgreementLabel) =>
+		level === "interval" ? Number(value) : categories.indexOf(value);
+	const humanValues = human.map(toNumber);
+	const judgeValues = judge.map(toNumber);
+
+	return {
+		evaluatorName,
+		level,
+		sampleSize: pairs.length,
+		skippedRows,
+		exactAgreement:
+			pairs.length > 0
+				? pairs.filter((pair) => pair.judge === pair.human).length /
+					pairs.length
+				: undefined,
+		cohensKappa: cohensKappa(counts),
+		weightedKappa: ordered
+			? cohensKappa(
+					counts,
+					options.weighting ?? "quadratic",
+					level === "interval" ? categories.map(Number) : undefined,
+				)
+			: undefined,
+		krippendorffAlpha: krippendorffAlpha(human, judge, categories, level),
+		pearson: ordered ? pearsonCorrelation(humanValues, judgeValues) : undefined,
+		spearman: ordered
+			? spearmanCorrelation(humanValues, judgeValues)
+			: undefined,
+		kendallTau: ordered ? kendallTau(humanValues, judgeValues) : undefined,
+		confusionMatrix: { labels: categories, counts },
+	};
+}
+
+const STATISTIC_LABELS: [keyof EvaluatorAgreement, string][] = [
+	["exactAgreement", "Exact agreement"],
+	["cohensKappa", "Cohen's kappa"],
+	["weightedKappa", "Weighted kappa"],
+	["krippendorffAlpha", "Krippendorff's alpha"],
+	["pearson", "Pearson r"],
+	["spearman", "Spearman rho"],
+	["kendallTau", "Kendall tau-b"],
+];
+
+/**
+ * Render a report as plain text, with one block of statistics and a
+ * confusion matrix per evaluator, or as JSON
+ */
+export const formatAgreementReport = (
+	report: AgreementReport,
+	format: "text" | "json" = "text",
+): string => {
+	if (format === "json") {
+		return JSON.stringify(report, null, 2);
+	}
+
+	const blocks = report.evaluators.map((agreement) => {
+		const lines = [
+			`${agreement.evaluatorName} (${agreement.level}, n=${agreement.sampleSize}, ${agreement.skippedRows} skipped)`,
+		];
+		for (const [key, label] of STATISTIC_LABELS) {
+			const value = agreement[key];
+			if (typeof value === "number") {
+				const note = key === "weightedKappa" ? ` (${report.weighting})` : "";
+				lines.push(`  ${`${label}:`.padEnd(22)}${value.toFixed(3)}${note}`);
+			}
+		}
+
+		const { labels, counts } = agreement.confusionMatrix;
+		if (labels.length > 0) {
+			const width = Math.max(
+				5,
+				...labels.map((label) => String(label).length),
+				...counts.flat().map((count) => String(count).length),
+			);
+			const cell = (value: AgreementLabel) => String(value).padStart(width);
+			lines.push("  Confusion matrix (rows: human, columns: judge)");
+			lines.push(`  ${" ".repeat(width)} ${labels.map(cell).join(" ")}`);
+			counts.forEach((row, index) => {
+				lines.push(`  ${cell(labels[index])} ${row.map(cell).join(" ")}`);
+			});
+		}
+		return lines.join("\n");
+	});
+
+	return [
+		`Judge vs human agreement (human labels: ${report.humanLabelField})`,
+		...blocks,
+	].join("\n\n");
+};
@@ -0,0 +1,45 @@
+import type { KappaWeighting, MeasurementLevel } from "../utils/agreement.js";
+
+export type AgreementLabel = string | number;
+
+export interface AgreementOptions {
+	readonly humanLabelField: string; // Input row field holding the human label
+	readonly evaluators?: readonly string[]; // Default: every evaluator in the results
+	readonly labels?: readonly AgreementLabel[]; // Categories in scale order. Default: the observed values, sorted when numeric
+	readonly level?: MeasurementLevel; // Default per evaluator: 'interval' for numeric scores, 'ordinal' when labels are given, otherwise 'nominal'. 'ordinal' requires labels
+	readonly weighting?: KappaWeighting; // Weighted kappa weighting. Default: 'quadratic'
+}
+
+/**
+ * Counts of human label (rows) against judge score (columns)
+ */
+export interface ConfusionMatrix {
+	readonly labels: readonly AgreementLabel[];
+	readonly counts: readonly (readonly number[])[];
+}
+
+/**
+ * Agreement between one evaluator and the human labels. Statistics that
+ * do not apply to the data, such as correlations for nominal labels or
+ * kappa when both raters give a single label, are not set.
+ */
+export interface EvaluatorAgreement {
+	readonly evaluatorName: string;
+	readonly level: MeasurementLevel;
+	readonly sampleSize: number; // Rows with both a judge score and a human label
+	readonly skippedRows: number; // Rows without a human label, or where the evaluator failed
+	readonly exactAgreement?: number;
+	readonly cohensKappa?: number;
+	readonly weightedKappa?: number; // Ordinal and interval levels only
+	readonly krippendorffAlpha?: number;
+	readonly pearson?: number; // Ordinal and interval levels only
+	readonly spearman?: number;
+	readonly kendallTau?: number; // Kendall's tau-b
+	readonly confusionMatrix: ConfusionMatrix;
+}
+
+export interface AgreementReport {
+	readonly humanLabelField: string;
+	readonly weighting: KappaWeighting;
+	readonly evaluators: readonly EvaluatorAgreement[];
+}
@@ -0,0 +1,306 @@
+import { describe, expect, it } from "@jest/globals";
+import type {
+	EvaluateOptions,
+	EvaluationInput,
+	EvaluatorResult,
+	IEvaluator,
+} from "../types/evaluator.js";
+import { BatchEvaluator } from "./batch-evaluator.js";
+
+const result = (name: string): EvaluatorResult => ({
+	evaluatorName: name,
+	score: 1,
+	feedback: "Ok",
+	processingStats: { executionTime: 1 },
+});
+
+/**
+ * Evaluator that only settles when its signal aborts, recording the signals
+ * it received
+ */
+const createHangingEvaluator = (name: string) => {
+	const signals: (AbortSignal | undefined)[] = [];
+	const evaluator: IEvaluator = {
+		name,
+		evaluate: (_input: EvaluationInput, options?: EvaluateOptions) => {
+			signals.push(options?.signal);
+			return new Promise<EvaluatorResult>((_, reject) => {
+				options?.signal?.addEventListener("abort", () =>
+					reject(options.signal?.reason),
+				);
+			});
+		},
+	};
+	return { evaluator, signals };
+};
+
+describe("BatchEvaluator", () => {
+	describe("timeout", () => {
+		it("should abort evaluator calls that exceed the timeout", async () => {
+			const { evaluator, signals } = createHangingEvaluator("slow");
+			const batch = new BatchEvaluator({
+				evaluators: [evaluator],
+				timeout: 10,
+				retryConfig: { maxRetries: 0 },
+			});
+
+			const batchResult = await batch.evaluate({
+				data: [{ candidateText: "Test" }],
+			});
+
+			expect(batchResult.failedRows).toBe(1);
+			expect(batchResult.results[0].error).toBe(
+				"Evaluator slow timed out after 10ms",
+			);
+			expect(signals[0]?.aborted).toBe(true);
+		});
+
+		it("should time out evaluators that ignore the signal", async () => {
+			const evaluator: IEvaluator = {
+				name: "stubborn",
+				evaluate: () => new Promise<EvaluatorResult>(() => {}),
+			};
+			const batch = new BatchEvaluator({
+				evaluators: [evaluator],
+				timeout: 10,
+				retryConfig: { maxRetries: 0 },
+			});
+
+			const batchResult = await batch.evaluate({
+				data: [{ candidateText: "Test" }],
+			});
+
+			expect(batchResult.results[0].error).toBe(
+				"Evaluator stubborn timed out after 10ms",
+			);
+		});
+	});
+
+	describe("custom fields", () => {
+		it("should pass extra row and defaultInput fields as input.variables", async () => {
+			const inputs: EvaluationInput[] = [];
+			const evaluator: IEvaluator = {
+				name: "relevance",
+				evaluate: async (input) => {
+					inputs.push(input);
+					return result("relevance");
+				},
+			};
+			const batch = new BatchEvaluator({
+				evaluators: [evaluator],
+				defaultInput: { prompt: "Describe", brand: "Sunny" },
+			});
+
+			await batch.evaluate({
+				data: [{ id: "a", candidateText: "Text", destination: "Crete" }],
+			});
+
+			expect(inputs[0]).toMatchObject({
+				candidateText: "Text",
+				prompt: "Describe",
+				variables: { brand: "Sunny", destination: "Crete" },
+			});
+			expect(inputs[0].variables).not.toHaveProperty("id");
+		});
+
+		it("should merge row variables into defaultInput variables", async () => {
+			const inputs: EvaluationInput[] = [];
+			const evaluator: IEvaluator = {
+				name: "relevance",
+				evaluate: async (input) => {
+					inputs.push(input);
+					return result("relevance");
+				},
+			};
+			const batch = new BatchEvaluator({
+				evaluators: [evaluator],
+				defaultInput: { variables: { brand: "Sunny", tone: "Warm" } },
+			});
+
+			await batch.evaluate({
+				data: [
+					{ candidateText: "One", variables: { tone: "Formal" } },
+					{ candidateText: "Two" },
+				],
+			});
+
+			expect(inputs.map((input) => input.variables)).toEqual([
+				{ brand: "Sunny", tone: "Formal" },
+				{ brand: "Sunny", tone: "Warm" },
+			]);
+		});
+	});
+
+	describe("missing variables", () => {
+		const createEvaluator = () => {
+			const inputs: EvaluationInput[] = [];
+			const evaluator: IEvaluator = {
+				name: "faithfulness",
+				evaluate: async (input) => {
+					inputs.push(input);
+					return result("faithfulness");
+				},
+				missingVariables: (input) => (input.sourceText ? [] : ["sourceText"]),
+			};
+			return { evaluator, inputs };
+		};
+		const data = [
+			{ candidateText: "One", sourceText: "Source" },
+			{ candidateText: "Two" },
+		];
+
+		it("should flag rows and still evaluate them by default", async () => {
+			const { evaluator, inputs } = createEvaluator();
+			const batch = new BatchEvaluator({ evaluators: [evaluator] });
+
+			const batchResult = await batch.evaluate({ data });
+			const [first, second] = [...batchResult.results].sort(
+				(a, b) => a.rowIndex - b.rowIndex,
+			);
+
+			expect(inputs).toHaveLength(2);
+			expect(batchResult.failedRows).toBe(0);
+			expect(first.missingVariables).toBeUndefined();
+			expect(second.missingVariables).toEqual({ faithfulness: ["sourceText"] });
+		});
+
+		it("should skip rows without evaluating them", async () => {
+			const { evaluator, inputs } = createEvaluator();
+			const batch = new BatchEvaluator({
+				evaluators: [evaluator],
+				onMissingVariables: "skip",
+			});
+
+			const batchResult = await batch.evaluate({ data });
+			const skipped = batchResult.results.find((row) => row.rowIndex === 1);
+
+			expect(inputs.map((input) => input.candidateText)).toEqual(["One"]);
+			expect(batchResult.failedRows).toBe(1);
+			expect(skipped).toMatchObject({
+				results: [],
+				retryCount: 0,
+				error: "Skipped: missing sourceText for faithfulness",
+				missingVariables: { faithfulness: ["sourceText"] },
+			});
+		});
+
+		it("should check fields from defaultInput", async () => {
+			const { evaluator, inputs } = createEvaluator();
+			const batch = new BatchEvaluator({
+				evaluators: [evaluator],
+				defaultInput: { sourceText: "Default source" },
+				onMissingVariables: "skip",
+			});
+
+			const batchResult = await batch.evaluate({ data });
+
+			expect(inputs).toHaveLength(2);
+			expect(batchResult.failedRows).toBe(0);
+		});
+	});
+
+	describe("cancellation", () => {
+		it("should abort in-flight calls and skip remaining rows", async () => {
+			const { evaluator, signals } = createHangingEvaluator("slow");
+			const controller = new AbortController();
+			const batch = new BatchEvaluator({
+				evaluators: [evaluator],
+				concurrency: 1,
+			});
+
+			const pending = batch.evaluate(
+				{
+					data: ["One", "Two", "Three", "Four"].map((candidateText) => ({
+						candidateText,
+					})),
+				},
+				{ signal: controller.signal },
+			);
+			await new Promise((resolve) => setTimeout(resolve, 10));
+			controller.abort(new Error("Cancelled by user"));
+
+			await expect(pending).rejects.toThrow("Cancelled by user");
+			expect(signals.length).toBeLessThan(4);
+			expect(signals.every((signal) => signal?.aborted)).toBe(true);
+			expect(batch.getCurrentResults()).toEqual([]);
+		});
+
+		it("should only cancel the batch whose signal aborts", async () => {
+			const evaluator: IEvaluator = {
+				name: "slow",
+				evaluate: (_input: EvaluationInput, options?: EvaluateOptions) =>
+					new Promise<EvaluatorResult>((resolve, reject) => {
+						const timer = setTimeout(() => resolve(result("slow")), 50);
+						options?.signal?.addEventListener("abort", () => {
+							clearTimeout(timer);
+							reject(options.signal?.reason);
+						});
+					}),
+			};
+			const controller = new AbortController();
+			const batch = new BatchEvaluator({ evaluators: [evaluator] });
+
+			const cancelled = batch.evaluate(
+				{ data: [{ candidateText: "One" }] },
+				{ signal: controller.signal },
+			);
+			const uncancelled = batch.evaluate({
+				data: [{ candidateText: "Two" }],
+			});
+			await new Promise((resolve) => setTimeout(resolve, 10));
+			controller.abort(new Error("Cancelled by user"));
+
+			await expect(cancelled).rejects.toThrow("Cancelled by user");
+			const batchResult = await uncancelled;
+			expect(batchResult.failedRows).toBe(0);
+			expect(batchResult.results[0].results[0].score).toBe(1);
+		});
+
+		it("should stop waiting to retry a row when cancelled", async () => {
+			const controller = new AbortController();
+			let calls = 0;
+			const evaluator: IEvaluator = {
+				name: "flaky",
+				evaluate: async () => {
+					calls++;
+					throw new Error("429 rate limit");
+				},
+			};
+			const batch = new BatchEvaluator({
+				evaluators: [evaluator],
+				retryConfig: { maxRetries: 3, retryDelay: 60_000 },
+			});
+
+			const pending = batch.evaluate(
+				{ data: [{ candidateText: "One" }] },
+				{ signal: controller.signal },
+			);
+			await new Promise((resolve) => setTimeout(resolve, 10));
+			controller.abort(new Error("Cancelled by user"));
+
+			await expect(pending).rejects.toThrow("Cancelled by user");
+			expect(calls).toBe(1);
+			expect(batch.getCurrentResults()).toEqual([]);
+		});
+
+		it("should discard rows that finish after cancellation", async () => {
+			const controller = new AbortController();
+			const evaluator: IEvaluator = {
+				name: "fast",
+				evaluate: async () => {
+					controller.abort(new Error("Cancelled by user"));
+					return result("fast");
+				},
+			};
+			const batch = new BatchEvaluator({ evaluators: [evaluator] });
+
+			await expect(
+				batch.evaluate(
+					{ data: [{ candidateText: "One" }] },
+					{ signal: controller.signal },
+				),
+			).rejects.toThrow("Cancelled by user");
+			expect(batch.getCurrentResults()).toEqual([]);
+		});
+	});
+});
@@ -5,13 +5,20 @@ import {
 	SpanStatusCode,
 	withSpan,
 } from "../telemetry.js";
-import type { EvaluatorResult, IEvaluator } from "../types/evaluator.js";
+import type {
+	EvaluateOptions,
+	EvaluationInput,
+	EvaluatorResult,
+	IEvaluator,
+} from "../types/evaluator.js";
+import { abortable, createAbortScope } from "../utils/abort.js";
 import { ConcurrencyManager } from "./concurrency-manager.js";
 import { CsvExporter } from "./exporters/csv-exporter.js";
 import { JsonExporter } from "./exporters/json-exporter.js";
 import { CsvParser } from "./parsers/csv-parser.js";
 import { JsonParser } from "./parsers/json-parser.js";
 import { ProgressTracker } from "./progress-tracker.js";
+import { averageNormalizedScores } from "./score-summary.js";
 import type {
 	BatchEvaluationResult,
 	BatchEvaluatorConfig,
@@ -46,9 +53,18 @@ export class BatchEvaluator {
 	}
 
 	/**
-	 * Run batch evaluation on input data
+	 * Run batch evaluation on input data.
+	 *
+	 * Aborting options.signal cancels in-flight evaluator calls, skips rows
+	 * that have not started and rejects with the abort reason. Rows completed
+	 * before the abort remain available from getCurrentResults().
 	 */
-	async evaluate(inputConfig: BatchInputConfig): Promise<BatchResult> {
+	async evaluate(
+		inputConfig: BatchInputConfig,
+		options?: EvaluateOptions,
+	): Promise<BatchResult> {
+		const signal = options?.signal;
+
 		return withSpan(
 			"eval-kit.batch.evaluate",
 			{
@@ -96,11 +112,13 @@ export class BatchEvaluator {
 					const batch = rows.slice(i, i + batchSize);
 					const batchPromises = batch.map((row, batchIndex) =>
 						// Adjust index to account for startIndex offset
-						this.processRow(row, startIndex + i + batchIndex),
+						this.processRow(row, startIndex + i + batchIndex, signal),
 					);
 					await Promise.all(batchPromises);
 				}
 
+				signal?.throwIfAborted();
+
 				// Mark completion
 				this.progressTracker.complete();
 
@@ -212,13 +230,21 @@ export class BatchEvaluator {
 	/**
 	 * Process a single row
 	 */
-	private async processRow(row: BatchInputRow, index: number): Promise<void> {
+	private async processRow(
+		row: BatchInputRow,
+		index: number,
+		signal: AbortSignal | undefined,
+	): Promise<void> {
 		// Skip if already processed (resume scenario)
 		if (this.processedRowIndices.has(index)) {
 			return;
 		}
 
 		await this.concurrencyManager.run(async () => {
+			if (signal?.aborted) {
+				return;
+			}
+
 			const rowId = row.id ?? `row-${index}`;
 			const tracer = getCachedTracer();
 
@@ -227,7 +253,7 @@ export class BatchEvaluator {
 				{
 					attributes: { "eval_kit.row.id": rowId, "eval_kit.row.index": index },
 				},
-				(span: EvalKitSpan) => this.runRowWithSpan(row, index, span),
+				(span: EvalKitSpan) => this.runRowWithSpan(row, index, span, signal),
 			);
 		});
 	}
@@ -236,13 +262,27 @@ export class BatchEvaluator {
 		row: BatchInputRow,
 		index: number,
 		span: EvalKitSpan,
+		signal: AbortSignal | undefined,
 	): Promise<void> {
 		const startTime = Date.now();
 		let spanError: string | undefined;
-		const inputData = { ...this.config.defaultInput, ...row };
+		const inputData = this.applyDefaultInput(row);
 		const rowId = row.id ?? `row-${index}`;
 
 		try {
+			const missingVariables = this.findMissingVariables(inputData);
+			if (missingVariables && this.config.onMissingVariables === "skip") {
+				spanError = await this.skipRow({
+					row,
+					index,
+					rowId,
+					startTime,
+					missingVariables,
+				});
+				span.setAttribute("eval_kit.row.skipped", true);
+				return;
+			}
+
 			await this.executeRowWithRetry({
 				inputData,
 				row,
@@ -250,6 +290,8 @@ export class BatchEvaluator {
 				rowId,
 				span,
 				startTime,
+				missingVariables,
+				signal,
 			});
 		} catch (error) {
 			spanError = error instanceof Error ? error.message : String(error);
@@ -266,6 +308,55 @@ export class BatchEvaluator {
 		}
 	}
 
+	/**
+	 * Input fields each evaluator requires that the row lacks, for evaluators
+	 * that report them
+	 */
+	private findMissingVariables(
+		row: BatchInputRow,
+	): Record<string, string[]> | undefined {
+		const input = this.toEvaluationInput(row);
+		const missing: Record<string, string[]> = {};
+		for (const evaluator of this.evaluators) {
+			const variables = evaluator.missingVariables?.(input) ?? [];
+			if (variables.length > 0) {
+				missing[evaluator.name] = variables;
+			}
+		}
+		return Object.keys(missing).length > 0 ? missing : undefined;
+	}
+
+	/**
+	 * Record a row as failed without evaluating it. Returns the error.
+	 */
+	private async skipRow(ctx: {
+		row: BatchInputRow;
+		index: number;
+		rowId: string;
+		startTime: number;
+		missingVariables: Record<string, string[]>;
+	}): Promise<string> {
+		const error = `Skipped: missing ${Object.entries(ctx.missingVariables)
+			.map(([name, variables]) => `${variables.join(", ")} for ${name}`)
+			.join("; ")}`;
+		const durationMs = Date.now() - ctx.startTime;
+
+		await this.emitResult({
+			rowId: ctx.rowId,
+			rowIndex: ctx.index,
+			input: ctx.row,
+			results: [],
+			timestamp: new Date().toISOString(),
+			durationMs,
+			retryCount: 0,
+			error,
+			missingVariables: ctx.missingVariables,
+		});
+		this.processedRowIndices.add(ctx.index);
+		this.progressTracker?.recordFailure(durationMs);
+		return error;
+	}
+
 	private async executeRowWithRetry(ctx: {
 		inputData: BatchInputRow;
 		row: BatchInputRow;
@@ -273,6 +364,8 @@ export class BatchEvaluator {
 		rowId: string;
 		span: EvalKitSpan;
 		startTime: number;
+		missingVariables?: Record<string, string[]>;
+		signal: AbortSignal | undefined;
 	}): Promise<void> {
 		let retryCount = 0;
 		const maxRetries = this.config.retryConfig?.maxRetries ?? 3;
@@ -294,6 +387,7 @@ export class BatchEvaluator {
 					rowId: ctx.rowId,
 					index: ctx.index,
 					row: ctx.row,
+					signal: ctx.signal,
 				};
 				const shouldRetry = await this.handleRowError(errorCtx);
 				if (!shouldRetry) {
@@ -314,7 +408,13 @@ export class BatchEvaluator {
 		rowId: string;
 		index: number;
 		row: BatchInputRow;
+		signal: AbortSignal | undefined;
 	}): Promise<boolean> {
+		// Rows interrupted by cancellation are neither retried nor recorded
+		if (ctx.signal?.aborted) {
+			return false;
+		}
+
 		const errorMessage =
 			ctx.error instanceof Error ? ctx.error.message : String(ctx.error);
 		const shouldRetry = this.shouldRetry(
@@ -334,7 +434,7 @@ export class BatchEvaluator {
 				"eval_kit.retry.error": errorMessage,
 			});
 
-			await this.sleep(delay);
+			await this.sleep(delay, ctx.signal);
 			return true;
 		}
 
@@ -384,8 +484,14 @@ export class BatchEvaluator {
 		rowId: string;
 		startTime: number;
 		retryCount: number;
+		missingVariables?: Record<string, string[]>;
+		signal: AbortSignal | undefined;
 	}): Promise<void> {
-		const evaluatorResults = await this.runEvaluators(ctx.inputData);
+		const evaluatorResults = await this.runEvaluators(
+			ctx.inputData,
+			ctx.signal,
+		);
+		ctx.signal?.throwIfAborted();
 		const durationMs = Date.now() - ctx.startTime;
 		const tokensUsed = evaluatorResults.reduce(
 			(sum, r) => sum + (r.processingStats.tokenUsage?.totalTokens ?? 0),
@@ -400,6 +506,9 @@ export class BatchEvaluator {
 			timestamp: new Date().toISOString(),
 			durationMs,
 			retryCount: ctx.retryCount,
+			...(ctx.missingVariables
+				? { missingVariables: ctx.missingVariables }
+				: {}),
 		};
 
 		await this.emitResult(result);
@@ -410,7 +519,10 @@ export class BatchEvaluator {
 	/**
 	 * Run all evaluators on a single row
 	 */
-	private async runEvaluators(row: BatchInputRow): Promise<EvaluatorResult[]> {
+	private async runEvaluators(
+		row: BatchInputRow,
+		signal: AbortSignal | undefined,
+	): Promise<EvaluatorResult[]> {
 		return withSpan(
 			"eval-kit.batch.run_evaluators",
 			{
@@ -421,28 +533,25 @@ export class BatchEvaluator {
 				},
 			},
 			async () => {
-				const input = {
-					candidateText: row.candidateText,
-					prompt: row.prompt,
-					referenceText: row.referenceText,
-					sourceText: row.sourceText,
-					contentType: row.contentType,
-					language: row.language,
-				};
+				const input = this.toEvaluationInput(row);
 
-				// Apply timeout if configured
+				// Abort the evaluator call on timeout or cancellation. The race
+				// also covers evaluators that ignore the signal.
 				const timeout = this.config.timeout;
 				const evaluateWithTimeout = async (evaluator: IEvaluator) => {
-					if (timeout) {
-						return Promise.race([
-							evaluator.evaluate(input),
-							this.timeoutPromise(
-								timeout,
-								`Evaluator ${evaluator.name} timed out after ${timeout}ms`,
-							),
-						]);
+					const scope = createAbortScope({
+						signal,
+						timeout,
+						timeoutMessage: `Evaluator ${evaluator.name} timed out after ${timeout}ms`,
+					});
+					try {
+						return await abortable(
+							evaluator.evaluate(input, { signal: scope.signal }),
+							scope.signal,
+						);
+					} finally {
+						scope.dispose();
 					}
-					return evaluator.evaluate(input);
 				};
 
 				// Run evaluators in parallel or sequential mode
@@ -463,6 +572,67 @@ export class BatchEvaluator {
 		);
 	}
 
+	/**
+	 * Fill fields the row lacks from defaultInput. Variables are merged key
+	 * by key, so a row setting one variable keeps the other defaults.
+	 */
+	private applyDefaultInput(row: BatchInputRow): BatchInputRow {
+		const defaults = this.config.defaultInput;
+		const defaultVariables = defaults?.variables as
+			| EvaluationInput["variables"]
+			| undefined;
+		if (!defaultVariables || !row.variables) {
+			return { ...defaults, ...row };
+		}
+
+		return {
+			...defaults,
+			...row,
+			variables: { ...defaultVariables, ...row.variables },
+		};
+	}
+
+	/**
+	 * The evaluation input of a row. Fields other than the standard input
+	 * fields and id, such as metadata columns and defaultInput extras, become
+	 * input.variables.
+	 */
+	private toEvaluationInput(row: BatchInputRow): EvaluationInput {
+		const {
+			id: _id,
+			candidateText,
+			prompt,
+			referenceText,
+			sourceText,
+			comparisonText,
+			contexts,
+			conversation,
+			trajectory,
+			expectedTrajectory,
+			images,
+			contentType,
+			language,
+			variables,
+			...extraFields
+		} = row;
+
+		return {
+			candidateText,
+			prompt,
+			referenceText,
+			sourceText,
+			comparisonText,
+			contexts,
+			conversation,
+			trajectory,
+			expectedTrajectory,
+			images,
+			contentType,
+			language,
+			variables: { ...extraFields, ...variables },
+		};
+	}
+
 	/**
 	 * Check if error should be retried
 	 * @param errorMessage The error message
@@ -548,24 +718,29 @@ export class BatchEvaluator {
 				totalTokensUsed: totalTokensUsed > 0 ? totalTokensUsed : undefined,
 				errorRate:
 					this.results.length > 0 ? failedRows / this.results.length : 0,
+				averageNormalizedScores: averageNormalizedScores(this.results),
 			},
 		};
 	}
 
 	/**
-	 * Create a timeout promise
+	 * Sleep for specified milliseconds, rejecting as soon as signal aborts
 	 */
-	private timeoutPromise<T>(ms: number, message: string): Promise<T> {
-		return new Promise((_, reject) => {
-			setTimeout(() => reject(new Error(message)), ms);
-		});
-	}
-
-	/**
-	 * Sleep for specified milliseconds
-	 */
-	private sleep(ms: number): Promise<void> {
-		return new Promise((resolve) => setTimeout(resolve, ms));
+	private async sleep(
+		ms: number,
+		signal: AbortSignal | undefined,
+	): Promise<void> {
+		let timer: ReturnType<typeof setTimeout> | undefined;
+		try {
+			await abortable(
+				new Promise<void>((resolve) => {
+					timer = setTimeout(resolve, ms);
+				}),
+				signal,
+			);
+		} finally {
+			clearTimeout(timer);
+		}
 	}
 
 	/**
@@ -0,0 +1,116 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import { parse } from "csv-parse/sync";
+import type { EvaluatorResult } from "../../types/evaluator.js";
+import type { BatchEvaluationResult } from "../types.js";
+import { CsvExporter } from "./csv-exporter.js";
+
+const createResult = (
+	overrides: Partial<EvaluatorResult> = {},
+): EvaluatorResult => ({
+	evaluatorName: "fluency",
+	score: 4,
+	feedback: "Reads well",
+	processingStats: { executionTime: 5 },
+	...overrides,
+});
+
+const createRow = (
+	rowIndex: number,
+	overrides: Partial<BatchEvaluationResult> = {},
+): BatchEvaluationResult => ({
+	rowId: `row-${rowIndex}`,
+	rowIndex,
+	input: { candidateText: `Text ${rowIndex}` },
+	results: [createResult()],
+	timestamp: "2024-01-01T00:00:00.000Z",
+	durationMs: 10,
+	retryCount: 0,
+	...overrides,
+});
+
+describe("CsvExporter", () => {
+	let directory: string;
+	let destination: string;
+
+	beforeEach(async () => {
+		directory = await mkdtemp(join(tmpdir(), "csv-exporter-"));
+		destination = join(directory, "results.csv");
+	});
+
+	afterEach(async () => {
+		await rm(directory, { recursive: true, force: true });
+	});
+
+	const exportRows = async (
+		rows: BatchEvaluationResult[],
+	): Promise<Record<string, string>[]> => {
+		await new CsvExporter().export(rows, { format: "csv", destination });
+		return parse(await readFile(destination, "utf-8"), { columns: true });
+	};
+
+	it("should keep missingVariables when only a later row is flagged", async () => {
+		const records = await exportRows([
+			createRow(0),
+			createRow(1, { missingVariables: { fluency: ["referenceText"] } }),
+		]);
+
+		expect(records[0].missingVariables).toBe("");
+		expect(JSON.parse(records[1].missingVariables)).toEqual({
+			fluency: ["referenceText"],
+		});
+	});
+
+	it("should include optional columns missing from the first row", async () => {
+		const records = await exportRows([
+			createRow(0),
+			createRow(1, {
+				results: [
+					createResult({
+						normalizedScore: 0.75,
+						reasoning: "Short sentences",
+						details: { tone: "friendly" },
+						processingStats: { executionTime: 5, cacheHits: 1, cacheMisses: 2 },
+					}),
+				],
+			}),
+		]);
+
+		expect(records[0]).toMatchObject({
+			normalizedScore: "",
+			reasoning: "",
+			fluency_tone: "",
+			cacheHits: "",
+			cacheMisses: "",
+		});
+		expect(records[1]).toMatchObject({
+			normalizedScore: "0.75",
+			reasoning: "Short sentences",
+			fluency_tone: "friendly",
+			cacheHits: "1",
+			cacheMisses: "2",
+		});
+	});
+
+	it("should write nothing for an empty result set", async () => {
+		await new CsvExporter().export([], { format: "csv", destination });
+
+		expect(await readFile(destination, "utf-8")).toBe("");
+	});
+
+	it("should write images as a JSON array", async () => {
+		const dataUrl = "data:image/png;base64,iVBORw0KGgo=";
+		const [record] = await exportRows([
+			createRow(0, {
+				input: {
+					candidateText: "Pool",
+					images: [dataUrl, Buffer.from("abc")],
+				},
+			}),
+		]);
+
+		expect(JSON.parse(record.images)).toEqual([dataUrl, "<3 bytes>"]);
+	});
+});
@@ -7,6 +7,12 @@ const STANDARD_INPUT_FIELDS = new Set([
 	"prompt",
 	"referenceText",
 	"sourceText",
+	"comparisonText",
+	"contexts",
+	"conversation",
+	"trajectory",
+	"expectedTrajectory",
+	"images",
 	"contentType",
 	"language",
 	"id",
@@ -17,13 +23,7 @@ export class CsvExporter {
 		results: BatchEvaluationResult[],
 		config: BatchExportConfig,
 	): Promise<void> {
-		const {
-			destination,
-			csvOptions = {},
-			includeFields,
-			excludeFields,
-			filterCondition,
-		} = config;
+		const { filterCondition } = config;
 
 		// Filter results if condition provided
 		const filteredResults = filterCondition
@@ -32,18 +32,43 @@ export class CsvExporter {
 
 		// Flatten results for CSV
 		const flattenedRecords = filteredResults.map((result) =>
-			this.flattenResult(result, csvOptions.flattenResults ?? true),
+			this.flattenResult(result, config.csvOptions?.flattenResults ?? true),
 		);
 
+		await this.exportRecords(flattenedRecords, config);
+	}
+
+	/**
+	 * Write already-flat records, e.g. tournament ratings. Field filters
+	 * apply; filterCondition does not, as it takes batch results.
+	 */
+	async exportRecords(
+		records: Record<string, unknown>[],
+		config: BatchExportConfig,
+	): Promise<void> {
+		const {
+			destination,
+			csvOptions = {},
+			includeFields,
+			excludeFields,
+		} = config;
+
 		// Apply field filtering
 		const finalRecords = this.applyFieldFilters(
-			flattenedRecords,
+			records,
 			includeFields,
 			excludeFields,
 		);
 
+		// Columns are taken from every record, as optional fields such as
+		// normalizedScore or details may be missing from the first one
+		const columns = [
+			...new Set(finalRecords.flatMap((record) => Object.keys(record))),
+		];
+
 		// Generate CSV
 		const csv = stringify(finalRecords, {
+			columns: columns.length > 0 ? columns : undefined,
 			header: csvOptions.includeHeaders ?? true,
 			delimiter: csvOptions.delimiter ?? ",",
 			quoted: true,
@@ -69,6 +94,9 @@ export class CsvExporter {
 			durationMs: result.durationMs,
 			retryCount: result.retryCount,
 			error: result.error ?? "",
+			missingVariables: result.missingVariables
+				? JSON.stringify(result.missingVariables)
+				: "",
 		};
 
 		this.addStandardInputFields(flat, result.input);
@@ -89,6 +117,26 @@ export class CsvExporter {
 		if (input.prompt) flat.prompt = input.prompt;
 		if (input.referenceText) flat.referenceText = input.referenceText;
 		if (input.sourceText) flat.sourceText = input.sourceText;
+		if (input.comparisonText) flat.comparisonText = input.comparisonText;
+		if (input.contexts?.length) {
+			flat.contexts = JSON.stringify(input.contexts);
+		}
+		if (input.conversation?.length) {
+			flat.conversation = JSON.stringify(input.conversation);
+		}
+		if (input.trajectory) {
+			flat.trajectory = JSON.stringify(input.trajectory);
+		}
+		if (input.expectedTrajectory) {
+			flat.expectedTrajectory = JSON.stringify(input.expectedTrajectory);
+		}
+		if (input.images?.length) {
+			flat.images = JSON.stringify(
+				input.images.map((image) =>
+					typeof image === "string" ? image : `<${image.byteLength} bytes>`,
+				),
+			);
+		}
 		if (input.contentType) flat.contentType = input.contentType;
 		if (input.language) flat.language = input.language;
 	}
@@ -126,16 +174,130 @@ export class CsvExporter {
 
 			flat[`${prefix}evaluatorName`] = evalResult.evaluatorName;
 			flat[`${prefix}score`] = evalResult.score;
+			if (evalResult.normalizedScore !== undefined) {
+				flat[`${prefix}normalizedScore`] = evalResult.normalizedScore;
+			}
 			flat[`${prefix}feedback`] = evalResult.feedback;
+			if (evalResult.reasoning !== undefined) {
+				flat[`${prefix}reasoning`] = evalResult.reasoning;
+			}
+
+			this.addCriteria(flat, evalResult, prefix);
+
+			this.addDetails(flat, evalResult);
 
 			this.addProcessingStats(flat, evalResult, prefix);
 
+			if (evalResult.jury) {
+				flat[`${prefix}agreementRatio`] =
+					evalResult.jury.agreement.agreementRatio;
+				if (evalResult.jury.agreement.standardDeviation !== undefined) {
+					flat[`${prefix}standardDeviation`] =
+						evalResult.jury.agreement.standardDeviation;
+				}
+			}
+
+			if (evalResult.sampling) {
+				flat[`${prefix}sampleCount`] = evalResult.sampling.samples.length;
+				flat[`${prefix}agreementRatio`] = evalResult.sampling.agreementRatio;
+				if (evalResult.sampling.standardDeviation !== undefined) {
+					flat[`${prefix}standardDeviation`] =
+						evalResult.sampling.standardDeviation;
+				}
+			}
+
+			if (evalResult.turns) {
+				flat[`${prefix}turnScores`] = JSON.stringify(
+					evalResult.turns.map((turn) => turn.score),
+				);
+			}
+
+			if (evalResult.claims) {
+				this.addClaims(flat, evalResult.claims, prefix);
+			}
+
+			if (evalResult.trajectory) {
+				flat[`${prefix}toolCallPrecision`] = evalResult.trajectory.precision;
+				flat[`${prefix}toolCallRecall`] = evalResult.trajectory.recall;
+			}
+
+			if (evalResult.rules) {
+				flat[`${prefix}rulesViolated`] = evalResult.rules
+					.filter((rule) => !rule.passed)
+					.map((rule) => rule.rule)
+					.join(", ");
+			}
+
+			if (evalResult.contexts) {
+				flat[`${prefix}contextsRelevant`] = evalResult.contexts.filter(
+					(context) => context.verdict === "relevant",
+				).length;
+				flat[`${prefix}contextVerdicts`] = JSON.stringify(evalResult.contexts);
+			}
+
+			if (evalResult.pairwise) {
+				flat[`${prefix}positionConsistent`] =
+					evalResult.pairwise.positionConsistent;
+			}
+
 			if (evalResult.error) {
 				flat[`${prefix}error`] = evalResult.error;
 			}
 		}
 	}
 
+	/**
+	 * Add one score and one feedback column per rubric criterion
+	 */
+	private addCriteria(
+		flat: Record<string, unknown>,
+		evalResult: BatchEvaluationResult["results"][number],
+		prefix: string,
+	): void {
+		if (!evalResult.criteria) {
+			return;
+		}
+
+		for (const [name, criterion] of Object.entries(evalResult.criteria)) {
+			flat[`${prefix}${name}_score`] = criterion.score;
+			flat[`${prefix}${name}_feedback`] = criterion.feedback;
+		}
+	}
+
+	/**
+	 * Add one column per custom details field, named after the evaluator so
+	 * that columns stay distinct when several evaluators return details
+	 */
+	private addDetails(
+		flat: Record<string, unknown>,
+		evalResult: BatchEvaluationResult["results"][number],
+	): void {
+		if (!evalResult.details) {
+			return;
+		}
+
+		for (const [field, value] of Object.entries(evalResult.details)) {
+			flat[`${evalResult.evaluatorName}_${field}`] = this.serializeValue(value);
+		}
+	}
+
+	/**
+	 * Add claim counts per verdict, plus every verdict as JSON
+	 */
+	private addClaims(
+		flat: Record<string, unknown>,
+		claims: NonNullable<BatchEvaluationResult["results"][number]["claims"]>,
+		prefix: string,
+	): void {
+		const count = (verdict: string) =>
+			claims.filter((claim) => claim.verdict === verdict).length;
+
+		flat[`${prefix}claimsSupported`] = count("supported");
+		flat[`${prefix}claimsContradicted`] = count("contradicted");
+		flat[`${prefix}claimsNotFound`] = count("not_found");
+		flat[`${prefix}claims`] = JSON.stringify(claims);
+	}
+
 	/**
 	 * Add processing stats to the flattened object
 	 */
@@ -150,6 +312,14 @@ export class CsvExporter {
 
 		flat[`${prefix}executionTime`] = evalResult.processingStats.executionTime;
 
+		if (evalResult.processingStats.cacheHits !== undefined) {
+			flat[`${prefix}cacheHits`] = evalResult.processingStats.cacheHits;
+		}
+
+		if (evalResult.processingStats.cacheMisses !== undefined) {
+			flat[`${prefix}cacheMisses`] = evalResult.processingStats.cacheMisses;
+		}
+
 		if (evalResult.processingStats.tokenUsage) {
 			flat[`${prefix}tokenUsage`] = JSON.stringify(
 				evalResult.processingStats.tokenUsage,
@@ -1,4 +1,5 @@
 import { writeFile } from "node:fs/promises";
+import { averageNormalizedScores } from "../score-summary.js";
 import type { BatchEvaluationResult, BatchExportConfig } from "../types.js";
 
 export class JsonExporter {
@@ -35,6 +36,7 @@ export class JsonExporter {
 						totalResults: finalResults.length,
 						successfulResults: finalResults.filter((r) => !r.error).length,
 						failedResults: finalResults.filter((r) => r.error).length,
+						averageNormalizedScores: averageNormalizedScores(filteredResults),
 					},
 					results: finalResults,
 				}
@@ -81,4 +83,37 @@ export class JsonExporter {
 
 		return filtered as Partial<BatchEvaluationResult>;
 	}
+
+	/**
+	 * Write arbitrary records, e.g. tournament ratings. Field filters apply;
+	 * filterCondition and metadata do not, as they describe batch results.
+	 */
+	async exportRecords(
+		records: Record<string, unknown>[],
+		config: BatchExportConfig,
+	): Promise<void> {
+		const {
+			destination,
+			jsonOptions = {},
+			includeFields,
+			excludeFields,
+		} = config;
+
+		const finalRecords = records.map((record) =>
+			Object.fromEntries(
+				Object.entries(record).filter(
+					([key]) =>
+						(!includeFields || includeFields.includes(key)) &&
+						!excludeFields?.includes(key),
+				),
+			),
+		);
+
+		const json = JSON.stringify(
+			finalRecords,
+			null,
+			jsonOptions.pretty ? 2 : undefined,
+		);
+		await writeFile(destination, json, { encoding: "utf-8" });
+	}
 }
@@ -0,0 +1,173 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import { stringify } from "csv-stringify/sync";
+import { CsvParser } from "./csv-parser.js";
+
+describe("CsvParser", () => {
+	let directory: string;
+	let filePath: string;
+
+	beforeEach(async () => {
+		directory = await mkdtemp(join(tmpdir(), "csv-parser-"));
+		filePath = join(directory, "input.csv");
+	});
+
+	afterEach(async () => {
+		await rm(directory, { recursive: true, force: true });
+	});
+
+	const parseRows = async (rows: Record<string, string>[]) => {
+		await writeFile(filePath, stringify(rows, { header: true }));
+		return new CsvParser().parse({ filePath, format: "csv" });
+	};
+
+	it("should keep additional columns as strings", async () => {
+		const [row] = await parseRows([
+			{ candidateText: "Sunny villa", destination: "Crete" },
+		]);
+
+		expect(row).toMatchObject({
+			id: "row-0",
+			candidateText: "Sunny villa",
+			destination: "Crete",
+		});
+	});
+
+	it("should parse a JSON conversation column", async () => {
+		const conversation = [
+			{ role: "user", content: "Where is my booking?" },
+			{ role: "assistant", content: "Confirmed for 12 May." },
+		];
+		const [row] = await parseRows([
+			{
+				candidateText: "Confirmed for 12 May.",
+				conversation: JSON.stringify(conversation),
+			},
+		]);
+
+		expect(row.conversation).toEqual(conversation);
+	});
+
+	it("should default candidateText to the final assistant turn", async () => {
+		const conversation = [
+			{ role: "user", content: "Where is my booking?" },
+			{ role: "assistant", content: "Let me check." },
+			{ role: "assistant", content: "Confirmed for 12 May." },
+		];
+		const [row] = await parseRows([
+			{ candidateText: "", conversation: JSON.stringify(conversation) },
+		]);
+
+		expect(row.candidateText).toBe("Confirmed for 12 May.");
+		await expect(parseRows([{ candidateText: "", id: "a" }])).rejects.toThrow(
+			"Required field 'candidateText' not found in CSV record",
+		);
+	});
+
+	it("should reject a conversation column that is not a list of turns", async () => {
+		await expect(
+			parseRows([
+				{ candidateText: "Hi", conversation: '[{"speaker":"user"}]' },
+			]),
+		).rejects.toThrow("Conversation fields must be a JSON array");
+		await expect(
+			parseRows([{ candidateText: "Hi", conversation: "user: hi" }]),
+		).rejects.toThrow("Field 'conversation' in CSV record must be valid JSON");
+	});
+
+	it("should parse a JSON contexts column", async () => {
+		const [row] = await parseRows([
+			{ candidateText: "Pool", contexts: '["Heated pool","Free wifi"]' },
+		]);
+
+		expect(row.contexts).toEqual(["Heated pool", "Free wifi"]);
+		await expect(
+			parseRows([{ candidateText: "Pool", contexts: "[1, 2]" }]),
+		).rejects.toThrow("Context fields must be a JSON array of strings");
+	});
+
+	it("should parse JSON trajectory columns", async () => {
+		const trajectory = [{ tool: "book", arguments: { nights: 3 } }];
+		const [row] = await parseRows([
+			{
+				candidateText: "Booked.",
+				trajectory: JSON.stringify(trajectory),
+				expectedTrajectory: JSON.stringify(trajectory),
+			},
+		]);
+
+		expect(row.trajectory).toEqual(trajectory);
+		expect(row.expectedTrajectory).toEqual(trajectory);
+		await expect(
+			parseRows([{ candidateText: "Booked.", expectedTrajectory: '["book"]' }]),
+		).rejects.toThrow(
+			"Trajectory field 'expectedTrajectory' must be a JSON array",
+		);
+	});
+
+	it("should parse a JSON variables column", async () => {
+		const [row] = await parseRows([
+			{ candidateText: "Villa", variables: '{"destination":"Crete"}' },
+		]);
+
+		expect(row.variables).toEqual({ destination: "Crete" });
+		await expect(
+			parseRows([{ candidateText: "Villa", variables: '["Crete"]' }]),
+		).rejects.toThrow("Variables field must be a JSON object");
+	});
+
+	it("should leave out empty structured columns", async () => {
+		const [row] = await parseRows([
+			{ candidateText: "Villa", conversation: "", variables: "" },
+		]);
+
+		expect(row).not.toHaveProperty("conversation");
+		expect(row).not.toHaveProperty("variables");
+	});
+
+	it("should read a data URL image without splitting it", async () => {
+		const dataUrl = "data:image/png;base64,iVBORw0KGgo=";
+		const [row] = await parseRows([{ candidateText: "Pool", images: dataUrl }]);
+
+		expect(row.images).toEqual([dataUrl]);
+	});
+
+	it("should read several images from lines or a JSON array", async () => {
+		const dataUrl = "data:image/png;base64,iVBORw0KGgo=";
+		const [lines, array] = await parseRows([
+			{ candidateText: "Pool", images: `./pool.jpg\n${dataUrl}` },
+			{ candidateText: "Bar", images: JSON.stringify(["./bar.jpg", dataUrl]) },
+		]);
+
+		expect(lines.images).toEqual(["./pool.jpg", dataUrl]);
+		expect(array.images).toEqual(["./bar.jpg", dataUrl]);
+		await expect(
+			parseRows([{ candidateText: "Bar", images: "[1]" }]),
+		).rejects.toThrow("Image fields must be a JSON array of strings");
+	});
+
+	it("should leave out an empty images cell", async () => {
+		const [row] = await parseRows([{ candidateText: "Pool", images: "" }]);
+
+		expect(row).not.toHaveProperty("images");
+	});
+
+	it("should not copy a mapped images column as a raw string", async () => {
+		await writeFile(
+			filePath,
+			stringify([{ candidateText: "Pool", photo: "./pool.jpg\n./bar.jpg" }], {
+				header: true,
+			}),
+		);
+		const [row] = await new CsvParser().parse({
+			filePath,
+			format: "csv",
+			fieldMapping: { candidateText: "candidateText", images: "photo" },
+		});
+
+		expect(row.images).toEqual(["./pool.jpg", "./bar.jpg"]);
+		expect(row).not.toHaveProperty("photo");
+	});
+});
@@ -1,7 +1,27 @@
 import { readFile } from "node:fs/promises";
 import { parse } from "csv-parse/sync";
+import type {
+	ConversationTurn,
+	TrajectoryStep,
+} from "../../types/evaluator.js";
+import {
+	findAssistantTurns,
+	isConversation,
+} from "../../utils/conversation.js";
+import { isTrajectory } from "../../utils/trajectory.js";
 import type { BatchInputFileConfig, BatchInputRow } from "../types.js";
 
+// Columns parsed into lists or objects, which are never copied to the row
+// as raw strings
+const STRUCTURED_FIELDS = [
+	"contexts",
+	"conversation",
+	"trajectory",
+	"expectedTrajectory",
+	"images",
+	"variables",
+] as const;
+
 export class CsvParser {
 	async parse(config: BatchInputFileConfig): Promise<BatchInputRow[]> {
 		const records = await this.parseRecordsFromFile(config);
@@ -40,9 +60,14 @@ export class CsvParser {
 		index: number,
 		fieldMapping?: BatchInputFileConfig["fieldMapping"],
 	): BatchInputRow {
-		const candidateText = this.getField(
+		const conversation = this.extractConversation(
+			record,
+			fieldMapping?.conversation,
+		);
+		const candidateText = this.extractCandidateText(
 			record,
 			fieldMapping?.candidateText ?? "candidateText",
+			conversation,
 		);
 
 		const id = this.extractId(record, index, fieldMapping);
@@ -56,6 +81,11 @@ export class CsvParser {
 			"sourceText",
 			fieldMapping?.sourceText,
 		);
+		const comparisonText = this.extractOptionalField(
+			record,
+			"comparisonText",
+			fieldMapping?.comparisonText,
+		);
 		const contentType = this.extractOptionalField(
 			record,
 			"contentType",
@@ -66,21 +96,56 @@ export class CsvParser {
 			"language",
 			fieldMapping?.language,
 		);
+		const images = this.extractImages(record, fieldMapping?.images);
+		const contexts = this.extractContexts(record, fieldMapping?.contexts);
+		const trajectory = this.extractTrajectory(
+			record,
+			fieldMapping?.trajectory ?? "trajectory",
+		);
+		const expectedTrajectory = this.extractTrajectory(
+			record,
+			fieldMapping?.expectedTrajectory ?? "expectedTrajectory",
+		);
+		const variables = this.extractVariables(record);
 
 		const row: BatchInputRow = {
 			candidateText,
 			id,
 			...(referenceText && { referenceText }),
 			...(sourceText && { sourceText }),
+			...(comparisonText && { comparisonText }),
+			...(contexts && { contexts }),
+			...(conversation && { conversation }),
+			...(trajectory && { trajectory }),
+			...(expectedTrajectory && { expectedTrajectory }),
 			...(contentType && { contentType }),
 			...(language && { language }),
+			...(images && { images }),
+			...(variables && { variables }),
 		};
 
-		this.addAdditionalFields(row, record);
+		this.addAdditionalFields(row, record, fieldMapping);
 
 		return row;
 	}
 
+	/**
+	 * candidateText may be left empty for conversations, in which case the
+	 * final assistant turn is used
+	 */
+	private extractCandidateText(
+		record: Record<string, string>,
+		fieldName: string,
+		conversation: readonly ConversationTurn[] | undefined,
+	): string {
+		if (!record[fieldName] && conversation) {
+			const assistantTurns = findAssistantTurns(conversation);
+			const lastTurn = assistantTurns[assistantTurns.length - 1];
+			return lastTurn !== undefined ? conversation[lastTurn].content : "";
+		}
+		return this.getField(record, fieldName);
+	}
+
 	/**
 	 * Extract ID field with fallback logic
 	 */
@@ -109,15 +174,156 @@ export class CsvParser {
 		return this.getOptionalField(record, defaultFieldName);
 	}
 
+	/**
+	 * Extract image paths or URLs from a JSON array of strings, or from one
+	 * image per line. Data URLs contain ";", so it cannot be a separator.
+	 */
+	private extractImages(
+		record: Record<string, string>,
+		mappedFieldName?: string,
+	): string[] | undefined {
+		const fieldName = mappedFieldName ?? "images";
+		const value = this.getOptionalField(record, fieldName);
+		if (value === undefined) {
+			return undefined;
+		}
+
+		const parsed = value.startsWith("[")
+			? this.parseJsonField(record, fieldName)
+			: value.split(/\r?\n/);
+		if (
+			!Array.isArray(parsed) ||
+			!parsed.every((image) => typeof image === "string")
+		) {
+			throw new Error("Image fields must be a JSON array of strings");
+		}
+		const images = parsed
+			.map((image) => image.trim())
+			.filter((image) => image.length > 0);
+		return images.length > 0 ? images : undefined;
+	}
+
+	/**
+	 * Extract retrieved context chunks from a JSON array of strings
+	 */
+	private extractContexts(
+		record: Record<string, string>,
+		mappedFieldName?: string,
+	): string[] | undefined {
+		const value = this.parseJsonField(record, mappedFieldName ?? "contexts");
+		if (value === undefined) {
+			return undefined;
+		}
+
+		if (
+			!Array.isArray(value) ||
+			!value.every((context) => typeof context === "string")
+		) {
+			throw new Error("Context fields must be a JSON array of strings");
+		}
+		return value;
+	}
+
+	/**
+	 * Extract conversation turns from a JSON array of { role, content }
+	 * objects
+	 */
+	private extractConversation(
+		record: Record<string, string>,
+		mappedFieldName?: string,
+	): ConversationTurn[] | undefined {
+		const value = this.parseJsonField(
+			record,
+			mappedFieldName ?? "conversation",
+		);
+		if (value === undefined) {
+			return undefined;
+		}
+
+		if (!isConversation(value)) {
+			throw new Error(
+				"Conversation fields must be a JSON array of { role, content } turns with role system, user or assistant",
+			);
+		}
+		return value.map(({ role, content }) => ({ role, content }));
+	}
+
+	/**
+	 * Extract agent tool calls from a JSON array of { tool, arguments,
+	 * output } objects
+	 */
+	private extractTrajectory(
+		record: Record<string, string>,
+		fieldName: string,
+	): TrajectoryStep[] | undefined {
+		const value = this.parseJsonField(record, fieldName);
+		if (value === undefined) {
+			return undefined;
+		}
+
+		if (!isTrajectory(value)) {
+			throw new Error(
+				`Trajectory field '${fieldName}' must be a JSON array of { tool, arguments, output } steps`,
+			);
+		}
+		return value;
+	}
+
+	/**
+	 * Extract template variables from a JSON object
+	 */
+	private extractVariables(
+		record: Record<string, string>,
+	): Record<string, unknown> | undefined {
+		const value = this.parseJsonField(record, "variables");
+		if (value === undefined) {
+			return undefined;
+		}
+
+		if (typeof value !== "object" || value === null || Array.isArray(value)) {
+			throw new Error("Variables field must be a JSON object");
+		}
+		return value as Record<string, unknown>;
+	}
+
+	/**
+	 * Parse a column holding JSON, the format the CSV exporter writes
+	 * structured fields in
+	 */
+	private parseJsonField(
+		record: Record<string, string>,
+		fieldName: string,
+	): unknown {
+		const value = this.getOptionalField(record, fieldName);
+		if (value === undefined) {
+			return undefined;
+		}
+
+		try {
+			return JSON.parse(value);
+		} catch {
+			throw new Error(`Field '${fieldName}' in CSV record must be valid JSON`);
+		}
+	}
+
 	/**
 	 * Add any additional fields from the record to the row
 	 */
 	private addAdditionalFields(
 		row: BatchInputRow,
 		record: Record<string, string>,
+		fieldMapping?: BatchInputFileConfig["fieldMapping"],
 	): void {
+		const structuredColumns = new Set<string>(STRUCTURED_FIELDS);
+		for (const field of STRUCTURED_FIELDS) {
+			const mapped = field === "variables" ? undefined : fieldMapping?.[field];
+			if (mapped) {
+				structuredColumns.add(mapped);
+			}
+		}
+
 		for (const [key, value] of Object.entries(record)) {
-			if (!(key in row)) {
+			if (!(key in row) && !structuredColumns.has(key)) {
 				row[key] = value;
 			}
 		}
@@ -0,0 +1,56 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import { JsonParser } from "./json-parser.js";
+
+describe("JsonParser", () => {
+	let directory: string;
+	let filePath: string;
+
+	beforeEach(async () => {
+		directory = await mkdtemp(join(tmpdir(), "json-parser-"));
+		filePath = join(directory, "input.json");
+	});
+
+	afterEach(async () => {
+		await rm(directory, { recursive: true, force: true });
+	});
+
+	const parseRows = async (rows: Record<string, unknown>[]) => {
+		await writeFile(filePath, JSON.stringify(rows));
+		return new JsonParser().parse({ filePath, format: "json" });
+	};
+
+	it("should keep additional fields", async () => {
+		const [row] = await parseRows([
+			{ candidateText: "Sunny villa", destination: "Crete" },
+		]);
+
+		expect(row).toMatchObject({
+			id: "row-0",
+			candidateText: "Sunny villa",
+			destination: "Crete",
+		});
+	});
+
+	it("should read images from a string or an array", async () => {
+		const [single, several] = await parseRows([
+			{ candidateText: "Pool", images: "./pool.jpg" },
+			{ candidateText: "Bar", images: ["./bar.jpg", "./bar-night.jpg"] },
+		]);
+
+		expect(single.images).toEqual(["./pool.jpg"]);
+		expect(several.images).toEqual(["./bar.jpg", "./bar-night.jpg"]);
+	});
+
+	it("should leave out an empty images value", async () => {
+		const [empty, missing] = await parseRows([
+			{ candidateText: "Pool", images: "" },
+			{ candidateText: "Bar", images: null },
+		]);
+
+		expect(empty).not.toHaveProperty("images");
+		expect(missing).not.toHaveProperty("images");
+	});
+});
@@ -1,4 +1,13 @@
 import { readFile } from "node:fs/promises";
+import type {
+	ConversationTurn,
+	TrajectoryStep,
+} from "../../types/evaluator.js";
+import {
+	findAssistantTurns,
+	isConversation,
+} from "../../utils/conversation.js";
+import { isTrajectory } from "../../utils/trajectory.js";
 import type { BatchInputFileConfig, BatchInputRow } from "../types.js";
 
 export class JsonParser {
@@ -68,9 +77,23 @@ export class JsonParser {
 		index: number,
 		fieldMapping?: BatchInputFileConfig["fieldMapping"],
 	): BatchInputRow {
-		const candidateText = this.getField(
+		const conversation = this.extractConversation(
+			record,
+			fieldMapping?.conversation,
+		);
+		const contexts = this.extractContexts(record, fieldMapping?.contexts);
+		const trajectory = this.extractTrajectory(
+			record,
+			fieldMapping?.trajectory ?? "trajectory",
+		);
+		const expectedTrajectory = this.extractTrajectory(
+			record,
+			fieldMapping?.expectedTrajectory ?? "expectedTrajectory",
+		);
+		const candidateText = this.extractCandidateText(
 			record,
 			fieldMapping?.candidateText ?? "candidateText",
+			conversation,
 		);
 
 		const id = this.extractId(record, index, fieldMapping);
@@ -82,6 +105,10 @@ export class JsonParser {
 			defaultFieldName: "sourceText",
 			mappedFieldName: fieldMapping?.sourceText,
 		});
+		const comparisonText = this.extractOptionalStringField(record, {
+			defaultFieldName: "comparisonText",
+			mappedFieldName: fieldMapping?.comparisonText,
+		});
 		const contentType = this.extractOptionalStringField(record, {
 			defaultFieldName: "contentType",
 			mappedFieldName: fieldMapping?.contentType,
@@ -90,17 +117,24 @@ export class JsonParser {
 			defaultFieldName: "language",
 			mappedFieldName: fieldMapping?.language,
 		});
+		const images = this.extractImages(record, fieldMapping?.images);
 
 		const row: BatchInputRow = {
 			candidateText,
 			id,
 			...(referenceText && { referenceText }),
 			...(sourceText && { sourceText }),
+			...(comparisonText && { comparisonText }),
+			...(contexts && { contexts }),
+			...(conversation && { conversation }),
+			...(trajectory && { trajectory }),
+			...(expectedTrajectory && { expectedTrajectory }),
 			...(contentType && { contentType }),
 			...(language && { language }),
+			...(images && { images }),
 		};
 
-		this.addAdditionalFields(row, record);
+		this.addAdditionalFields(row, record, fieldMapping?.images ?? "images");
 
 		return row;
 	}
@@ -133,14 +167,120 @@ export class JsonParser {
 	}
 
 	/**
-	 * Add any additional fields from the record to the row
+	 * Extract retrieved context chunks from an array of strings
+	 */
+	private extractContexts(
+		record: Record<string, unknown>,
+		mappedFieldName?: string,
+	): string[] | undefined {
+		const value = this.getOptionalField(record, mappedFieldName ?? "contexts");
+		if (value === undefined || value === null) {
+			return undefined;
+		}
+
+		if (
+			!Array.isArray(value) ||
+			!value.every((context) => typeof context === "string")
+		) {
+			throw new Error("Context fields must be an array of strings");
+		}
+		return value;
+	}
+
+	/**
+	 * Extract agent tool calls from an array of { tool, arguments, output }
+	 * objects
+	 */
+	private extractTrajectory(
+		record: Record<string, unknown>,
+		fieldName: string,
+	): TrajectoryStep[] | undefined {
+		const value = this.getOptionalField(record, fieldName);
+		if (value === undefined || value === null) {
+			return undefined;
+		}
+
+		if (!isTrajectory(value)) {
+			throw new Error(
+				`Trajectory field '${fieldName}' must be an array of { tool, arguments, output } steps`,
+			);
+		}
+		return value;
+	}
+
+	/**
+	 * Extract conversation turns from an array of { role, content } objects
+	 */
+	private extractConversation(
+		record: Record<string, unknown>,
+		mappedFieldName?: string,
+	): ConversationTurn[] | undefined {
+		const value = this.getOptionalField(
+			record,
+			mappedFieldName ?? "conversation",
+		);
+		if (value === undefined || value === null) {
+			return undefined;
+		}
+
+		if (!isConversation(value)) {
+			throw new Error(
+				"Conversation fields must be an array of { role, content } turns with role system, user or assistant",
+			);
+		}
+		return value.map(({ role, content }) => ({ role, content }));
+	}
+
+	/**
+	 * candidateText may be omitted for conversations, in which case the
+	 * final assistant turn is used
+	 */
+	private extractCandidateText(
+		record: Record<string, unknown>,
+		fieldName: string,
+		conversation: readonly ConversationTurn[] | undefined,
+	): string {
+		const value = record[fieldName];
+		if ((value === undefined || value === null) && conversation) {
+			const assistantTurns = findAssistantTurns(conversation);
+			const lastTurn = assistantTurns[assistantTurns.length - 1];
+			return lastTurn !== undefined ? conversation[lastTurn].content : "";
+		}
+		return this.getField(record, fieldName);
+	}
+
+	/**
+	 * Extract image paths or URLs from a string or an array of strings
+	 */
+	private extractImages(
+		record: Record<string, unknown>,
+		mappedFieldName?: string,
+	): string[] | undefined {
+		const value = this.getOptionalField(record, mappedFieldName ?? "images");
+		if (value === undefined || value === null || value === "") {
+			return undefined;
+		}
+
+		const images = Array.isArray(value) ? value : [value];
+		if (!images.every((image) => typeof image === "string")) {
+			throw new Error(
+				"Image fields must contain a path or URL string, or an array of them",
+			);
+		}
+		return images.length > 0 ? images : undefined;
+	}
+
+	/**
+	 * Add any additional fields from the record to the row. The images field
+	 * is left out, as an empty value must not reach evaluators as a string.
 	 */
 	private addAdditionalFields(
 		row: BatchInputRow,
 		record: Record<string, unknown>,
+		imagesField: string,
 	): void {
 		for (const [key, value] of Object.entries(record)) {
-			if (!(key in row)) {
+			if (!(key in row) && key !== imagesField) {
 				row[key] = value;
 			}
 		}
@@ -0,0 +1,53 @@
+import type { EvaluatorResult } from "../types/evaluator.js";
+import { averageNormalizedScores } from "./score-summary.js";
+import type { BatchEvaluationResult } from "./types.js";
+
+const createRow = (results: EvaluatorResult[]): BatchEvaluationResult => ({
+	rowId: "row",
+	rowIndex: 0,
+	input: { candidateText: "Test" },
+	results,
+	timestamp: "2024-01-01T00:00:00.000Z",
+	durationMs: 10,
+	retryCount: 0,
+});
+
+const createResult = (
+	evaluatorName: string,
+	normalizedScore?: number,
+	error?: string,
+): EvaluatorResult => ({
+	evaluatorName,
+	score: 0,
+	...(normalizedScore !== undefined ? { normalizedScore } : {}),
+	feedback: "",
+	processingStats: { executionTime: 1 },
+	...(error ? { error } : {}),
+});
+
+describe("averageNormalizedScores", () => {
+	it("should average normalized scores per evaluator", () => {
+		const summary = averageNormalizedScores([
+			createRow([createResult("fluency", 0.5), createResult("tone", 1)]),
+			createRow([createResult("fluency", 1), createResult("tone", 0)]),
+		]);
+
+		expect(summary).toEqual({ fluency: 0.75, tone: 0.5 });
+	});
+
+	it("should skip errors and results without a normalized score", () => {
+		const summary = averageNormalizedScores([
+			createRow([createResult("fluency", 0.4)]),
+			createRow([createResult("fluency", 1, "API down")]),
+			createRow([createResult("fluency")]),
+		]);
+
+		expect(summary).toEqual({ fluency: 0.4 });
+	});
+
+	it("should return undefined when nothing was normalized", () => {
+		expect(
+			averageNormalizedScores([createRow([createResult("custom")])]),
+		).toBeUndefined();
+	});
+});
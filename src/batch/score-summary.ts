@@ -0,0 +1,28 @@
+import { mean } from "../utils/statistics.js";
+import type { BatchEvaluationResult } from "./types.js";
+
+/**
+ * Mean normalizedScore per evaluator name across a batch.
+ * Failed evaluations and results without a normalized score are skipped.
+ * Returns undefined when no result has a normalized score.
+ */
+export const averageNormalizedScores = (
+	results: readonly BatchEvaluationResult[],
+): Record<string, number> | undefined => {
+	const scores = new Map<string, number[]>();
+	for (const result of results) {
+		for (const evalResult of result.results) {
+			if (evalResult.error || evalResult.normalizedScore === undefined) {
+				continue;
+			}
+			const evaluatorScores = scores.get(evalResult.evaluatorName) ?? [];
+			evaluatorScores.push(evalResult.normalizedScore);
+			scores.set(evalResult.evaluatorName, evaluatorScores);
+		}
+	}
+
+	if (scores.size === 0) return undefined;
+	return Object.fromEntries(
+		[...scores].map(([name, values]) => [name, mean(values)]),
+	);
+};
@@ -24,6 +24,7 @@ export interface BatchEvaluationResult {
 	readonly durationMs: number;
 	readonly retryCount: number;
 	readonly error?: string;
+	readonly missingVariables?: Readonly<Record<string, readonly string[]>>; // Input fields each evaluator required but the row lacked, keyed by evaluator name
 }
 
 /**
@@ -65,6 +66,10 @@ export interface BatchEvaluatorConfig {
 	// Result streaming - called for each result as it completes
 	readonly onResult?: (result: BatchEvaluationResult) => void | Promise<void>;
 
+	// Rows lacking input fields an evaluator requires: 'flag' evaluates the row and lists
+	// them in missingVariables, 'skip' records the row as failed without evaluating it
+	readonly onMissingVariables?: "flag" | "skip"; // Default: 'flag'
+
 	// Execution mode
 	readonly stopOnError?: boolean; // Default: false
 	readonly timeout?: number; // Per-evaluation timeout
@@ -107,6 +112,12 @@ export interface BatchInputFileConfig {
 		readonly candidateText: string; // Required
 		readonly referenceText?: string;
 		readonly sourceText?: string;
+		readonly comparisonText?: string; // Second candidate for pairwise evaluators
+		readonly contexts?: string; // Array of retrieved chunks (JSON-encoded in CSV)
+		readonly conversation?: string; // Array of { role, content } turns (JSON-encoded in CSV)
+		readonly trajectory?: string; // Array of { tool, arguments, output } steps (JSON-encoded in CSV)
+		readonly expectedTrajectory?: string; // Same shape as trajectory (JSON-encoded in CSV)
+		readonly images?: string; // Image file paths or URLs; one per line or a JSON array in CSV, an array in JSON
 		readonly contentType?: string;
 		readonly language?: string;
 		readonly id?: string; // Optional row identifier
@@ -200,5 +211,6 @@ export interface BatchResult {
 		readonly averageProcessingTime: number;
 		readonly totalTokensUsed?: number;
 		readonly errorRate: number;
+		readonly averageNormalizedScores?: Readonly<Record<string, number>>; // Keyed by evaluator name
 	};
 }
@@ -0,0 +1,87 @@
+import {
+	createEvaluationCacheKey,
+	InMemoryEvaluationCache,
+} from "./evaluation-cache.js";
+
+const keyParts = {
+	evaluatorName: "fluency",
+	modelId: "gpt-4o",
+	prompt: "Rate: Hello",
+	scoreConfig: { type: "numeric", min: 0, max: 10 },
+	modelSettings: { temperature: 0, seed: 1 },
+} as const;
+
+describe("Evaluation Cache", () => {
+	describe("createEvaluationCacheKey", () => {
+		it("should be deterministic", () => {
+			expect(createEvaluationCacheKey(keyParts)).toBe(
+				createEvaluationCacheKey({ ...keyParts }),
+			);
+		});
+
+		it("should ignore object key order", () => {
+			expect(createEvaluationCacheKey(keyParts)).toBe(
+				createEvaluationCacheKey({
+					...keyParts,
+					modelSettings: { seed: 1, temperature: 0 },
+				}),
+			);
+		});
+
+		it("should change when any part changes", () => {
+			const key = createEvaluationCacheKey(keyParts);
+
+			expect(
+				createEvaluationCacheKey({ ...keyParts, prompt: "Rate: Hi" }),
+			).not.toBe(key);
+			expect(
+				createEvaluationCacheKey({ ...keyParts, modelId: "gpt-4o-mini" }),
+			).not.toBe(key);
+			expect(
+				createEvaluationCacheKey({
+					...keyParts,
+					modelSettings: { temperature: 0.5, seed: 1 },
+				}),
+			).not.toBe(key);
+			expect(
+				createEvaluationCacheKey({
+					...keyParts,
+					scoreConfig: { type: "numeric", min: 1, max: 10 },
+				}),
+			).not.toBe(key);
+			expect(
+				createEvaluationCacheKey({ ...keyParts, sampleIndex: 1 }),
+			).not.toBe(key);
+		});
+
+		it("should produce a filesystem-safe key", () => {
+			expect(createEvaluationCacheKey(keyParts)).toMatch(/^[a-f0-9]{64}$/);
+		});
+	});
+
+	describe("InMemoryEvaluationCache", () => {
+		it("should store and retrieve entries", async () => {
+			const cache = new InMemoryEvaluationCache();
+			const entry = {
+				output: { score: 5, feedback: "Ok" },
+				cachedAt: "2024-01-01T00:00:00.000Z",
+			};
+
+			expect(await cache.get("key")).toBeUndefined();
+			await cache.set("key", entry);
+
+			expect(await cache.get("key")).toEqual(entry);
+			expect(cache.size).toBe(1);
+		});
+
+		it("should clear entries", async () => {
+			const cache = new InMemoryEvaluationCache();
+			await cache.set("key", { output: {}, cachedAt: "" });
+
+			cache.clear();
+
+			expect(cache.size).toBe(0);
+			expect(await cache.get("key")).toBeUndefined();
+		});
+	});
+});
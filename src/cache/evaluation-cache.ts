@@ -0,0 +1,83 @@
+import { createHash } from "node:crypto";
+import type {
+	EvaluatorConfig,
+	ScoreConfig,
+	ScoreDistribution,
+} from "../types/evaluator.js";
+
+/**
+ * A judge response stored in an EvaluationCache
+ */
+export interface CachedEvaluation {
+	readonly output: Record<string, unknown>;
+	readonly scoreDistribution?: ScoreDistribution; // Set when the evaluator uses logprobScoring
+	readonly cachedAt: string;
+}
+
+/**
+ * Storage for judge responses, keyed by createEvaluationCacheKey.
+ * Implement this interface to back the cache with Redis, S3, etc.
+ */
+export interface EvaluationCache {
+	get(key: string): Promise<CachedEvaluation | undefined>;
+	set(key: string, value: CachedEvaluation): Promise<void>;
+}
+
+export interface EvaluationCacheKeyParts {
+	readonly evaluatorName: string;
+	readonly modelId: string | undefined;
+	readonly prompt: string | Readonly<Record<string, unknown>>; // Rendered prompt, or system prompt and messages
+	readonly scoreConfig: ScoreConfig;
+	readonly modelSettings: EvaluatorConfig["modelSettings"];
+	readonly outputOptions?: Record<string, unknown>; // Anything else that changes the response shape
+	readonly sampleIndex?: number;
+}
+
+const stableStringify = (value: unknown): string => {
+	if (Array.isArray(value)) {
+		return `[${value.map(stableStringify).join(",")}]`;
+	}
+	if (value && typeof value === "object") {
+		const entries = Object.entries(value as Record<string, unknown>)
+			.filter(([, entry]) => entry !== undefined)
+			.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+			.map(
+				([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`,
+			);
+		return `{${entries.join(",")}}`;
+	}
+	return JSON.stringify(value) ?? "null";
+};
+
+/**
+ * Build a cache key from everything that influences the judge response.
+ * Object key order does not affect the key.
+ */
+export const createEvaluationCacheKey = (
+	parts: EvaluationCacheKeyParts,
+): string => {
+	return createHash("sha256").update(stableStringify(parts)).digest("hex");
+};
+
+/**
+ * Process-local cache. Entries are lost when the process exits.
+ */
+export class InMemoryEvaluationCache implements EvaluationCache {
+	private readonly entries = new Map<string, CachedEvaluation>();
+
+	async get(key: string): Promise<CachedEvaluation | undefined> {
+		return this.entries.get(key);
+	}
+
+	async set(key: string, value: CachedEvaluation): Promise<void> {
+		this.entries.set(key, value);
+	}
+
+	get size(): number {
+		return this.entries.size;
+	}
+
+	clear(): void {
+		this.entries.clear();
+	}
+}
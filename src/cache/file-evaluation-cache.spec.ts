@@ -0,0 +1,58 @@
+import { mkdtemp, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { FileEvaluationCache } from "./file-evaluation-cache.js";
+
+describe("FileEvaluationCache", () => {
+	let directory: string;
+
+	beforeEach(async () => {
+		directory = await mkdtemp(join(tmpdir(), "eval-kit-cache-"));
+	});
+
+	afterEach(async () => {
+		await rm(directory, { recursive: true, force: true });
+	});
+
+	it("should return undefined for missing entries", async () => {
+		const cache = new FileEvaluationCache({ directory });
+
+		expect(await cache.get("abc123")).toBeUndefined();
+	});
+
+	it("should persist entries across instances", async () => {
+		const entry = {
+			output: { score: 8, feedback: "Good" },
+			cachedAt: "2024-01-01T00:00:00.000Z",
+		};
+
+		await new FileEvaluationCache({ directory }).set("abc123", entry);
+
+		expect(await new FileEvaluationCache({ directory }).get("abc123")).toEqual(
+			entry,
+		);
+		expect(await readdir(directory)).toEqual(["abc123.json"]);
+	});
+
+	it("should create the directory on first write", async () => {
+		const nested = join(directory, "nested", "cache");
+		const cache = new FileEvaluationCache({ directory: nested });
+
+		await cache.set("abc123", { output: {}, cachedAt: "" });
+
+		expect(await readdir(nested)).toEqual(["abc123.json"]);
+	});
+
+	it("should treat corrupt entries as misses", async () => {
+		await writeFile(join(directory, "abc123.json"), '{"output":');
+		const cache = new FileEvaluationCache({ directory });
+
+		expect(await cache.get("abc123")).toBeUndefined();
+	});
+
+	it("should reject keys that are not safe file names", async () => {
+		const cache = new FileEvaluationCache({ directory });
+
+		await expect(cache.get("../escape")).rejects.toThrow("Invalid cache key");
+	});
+});
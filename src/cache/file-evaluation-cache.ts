@@ -0,0 +1,48 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { CachedEvaluation, EvaluationCache } from "./evaluation-cache.js";
+
+/**
+ * Cache that stores one JSON file per entry in a directory, so cached
+ * judge responses survive crashes and re-runs.
+ */
+export class FileEvaluationCache implements EvaluationCache {
+	private readonly directory: string;
+
+	constructor(options: { directory: string }) {
+		this.directory = options.directory;
+	}
+
+	async get(key: string): Promise<CachedEvaluation | undefined> {
+		let content: string;
+		try {
+			content = await readFile(this.getPath(key), { encoding: "utf-8" });
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+				return undefined;
+			}
+			throw error;
+		}
+
+		try {
+			return JSON.parse(content) as CachedEvaluation;
+		} catch {
+			// A partially written entry (e.g. after a crash) is treated as a miss
+			return undefined;
+		}
+	}
+
+	async set(key: string, value: CachedEvaluation): Promise<void> {
+		await mkdir(this.directory, { recursive: true });
+		await writeFile(this.getPath(key), JSON.stringify(value), {
+			encoding: "utf-8",
+		});
+	}
+
+	private getPath(key: string): string {
+		if (!/^[\w-]+$/.test(key)) {
+			throw new Error(`Invalid cache key: ${key}`);
+		}
+		return join(this.directory, `${key}.json`);
+	}
+}
@@ -0,0 +1,163 @@
+import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+import type { LanguageModel } from "ai";
+
+// Mock the ai module before importing ClaimFaithfulnessEvaluator
+const mockGenerateText = jest.fn<(options: unknown) => Promise<unknown>>();
+jest.unstable_mockModule("ai", () => ({
+	generateText: mockGenerateText,
+	Output: {
+		object: jest.fn((output) => ({ type: "object", ...output })),
+	},
+}));
+
+// Import after mocking
+const { ClaimFaithfulnessEvaluator } = await import(
+	"./claim-faithfulness-evaluator.js"
+);
+
+const createMockModel = (): LanguageModel =>
+	({
+		specificationVersion: "v1",
+		provider: "mock",
+		modelId: "mock-model",
+		defaultObjectGenerationMode: "json",
+	}) as unknown as LanguageModel;
+
+const usage = { inputTokens: 20, outputTokens: 5, totalTokens: 25 };
+
+const claims = (...values: string[]) => ({
+	output: { claims: values },
+	usage,
+});
+
+const verdicts = (
+	...values: ("supported" | "contradicted" | "not_found")[]
+) => ({
+	output: {
+		verdicts: values.map((verdict) => ({
+			verdict,
+			explanation: `Because ${verdict}`,
+		})),
+	},
+	usage,
+});
+
+const getPrompt = (callIndex: number): string =>
+	(mockGenerateText.mock.calls[callIndex][0] as { prompt: string }).prompt;
+
+const createEvaluator = () =>
+	new ClaimFaithfulnessEvaluator({
+		name: "faithfulness",
+		model: createMockModel(),
+	});
+
+describe("ClaimFaithfulnessEvaluator", () => {
+	beforeEach(() => {
+		mockGenerateText.mockReset();
+	});
+
+	it("should score the share of supported claims", async () => {
+		mockGenerateText
+			.mockResolvedValueOnce(
+				claims(
+					"The hotel has a pool.",
+					"The hotel is in Rome.",
+					"The hotel opened in 1990.",
+					"Breakfast is included.",
+				),
+			)
+			.mockResolvedValueOnce(
+				verdicts("supported", "contradicted", "not_found", "supported"),
+			);
+
+		const result = await createEvaluator().evaluate({
+			candidateText: "The Rome hotel, opened in 1990, has a pool...",
+			sourceText: "The hotel in Milan has a pool and includes breakfast.",
+		});
+
+		expect(result.error).toBeUndefined();
+		expect(result.score).toBe(0.5);
+		expect(result.normalizedScore).toBe(0.5);
+		expect(result.claims).toEqual([
+			{
+				claim: "The hotel has a pool.",
+				verdict: "supported",
+				explanation: "Because supported",
+			},
+			{
+				claim: "The hotel is in Rome.",
+				verdict: "contradicted",
+				explanation: "Because contradicted",
+			},
+			{
+				claim: "The hotel opened in 1990.",
+				verdict: "not_found",
+				explanation: "Because not_found",
+			},
+			{
+				claim: "Breakfast is included.",
+				verdict: "supported",
+				explanation: "Because supported",
+			},
+		]);
+		expect(result.feedback).toContain("2 of 4 claims are supported");
+		expect(result.feedback).toContain("[contradicted] The hotel is in Rome.");
+		expect(result.processingStats.tokenUsage?.totalTokens).toBe(50);
+	});
+
+	it("should extract claims from the candidate and verify them against the source", async () => {
+		mockGenerateText
+			.mockResolvedValueOnce(claims("The sky is blue."))
+			.mockResolvedValueOnce(verdicts("supported"));
+
+		await createEvaluator().evaluate({
+			candidateText: "The sky is blue.",
+			sourceText: "Source facts",
+			referenceText: "Reference facts",
+		});
+
+		expect(getPrompt(0)).toContain("Text:\nThe sky is blue.");
+		const verificationPrompt = getPrompt(1);
+		expect(verificationPrompt).toContain("Source facts");
+		expect(verificationPrompt).toContain("Reference facts");
+		expect(verificationPrompt).toContain("1. The sky is blue.");
+	});
+
+	it("should score text without claims as faithful", async () => {
+		mockGenerateText.mockResolvedValueOnce(claims());
+
+		const result = await createEvaluator().evaluate({
+			candidateText: "Hello!",
+			referenceText: "Anything",
+		});
+
+		expect(mockGenerateText).toHaveBeenCalledTimes(1);
+		expect(result.score).toBe(1);
+		expect(result.claims).toEqual([]);
+		expect(result.feedback).toBe("The text makes no factual claims.");
+	});
+
+	it("should require a source or reference text", async () => {
+		const result = await createEvaluator().evaluate({
+			candidateText: "The sky is blue.",
+		});
+
+		expect(result.error).toContain("requires sourceText or referenceText");
+		expect(mockGenerateText).not.toHaveBeenCalled();
+	});
+
+	it("should fail when the judge returns the wrong number of verdicts", async () => {
+		mockGenerateText
+			.mockResolvedValueOnce(claims("One.", "Two."))
+			.mockResolvedValueOnce(verdicts("supported"));
+
+		const result = await createEvaluator().evaluate({
+			candidateText: "One. Two.",
+			sourceText: "One.",
+		});
+
+		expect(result.error).toBe(
+			"Expected 2 claim verdicts but the judge returned 1",
+		);
+	});
+});
@@ -0,0 +1,133 @@
+import type { EvalKitSpan } from "../telemetry.js";
+import type {
+	ClaimFaithfulnessEvaluatorConfig,
+	EvaluateOptions,
+	EvaluationInput,
+	EvaluatorResult,
+	IEvaluator,
+} from "../types/evaluator.js";
+import {
+	setTokenUsageAttributes,
+	sumTokenUsage,
+} from "../utils/token-usage.js";
+import {
+	extractClaims,
+	formatClaimFeedback,
+	supportedRatio,
+	verifyClaims,
+} from "./claims.js";
+import { getModelId, type ModelSettings, traceEvaluation } from "./shared.js";
+
+/**
+ * Scores faithfulness claim by claim.
+ *
+ * The judge first breaks candidateText into atomic claims, then checks every
+ * claim against the source in a second call. The score is the share of
+ * claims the source supports, so a single hallucinated statement is visible
+ * in the per-claim verdicts instead of being averaged into a holistic score.
+ */
+export class ClaimFaithfulnessEvaluator implements IEvaluator {
+	readonly name: string;
+	readonly timeout?: number;
+
+	private readonly model: ClaimFaithfulnessEvaluatorConfig["model"];
+	private readonly modelSettings?: ModelSettings;
+
+	constructor(config: ClaimFaithfulnessEvaluatorConfig) {
+		this.name = config.name;
+		this.timeout = config.timeout;
+
+		this.model = config.model;
+		this.modelSettings = config.modelSettings;
+	}
+
+	async evaluate(
+		input: EvaluationInput,
+		options?: EvaluateOptions,
+	): Promise<EvaluatorResult> {
+		const modelId = getModelId(this.model);
+
+		return traceEvaluation(
+			{
+				spanName: "eval-kit.claim_faithfulness_evaluator.evaluate",
+				attributes: {
+					"eval_kit.evaluator.name": this.name,
+					"eval_kit.model.id": modelId ?? "unknown",
+					"eval_kit.input.candidate_text_length": input.candidateText.length,
+				},
+				evaluatorName: this.name,
+				modelId,
+				timeout: this.timeout,
+				signal: options?.signal,
+			},
+			(span, signal) => this.executeVerification(input, modelId, span, signal),
+		);
+	}
+
+	private async executeVerification(
+		input: EvaluationInput,
+		modelId: string | undefined,
+		span: EvalKitSpan,
+		abortSignal: AbortSignal | undefined,
+	): Promise<EvaluatorResult> {
+		const startTime = Date.now();
+		const source = this.buildSource(input);
+		const judge = {
+			model: this.model,
+			modelSettings: this.modelSettings,
+			abortSignal,
+		};
+
+		const extraction = await extractClaims(input.candidateText, judge);
+		const verification = await verifyClaims(extraction.claims, source, judge);
+		const { verifications } = verification;
+		const score = supportedRatio(verifications);
+
+		const tokenUsage = sumTokenUsage([
+			extraction.tokenUsage,
+			verification.tokenUsage,
+		]);
+
+		setTokenUsageAttributes(span, tokenUsage);
+		span.setAttribute("eval_kit.result.score", score);
+		span.setAttribute("eval_kit.claims.total", verifications.length);
+		span.setAttribute(
+			"eval_kit.claims.supported",
+			verifications.filter(
+				(verification) => verification.verdict === "supported",
+			).length,
+		);
+
+		return {
+			evaluatorName: this.name,
+			model: modelId,
+			score,
+			normalizedScore: score,
+			feedback: formatClaimFeedback(
+				verifications,
+				"The text makes no factual claims.",
+			),
+			processingStats: {
+				executionTime: Date.now() - startTime,
+				tokenUsage,
+			},
+			claims: verifications,
+		};
+	}
+
+	private buildSource(input: EvaluationInput): string {
+		const sections: string[] = [];
+		if (input.sourceText) {
+			sections.push(input.sourceText);
+		}
+		if (input.referenceText) {
+			sections.push(input.referenceText);
+		}
+		if (sections.length === 0) {
+			throw new Error(
+				`Claim faithfulness evaluator ${this.name} requires sourceText or referenceText in the input`,
+			);
+		}
+		return sections.join("\n\n");
+	}
+}
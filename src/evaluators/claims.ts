@@ -0,0 +1,210 @@
+import { generateText, Output } from "ai";
+import { z } from "zod";
+import { isTelemetryEnabled } from "../telemetry.js";
+import type {
+	ClaimVerification,
+	EvaluatorConfig,
+	TokenUsage,
+} from "../types/evaluator.js";
+import { extractTokenUsage } from "../utils/token-usage.js";
+import { buildCallSettings, type ModelSettings } from "./shared.js";
+
+/**
+ * Model and settings for the judge calls made by claim-based evaluators
+ */
+export interface ClaimJudge {
+	model: EvaluatorConfig["model"];
+	modelSettings?: ModelSettings;
+	abortSignal: AbortSignal | undefined;
+}
+
+const EXTRACTION_INSTRUCTIONS = `Break the following text into atomic factual claims.
+
+Each claim must be a single, self-contained statement that can be checked on its own: replace pronouns with the names they refer to and split compound sentences. Leave out opinions, questions, greetings and instructions. Do not add anything the text does not say.`;
+
+const VERIFICATION_INSTRUCTIONS = `Check each claim against the source material below.
+
+For each claim, answer:
+- "supported" if the source states or clearly implies it
+- "contradicted" if the source states something incompatible with it
+- "not_found" if the source neither supports nor contradicts it
+
+Use only the source material, not your own knowledge. Return one verdict per claim, in the order given.`;
+
+const CITATION_INSTRUCTIONS =
+	"For each claim, also list the numbers of the passages your verdict rests on.";
+
+const claimsSchema = z.object({
+	claims: z
+		.array(z.string())
+		.describe("Atomic factual claims made by the text, in order"),
+});
+
+const verdictShape = {
+	verdict: z
+		.enum(["supported", "contradicted", "not_found"])
+		.describe("Whether the source supports the claim"),
+	explanation: z
+		.string()
+		.describe(
+			"The passage of the source the verdict rests on, or why none applies",
+		),
+};
+
+function createVerdictsSchema(cite: boolean) {
+	const verdict = cite
+		? z.object({
+				...verdictShape,
+				passages: z
+					.array(z.number().int())
+					.describe("Numbers of the passages the verdict rests on"),
+			})
+		: z.object(verdictShape);
+
+	return z.object({
+		verdicts: z
+			.array(verdict)
+			.describe("One verdict per claim, in the same order as the claims"),
+	});
+}
+
+/**
+ * Ask the judge to break text into atomic factual claims
+ */
+export async function extractClaims(
+	text: string,
+	judge: ClaimJudge,
+): Promise<{ claims: string[]; tokenUsage: TokenUsage | undefined }> {
+	const result = await generateText({
+		model: judge.model,
+		output: Output.object({ schema: claimsSchema }),
+		prompt: `${EXTRACTION_INSTRUCTIONS}\n\nText:\n${text}`,
+		abortSignal: judge.abortSignal,
+		...buildCallSettings(judge.modelSettings),
+		experimental_telemetry: { isEnabled: isTelemetryEnabled() },
+	});
+
+	return {
+		claims: result.output.claims,
+		tokenUsage: extractTokenUsage(result.usage),
+	};
+}
+
+/**
+ * Ask the judge whether the source supports each claim.
+ *
+ * A source string is shown as is. A list of passages (e.g. retrieved
+ * chunks) is numbered and the judge cites the passages behind each verdict,
+ * returned as zero-based positions in ClaimVerification.contexts.
+ */
+export async function verifyClaims(
+	claims: readonly string[],
+	source: string | readonly string[],
+	judge: ClaimJudge,
+): Promise<{
+	verifications: ClaimVerification[];
+	tokenUsage: TokenUsage | undefined;
+}> {
+	if (claims.length === 0) {
+		return { verifications: [], tokenUsage: undefined };
+	}
+
+	const cite = typeof source !== "string";
+	const result = await generateText({
+		model: judge.model,
+		output: Output.object({ schema: createVerdictsSchema(cite) }),
+		prompt: buildVerificationPrompt(claims, source),
+		abortSignal: judge.abortSignal,
+		...buildCallSettings(judge.modelSettings),
+		experimental_telemetry: { isEnabled: isTelemetryEnabled() },
+	});
+
+	const verdicts = result.output.verdicts as {
+		verdict: ClaimVerification["verdict"];
+		explanation: string;
+		passages?: number[];
+	}[];
+	if (verdicts.length !== claims.length) {
+		throw new Error(
+			`Expected ${claims.length} claim verdicts but the judge returned ${verdicts.length}`,
+		);
+	}
+
+	const verifications = claims.map((claim, index) => {
+		const { verdict, explanation, passages } = verdicts[index];
+		return {
+			claim,
+			verdict,
+			explanation,
+			...(cite
+				? {
+						// Passages are numbered from 1 in the prompt
+						contexts: (passages ?? [])
+							.map((passage) => passage - 1)
+							.filter((position) => position >= 0 && position < source.length),
+					}
+				: {}),
+		};
+	});
+
+	return { verifications, tokenUsage: extractTokenUsage(result.usage) };
+}
+
+function buildVerificationPrompt(
+	claims: readonly string[],
+	source: string | readonly string[],
+): string {
+	const cite = typeof source !== "string";
+	const sourceText = cite
+		? source.map((passage, index) => `[${index + 1}] ${passage}`).join("\n\n")
+		: source;
+	const instructions = cite
+		? `${VERIFICATION_INSTRUCTIONS}\n${CITATION_INSTRUCTIONS}`
+		: VERIFICATION_INSTRUCTIONS;
+	const numbered = claims
+		.map((claim, index) => `${index + 1}. ${claim}`)
+		.join("\n");
+
+	return `${instructions}\n\nSource:\n${sourceText}\n\nClaims:\n${numbered}`;
+}
+
+/**
+ * Share of claims the source supports. Text without factual claims cannot
+ * be unsupported, so it scores 1.
+ */
+export function supportedRatio(
+	verifications: readonly ClaimVerification[],
+): number {
+	if (verifications.length === 0) return 1;
+	const supported = verifications.filter(
+		(verification) => verification.verdict === "supported",
+	).length;
+	return supported / verifications.length;
+}
+
+/**
+ * Summary line plus one line per claim that is not supported
+ */
+export function formatClaimFeedback(
+	verifications: readonly ClaimVerification[],
+	emptyMessage: string,
+): string {
+	if (verifications.length === 0) {
+		return emptyMessage;
+	}
+
+	const supported = verifications.filter(
+		(verification) => verification.verdict === "supported",
+	).length;
+	const lines = [
+		`${supported} of ${verifications.length} claims are supported by the source.`,
+	];
+	for (const verification of verifications) {
+		if (verification.verdict !== "supported") {
+			lines.push(
+				`[${verification.verdict}] ${verification.claim}: ${verification.explanation}`,
+			);
+		}
+	}
+	return lines.join("\n");
+}
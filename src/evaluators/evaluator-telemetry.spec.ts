@@ -81,6 +81,31 @@ describe("Evaluator telemetry", () => {
 		expect(span.status.code).toBe(SpanStatusCode.OK);
 	});
 
+	it("should record prompt cache tokens", async () => {
+		mockGenerateText.mockResolvedValue({
+			output: { score: 85, feedback: "Good quality" },
+			usage: {
+				inputTokens: 100,
+				inputTokenDetails: { cacheReadTokens: 80, cacheWriteTokens: 0 },
+				outputTokens: 20,
+				totalTokens: 120,
+			},
+		});
+
+		const evaluator = new Evaluator({
+			name: "fluency",
+			model: createMockModel(),
+			systemPrompt: "You are a strict judge.",
+			evaluationPrompt: "Rate: {{candidateText}}",
+		});
+
+		await evaluator.evaluate({ candidateText: "Hello world" });
+
+		const [span] = exporter.getFinishedSpans();
+		expect(span.attributes["eval_kit.result.token_usage.cache_read"]).toBe(80);
+		expect(span.attributes["eval_kit.result.token_usage.cache_write"]).toBe(0);
+	});
+
 	it("should record error attributes when evaluation fails", async () => {
 		mockGenerateText.mockRejectedValue(new Error("API rate limited"));
 
@@ -1,5 +1,7 @@
 import { beforeEach, describe, expect, it, jest } from "@jest/globals";
 import type { LanguageModel } from "ai";
+import { z } from "zod";
+import { TemplateVariable } from "../types/evaluator.js";
 
 // Mock the ai module before importing Evaluator
 const mockGenerateText = jest.fn();
@@ -12,6 +14,9 @@ jest.unstable_mockModule("ai", () => ({
 
 // Import after mocking
 const { Evaluator } = await import("./evaluator.js");
+const { InMemoryEvaluationCache } = await import(
+	"../cache/evaluation-cache.js"
+);
 
 // Create a mock LanguageModel
 const createMockModel = (): LanguageModel => {
@@ -287,6 +292,1549 @@ Candidate: {{candidateText}}
 		});
 	});
 
+	describe("normalizedScore", () => {
+		it("should scale numeric scores by the score range", async () => {
+			mockGenerateText.mockResolvedValue({
+				output: { score: 4, feedback: "Good" },
+				usage: {},
+			});
+
+			const evaluator = new Evaluator({
+				name: "quality",
+				model: createMockModel(),
+				evaluationPrompt: "Rate: {{candidateText}}",
+				scoreConfig: { type: "numeric", min: 1, max: 5 },
+			});
+
+			const result = await evaluator.evaluate({ candidateText: "Test" });
+
+			expect(result.normalizedScore).toBe(0.75);
+		});
+
+		it("should use explicit category values", async () => {
+			mockGenerateText.mockResolvedValue({
+				output: { score: "fair", feedback: "Ok" },
+				usage: {},
+			});
+
+			const evaluator = new Evaluator({
+				name: "quality",
+				model: createMockModel(),
+				evaluationPrompt: "Rate: {{candidateText}}",
+				scoreConfig: {
+					type: "categorical",
+					categories: ["poor", "fair", "good"],
+					values: { poor: 0, fair: 0.8, good: 1 },
+				},
+			});
+
+			const result = await evaluator.evaluate({ candidateText: "Test" });
+
+			expect(result.normalizedScore).toBe(0.8);
+		});
+
+		it("should reject incomplete category values", () => {
+			expect(
+				() =>
+					new Evaluator({
+						name: "quality",
+						model: createMockModel(),
+						evaluationPrompt: "Rate: {{candidateText}}",
+						scoreConfig: {
+							type: "categorical",
+							categories: ["poor", "good"],
+							values: { poor: 0 },
+						},
+					}),
+			).toThrow("Missing value for category good");
+		});
+
+		it("should not set a normalized score on errors", async () => {
+			mockGenerateText.mockRejectedValue(new Error("API down"));
+
+			const evaluator = new Evaluator({
+				name: "quality",
+				model: createMockModel(),
+				evaluationPrompt: "Rate: {{candidateText}}",
+			});
+
+			const result = await evaluator.evaluate({ candidateText: "Test" });
+
+			expect(result.error).toBeDefined();
+			expect(result.normalizedScore).toBeUndefined();
+		});
+	});
+
+	describe("cancellation", () => {
+		// Never resolves unless the request is aborted, like a hung provider call
+		const hangUntilAborted = ({ abortSignal }: { abortSignal?: AbortSignal }) =>
+			new Promise((_, reject) => {
+				abortSignal?.addEventListener("abort", () =>
+					reject(new Error("Request aborted")),
+				);
+			});
+
+		it("should abort the model request when the timeout elapses", async () => {
+			mockGenerateText.mockImplementation(hangUntilAborted as never);
+
+			const evaluator = new Evaluator({
+				name: "quality",
+				model: createMockModel(),
+				evaluationPrompt: "Rate: {{candidateText}}",
+				timeout: 10,
+			});
+
+			const result = await evaluator.evaluate({ candidateText: "Test" });
+
+			expect(result.error).toBe("Evaluator quality timed out after 10ms");
+			const { abortSignal } = mockGenerateText.mock.calls[0][0] as {
+				abortSignal: AbortSignal;
+			};
+			expect(abortSignal.aborted).toBe(true);
+		});
+
+		it("should abort the model request when the caller aborts", async () => {
+			mockGenerateText.mockImplementation(hangUntilAborted as never);
+			const controller = new AbortController();
+
+			const evaluator = new Evaluator({
+				name: "quality",
+				model: createMockModel(),
+				evaluationPrompt: "Rate: {{candidateText}}",
+			});
+
+			const pending = evaluator.evaluate(
+				{ candidateText: "Test" },
+				{ signal: controller.signal },
+			);
+			controller.abort(new Error("Cancelled by user"));
+			const result = await pending;
+
+			expect(result.error).toBe("Cancelled by user");
+			const { abortSignal } = mockGenerateText.mock.calls[0][0] as {
+				abortSignal: AbortSignal;
+			};
+			expect(abortSignal.aborted).toBe(true);
+		});
+
+		it("should complete normally within the timeout", async () => {
+			mockGenerateText.mockResolvedValue({
+				output: { score: 70, feedback: "Fine" },
+				usage: {},
+			});
+
+			const evaluator = new Evaluator({
+				name: "quality",
+				model: createMockModel(),
+				evaluationPrompt: "Rate: {{candidateText}}",
+				timeout: 1000,
+			});
+
+			const result = await evaluator.evaluate({ candidateText: "Test" });
+
+			expect(result.error).toBeUndefined();
+			expect(result.score).toBe(70);
+		});
+	});
+
+	describe("system prompt and messages", () => {
+		beforeEach(() => {
+			mockGenerateText.mockResolvedValue({
+				output: { score: 80, feedback: "Good" },
+				usage: {},
+			});
+		});
+
+		it("should send the rendered system prompt separately", async () => {
+			const evaluator = new Evaluator({
+				name: "tone",
+				model: createMockModel(),
+				systemPrompt: "You judge {{name}} for {{contentType}} content.",
+				evaluationPrompt: "Rate: {{candidateText}}",
+			});
+
+			await evaluator.evaluate({
+				candidateText: "Hello",
+				contentType: "marketing",
+			});
+
+			const call = mockGenerateText.mock.calls[0][0] as {
+				system: string;
+				prompt: string;
+			};
+			expect(call.system).toBe("You judge tone for marketing content.");
+			expect(call.prompt).toContain("Rate: Hello");
+			expect(call.prompt).not.toContain("You judge");
+		});
+
+		it("should render message templates and append instructions to the last one", async () => {
+			const evaluator = new Evaluator({
+				name: "tone",
+				model: createMockModel(),
+				systemPrompt: "You are a judge.",
+				messages: [
+					{ role: "user", content: "Here is the brief: {{prompt}}" },
+					{ role: "assistant", content: "Understood." },
+					{ role: "user", content: "Rate: {{candidateText}}" },
+				],
+			});
+
+			await evaluator.evaluate({ candidateText: "Hello", prompt: "Be warm" });
+
+			const call = mockGenerateText.mock.calls[0][0] as {
+				system: string;
+				prompt?: string;
+				messages: { role: string; content: string }[];
+			};
+			expect(call.prompt).toBeUndefined();
+			expect(call.system).toBe("You are a judge.");
+			expect(call.messages).toHaveLength(3);
+			expect(call.messages[0]).toEqual({
+				role: "user",
+				content: "Here is the brief: Be warm",
+			});
+			expect(call.messages[2].content).toMatch(
+				/^Rate: Hello\n\nProvide a score from 0 to 100/,
+			);
+		});
+
+		it("should require either evaluationPrompt or messages", () => {
+			expect(
+				() => new Evaluator({ name: "tone", model: createMockModel() }),
+			).toThrow("Either evaluationPrompt or messages is required");
+			expect(
+				() =>
+					new Evaluator({
+						name: "tone",
+						model: createMockModel(),
+						evaluationPrompt: "Rate: {{candidateText}}",
+						messages: [{ role: "user", content: "Rate" }],
+					}),
+			).toThrow("not both");
+		});
+
+		it("should require messages to end with a user message", () => {
+			expect(
+				() =>
+					new Evaluator({
+						name: "tone",
+						model: createMockModel(),
+						messages: [
+							{ role: "user", content: "Rate: {{candidateText}}" },
+							{ role: "assistant", content: "Sure" },
+						],
+					}),
+			).toThrow("must end with a user message");
+		});
+
+		it("should validate system prompt and message templates", () => {
+			expect(
+				() =>
+					new Evaluator({
+						name: "tone",
+						model: createMockModel(),
+						systemPrompt: "{{#if prompt}}Unclosed",
+						evaluationPrompt: "Rate: {{candidateText}}",
+					}),
+			).toThrow("Invalid system prompt template");
+			expect(
+				() =>
+					new Evaluator({
+						name: "tone",
+						model: createMockModel(),
+						messages: [{ role: "user", content: "{{#each items}}" }],
+					}),
+			).toThrow("Invalid message 1 template");
+		});
+	});
+
+	describe("images", () => {
+		beforeEach(() => {
+			mockGenerateText.mockResolvedValue({
+				output: { score: 80, feedback: "Accurate caption" },
+				usage: {},
+			});
+		});
+
+		it("should send images as parts of the user message", async () => {
+			const image = Buffer.from([137, 80, 78, 71]);
+			const evaluator = new Evaluator({
+				name: "caption",
+				model: createMockModel(),
+				systemPrompt: "You review hotel image captions.",
+				evaluationPrompt:
+					"Does this caption match the image? {{candidateText}}",
+			});
+
+			const result = await evaluator.evaluate({
+				candidateText: "A rooftop pool at sunset",
+				images: [image, "https://example.com/pool.jpg"],
+			});
+
+			expect(result.error).toBeUndefined();
+			const call = mockGenerateText.mock.calls[0][0] as {
+				system: string;
+				prompt?: string;
+				messages: { role: string; content: unknown[] }[];
+			};
+			expect(call.prompt).toBeUndefined();
+			expect(call.system).toBe("You review hotel image captions.");
+			expect(call.messages).toHaveLength(1);
+			expect(call.messages[0].role).toBe("user");
+			expect(call.messages[0].content).toEqual([
+				{
+					type: "text",
+					text: expect.stringContaining(
+						"Does this caption match the image? A rooftop pool at sunset",
+					),
+				},
+				{ type: "image", image },
+				{ type: "image", image: new URL("https://example.com/pool.jpg") },
+			]);
+		});
+
+		it("should attach images to the last message", async () => {
+			const evaluator = new Evaluator({
+				name: "caption",
+				model: createMockModel(),
+				messages: [
+					{ role: "user", content: "Style guide: {{sourceText}}" },
+					{ role: "assistant", content: "Understood." },
+					{ role: "user", content: "Rate: {{candidateText}}" },
+				],
+			});
+
+			await evaluator.evaluate({
+				candidateText: "Sea view room",
+				sourceText: "Be concise",
+				images: ["data:image/png;base64,iVBORw0KGgo="],
+			});
+
+			const call = mockGenerateText.mock.calls[0][0] as {
+				messages: { role: string; content: unknown }[];
+			};
+			expect(call.messages[0].content).toBe("Style guide: Be concise");
+			expect(call.messages[2].content).toEqual([
+				{ type: "text", text: expect.stringContaining("Rate: Sea view room") },
+				{ type: "image", image: expect.any(URL) },
+			]);
+		});
+
+		it("should return an error result when an image file is missing", async () => {
+			const evaluator = new Evaluator({
+				name: "caption",
+				model: createMockModel(),
+				evaluationPrompt: "Rate: {{candidateText}}",
+			});
+
+			const result = await evaluator.evaluate({
+				candidateText: "Lobby",
+				images: ["/does/not/exist.png"],
+			});
+
+			expect(result.error).toContain(
+				"Failed to read image /does/not/exist.png",
+			);
+			expect(mockGenerateText).not.toHaveBeenCalled();
+		});
+
+		it("should include image content in the cache key", async () => {
+			const cache = new InMemoryEvaluationCache();
+			const evaluator = new Evaluator({
+				name: "caption",
+				model: createMockModel(),
+				evaluationPrompt: "Rate: {{candidateText}}",
+				cache,
+			});
+
+			await evaluator.evaluate({
+				candidateText: "Lobby",
+				images: [Buffer.from([1])],
+			});
+			await evaluator.evaluate({
+				candidateText: "Lobby",
+				images: [Buffer.from([2])],
+			});
+			await evaluator.evaluate({
+				candidateText: "Lobby",
+				images: [Buffer.from([1])],
+			});
+
+			expect(mockGenerateText).toHaveBeenCalledTimes(2);
+		});
+	});
+
+	describe("rubric", () => {
+		const rubric = {
+			criteria: [
+				{
+					name: "fluency",
+					description: "How natural the text reads.",
+					scoreConfig: { type: "numeric", min: 1, max: 5, float: false },
+					weight: 1,
+				},
+				{
+					name: "accuracy",
+					description: "How factually correct the text is.",
+					scoreConfig: { type: "numeric", min: 0, max: 10 },
+					weight: 3,
+				},
+			],
+		} as const;
+
+		const getCall = () =>
+			mockGenerateText.mock.calls[0][0] as {
+				prompt: string;
+				output: {
+					schema: { safeParse: (value: unknown) => { success: boolean } };
+				};
+			};
+
+		it("should score every criterion in a single call", async () => {
+			mockGenerateText.mockResolvedValue({
+				output: {
+					criteria: {
+						fluency: { score: 4, feedback: "Reads well" },
+						accuracy: { score: 6, feedback: "One error" },
+					},
+					score: 70,
+					feedback: "Solid overall",
+				},
+				usage: undefined,
+			});
+
+			const evaluator = new Evaluator({
+				name: "quality",
+				model: createMockModel(),
+				evaluationPrompt: "Rate: {{candidateText}}",
+				rubric,
+			});
+
+			const result = await evaluator.evaluate({ candidateText: "Test" });
+
+			expect(mockGenerateText).toHaveBeenCalledTimes(1);
+			expect(result.score).toBe(70);
+			expect(result.feedback).toBe("Solid overall");
+			expect(result.criteria).toEqual({
+				fluency: { score: 4, feedback: "Reads well" },
+				accuracy: { score: 6, feedback: "One error" },
+			});
+
+			const { prompt, output } = getCall();
+			expect(prompt).toContain("- fluency: How natural the text reads.");
+			expect(prompt).toContain("- accuracy: How factually correct");
+			expect(prompt).toContain("For the overall score");
+			expect(
+				output.schema.safeParse({
+					criteria: {
+						fluency: { score: 4.5, feedback: "" },
+						accuracy: { score: 6, feedback: "" },
+					},
+					score: 70,
+					feedback: "",
+				}).success,
+			).toBe(false);
+		});
+
+		it("should calculate a weighted overall score", async () => {
+			mockGenerateText.mockResolvedValue({
+				output: {
+					criteria: {
+						fluency: { score: 5, feedback: "Perfect" },
+						accuracy: { score: 5, feedback: "Half right" },
+					},
+					feedback: "Mixed",
+				},
+				usage: undefined,
+			});
+
+			const evaluator = new Evaluator({
+				name: "quality",
+				model: createMockModel(),
+				evaluationPrompt: "Rate: {{candidateText}}",
+				scoreConfig: { type: "numeric", min: 0, max: 100, float: true },
+				rubric: { ...rubric, overallScore: "weighted" },
+			});
+
+			const result = await evaluator.evaluate({ candidateText: "Test" });
+
+			// (1 * 1.0 + 3 * 0.5) / 4 = 0.625
+			expect(result.score).toBeCloseTo(62.5);
+			expect(getCall().prompt).not.toContain("For the overall score");
+		});
+
+		it("should reject duplicate criteria", () => {
+			expect(
+				() =>
+					new Evaluator({
+						name: "quality",
+						model: createMockModel(),
+						evaluationPrompt: "Rate: {{candidateText}}",
+						rubric: { criteria: [rubric.criteria[0], rubric.criteria[0]] },
+					}),
+			).toThrow("Duplicate rubric criterion: fluency");
+		});
+
+		it("should reject weighted scores over categorical criteria", () => {
+			expect(
+				() =>
+					new Evaluator({
+						name: "quality",
+						model: createMockModel(),
+						evaluationPrompt: "Rate: {{candidateText}}",
+						rubric: {
+							overallScore: "weighted",
+							criteria: [
+								{
+									name: "tone",
+									description: "Brand tone",
+									scoreConfig: {
+										type: "categorical",
+										categories: ["off", "on"],
+									},
+								},
+							],
+						},
+					}),
+			).toThrow("tone is categorical");
+		});
+	});
+
+	describe("sampling", () => {
+		const sample = (score: number | string, feedback: string) => ({
+			output: { score, feedback },
+			usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 },
+		});
+
+		it("should call the model once per sample and average the scores", async () => {
+			mockGenerateText
+				.mockResolvedValueOnce(sample(70, "Okay"))
+				.mockResolvedValueOnce(sample(80, "Good"))
+				.mockResolvedValueOnce(sample(96, "Great"));
+
+			const evaluator = new Evaluator({
+				name: "quality",
+				model: createMockModel(),
+				evaluationPrompt: "Rate: {{candidateText}}",
+				samples: 3,
+			});
+
+			const result = await evaluator.evaluate({ candidateText: "Test" });
+
+			expect(mockGenerateText).toHaveBeenCalledTimes(3);
+			expect(result.score).toBeCloseTo(82);
+			expect(result.feedback).toBe("Good");
+			expect(result.sampling).toEqual({
+				aggregation: "mean",
+				samples: [
+					{ score: 70, feedback: "Okay" },
+					{ score: 80, feedback: "Good" },
+					{ score: 96, feedback: "Great" },
+				],
+				standardDeviation: expect.any(Number),
+				min: 70,
+				max: 96,
+				agreementRatio: 1 / 3,
+			});
+			expect(result.processingStats.tokenUsage).toMatchObject({
+				inputTokens: 30,
+				outputTokens: 15,
+				totalTokens: 45,
+			});
+		});
+
+		it("should take the median of sampled scores", async () => {
+			mockGenerateText
+				.mockResolvedValueOnce(sample(10, "Bad"))
+				.mockResolvedValueOnce(sample(80, "Good"))
+				.mockResolvedValueOnce(sample(90, "Great"));
+
+			const evaluator = new Evaluator({
+				name: "quality",
+				model: createMockModel(),
+				evaluationPrompt: "Rate: {{candidateText}}",
+				samples: 3,
+				sampleAggregation: "median",
+			});
+
+			const result = await evaluator.evaluate({ candidateText: "Test" });
+
+			expect(result.score).toBe(80);
+		});
+
+		it("should default to the mode for categorical scores", async () => {
+			mockGenerateText
+				.mockResolvedValueOnce(sample("good", "A"))
+				.mockResolvedValueOnce(sample("poor", "B"))
+				.mockResolvedValueOnce(sample("good", "C"));
+
+			const evaluator = new Evaluator({
+				name: "quality",
+				model: createMockModel(),
+				evaluationPrompt: "Rate: {{candidateText}}",
+				scoreConfig: { type: "categorical", categories: ["poor", "good"] },
+				samples: 3,
+			});
+
+			const result = await evaluator.evaluate({ candidateText: "Test" });
+
+			expect(result.score).toBe("good");
+			expect(result.feedback).toBe("A");
+			expect(result.sampling?.aggregation).toBe("mode");
+			expect(result.sampling?.agreementRatio).toBeCloseTo(2 / 3);
+			expect(result.sampling?.standardDeviation).toBeUndefined();
+		});
+
+		it("should not add sampling details for a single sample", async () => {
+			mockGenerateText.mockResolvedValue(sample(90, "Great"));
+
+			const evaluator = new Evaluator({
+				name: "quality",
+				model: createMockModel(),
+				evaluationPrompt: "Rate: {{candidateText}}",
+			});
+
+			const result = await evaluator.evaluate({ candidateText: "Test" });
+
+			expect(mockGenerateText).toHaveBeenCalledTimes(1);
+			expect(result.sampling).toBeUndefined();
+		});
+
+		it("should reject an invalid sample count", () => {
+			expect(
+				() =>
+					new Evaluator({
+						name: "quality",
+						model: createMockModel(),
+						evaluationPrompt: "Rate: {{candidateText}}",
+						samples: 0,
+					}),
+			).toThrow("samples must be a positive integer");
+		});
+
+		it("should reject mean aggregation over categorical scores", () => {
+			expect(
+				() =>
+					new Evaluator({
+						name: "quality",
+						model: createMockModel(),
+						evaluationPrompt: "Rate: {{candidateText}}",
+						scoreConfig: { type: "categorical", categories: ["poor", "good"] },
+						samples: 3,
+						sampleAggregation: "mean",
+					}),
+			).toThrow('use "mode"');
+		});
+	});
+
+	describe("chain-of-thought", () => {
+		const getCall = () =>
+			mockGenerateText.mock.calls[0][0] as {
+				prompt: string;
+				output: { schema: { shape: Record<string, unknown> } };
+			};
+
+		it("should ask for reasoning before the score", async () => {
+			mockGenerateText.mockResolvedValue({
+				output: {
+					reasoning: "The text has no errors, so...",
+					score: 90,
+					feedback: "Fluent",
+				},
+				usage: undefined,
+			});
+
+			const evaluator = new Evaluator({
+				name: "fluency",
+				model: createMockModel(),
+				evaluationPrompt: "Rate: {{candidateText}}",
+				chainOfThought: true,
+			});
+
+			const result = await evaluator.evaluate({ candidateText: "Test" });
+
+			expect(result.score).toBe(90);
+			expect(result.feedback).toBe("Fluent");
+			expect(result.reasoning).toBe("The text has no errors, so...");
+
+			const { prompt, output } = getCall();
+			expect(Object.keys(output.schema.shape)).toEqual([
+				"reasoning",
+				"score",
+				"feedback",
+			]);
+			expect(prompt).toContain("think through your evaluation step by step");
+		});
+
+		it("should put reasoning before rubric criteria", async () => {
+			mockGenerateText.mockResolvedValue({
+				output: {
+					reasoning: "Thinking",
+					criteria: { tone: { score: 3, feedback: "Ok" } },
+					score: 3,
+					feedback: "Ok",
+				},
+				usage: undefined,
+			});
+
+			const evaluator = new Evaluator({
+				name: "quality",
+				model: createMockModel(),
+				evaluationPrompt: "Rate: {{candidateText}}",
+				chainOfThought: true,
+				rubric: {
+					criteria: [
+						{
+							name: "tone",
+							description: "Brand tone",
+							scoreConfig: { type: "numeric", min: 1, max: 5 },
+						},
+					],
+				},
+			});
+
+			await evaluator.evaluate({ candidateText: "Test" });
+
+			expect(Object.keys(getCall().output.schema.shape)).toEqual([
+				"reasoning",
+				"criteria",
+				"score",
+				"feedback",
+			]);
+		});
+
+		it("should not request reasoning by default", async () => {
+			mockGenerateText.mockResolvedValue({
+				output: { score: 90, feedback: "Fluent" },
+				usage: undefined,
+			});
+
+			const evaluator = new Evaluator({
+				name: "fluency",
+				model: createMockModel(),
+				evaluationPrompt: "Rate: {{candidateText}}",
+			});
+
+			const result = await evaluator.evaluate({ candidateText: "Test" });
+
+			expect(result.reasoning).toBeUndefined();
+			expect(Object.keys(getCall().output.schema.shape)).toEqual([
+				"score",
+				"feedback",
+			]);
+		});
+	});
+
+	describe("examples", () => {
+		const examples = [
+			{
+				input: { candidateText: "Teh hotel is grate", prompt: "Describe it" },
+				score: 2,
+				rationale: "Several spelling mistakes.",
+			},
+			{
+				input: { candidateText: "The hotel is great." },
+				score: 9,
+				rationale: "Fluent and correct.",
+			},
+		];
+
+		it("should render examples between the prompt and score instructions", async () => {
+			mockGenerateText.mockResolvedValue({
+				output: { score: 7, feedback: "Good" },
+				usage: undefined,
+			});
+
+			const evaluator = new Evaluator({
+				name: "fluency",
+				model: createMockModel(),
+				evaluationPrompt: "Rate: {{candidateText}}",
+				scoreConfig: { type: "numeric", min: 0, max: 10, float: false },
+				examples,
+			});
+
+			await evaluator.evaluate({ candidateText: "Test" });
+
+			const { prompt } = mockGenerateText.mock.calls[0][0] as {
+				prompt: string;
+			};
+			expect(prompt).toBe(`Rate: Test
+
+Use the following scored examples to calibrate your judgement:
+
+Example 1:
+Prompt: Describe it
+Text: Teh hotel is grate
+Score: 2
+Rationale: Several spelling mistakes.
+
+Example 2:
+Text: The hotel is great.
+Score: 9
+Rationale: Fluent and correct.
+
+Provide a score from 0 to 10 (integer) where 0 is worst and 10 is best.`);
+		});
+
+		it("should reject example scores outside the numeric range", () => {
+			expect(
+				() =>
+					new Evaluator({
+						name: "fluency",
+						model: createMockModel(),
+						evaluationPrompt: "Rate: {{candidateText}}",
+						scoreConfig: { type: "numeric", min: 1, max: 5 },
+						examples,
+					}),
+			).toThrow("Example 2 score 9 is outside the range 1 to 5");
+		});
+
+		it("should reject non-integer example scores for integer configs", () => {
+			expect(
+				() =>
+					new Evaluator({
+						name: "fluency",
+						model: createMockModel(),
+						evaluationPrompt: "Rate: {{candidateText}}",
+						examples: [{ ...examples[0], score: 2.5 }],
+					}),
+			).toThrow("Example 1 score 2.5 must be an integer");
+		});
+
+		it("should reject example scores that are not a configured category", () => {
+			expect(
+				() =>
+					new Evaluator({
+						name: "quality",
+						model: createMockModel(),
+						evaluationPrompt: "Rate: {{candidateText}}",
+						scoreConfig: { type: "categorical", categories: ["poor", "good"] },
+						examples: [{ ...examples[0], score: "great" }],
+					}),
+			).toThrow('Example 1 score "great" is not one of: poor, good');
+		});
+	});
+
+	describe("cache", () => {
+		beforeEach(() => {
+			mockGenerateText.mockResolvedValue({
+				output: { score: 80, feedback: "Good" },
+				usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 },
+			});
+		});
+
+		it("should reuse cached responses for identical evaluations", async () => {
+			const cache = new InMemoryEvaluationCache();
+			const evaluator = new Evaluator({
+				name: "quality",
+				model: createMockModel(),
+				evaluationPrompt: "Rate: {{candidateText}}",
+				cache,
+			});
+
+			const first = await evaluator.evaluate({ candidateText: "Test" });
+			const second = await evaluator.evaluate({ candidateText: "Test" });
+
+			expect(mockGenerateText).toHaveBeenCalledTimes(1);
+			expect(first.processingStats).toMatchObject({
+				cacheHits: 0,
+				cacheMisses: 1,
+				tokenUsage: { totalTokens: 15 },
+			});
+			expect(second.score).toBe(80);
+			expect(second.feedback).toBe("Good");
+			expect(second.processingStats).toMatchObject({
+				cacheHits: 1,
+				cacheMisses: 0,
+			});
+			expect(second.processingStats.tokenUsage).toBeUndefined();
+		});
+
+		it("should miss when the rendered prompt differs", async () => {
+			const cache = new InMemoryEvaluationCache();
+			const evaluator = new Evaluator({
+				name: "quality",
+				model: createMockModel(),
+				evaluationPrompt: "Rate: {{candidateText}}",
+				cache,
+			});
+
+			await evaluator.evaluate({ candidateText: "One" });
+			await evaluator.evaluate({ candidateText: "Two" });
+
+			expect(mockGenerateText).toHaveBeenCalledTimes(2);
+			expect(cache.size).toBe(2);
+		});
+
+		it("should miss when model settings differ", async () => {
+			const cache = new InMemoryEvaluationCache();
+			const create = (temperature: number) =>
+				new Evaluator({
+					name: "quality",
+					model: createMockModel(),
+					evaluationPrompt: "Rate: {{candidateText}}",
+					modelSettings: { temperature },
+					cache,
+				});
+
+			await create(0).evaluate({ candidateText: "Test" });
+			await create(0.7).evaluate({ candidateText: "Test" });
+
+			expect(mockGenerateText).toHaveBeenCalledTimes(2);
+		});
+
+		it("should cache each sample separately", async () => {
+			const cache = new InMemoryEvaluationCache();
+			const evaluator = new Evaluator({
+				name: "quality",
+				model: createMockModel(),
+				evaluationPrompt: "Rate: {{candidateText}}",
+				samples: 3,
+				cache,
+			});
+
+			await evaluator.evaluate({ candidateText: "Test" });
+			const result = await evaluator.evaluate({ candidateText: "Test" });
+
+			expect(mockGenerateText).toHaveBeenCalledTimes(3);
+			expect(cache.size).toBe(3);
+			expect(result.processingStats.cacheHits).toBe(3);
+		});
+
+		it("should not report cache stats without a cache", async () => {
+			const evaluator = new Evaluator({
+				name: "quality",
+				model: createMockModel(),
+				evaluationPrompt: "Rate: {{candidateText}}",
+			});
+
+			const result = await evaluator.evaluate({ candidateText: "Test" });
+
+			expect(result.processingStats.cacheHits).toBeUndefined();
+			expect(result.processingStats.cacheMisses).toBeUndefined();
+		});
+	});
+
+	describe("details", () => {
+		const detailsSchema = z.object({
+			issues: z.array(z.string()).describe("Problems found in the text"),
+			severity: z.enum(["low", "high"]),
+		});
+
+		it("should ask for details before the score", async () => {
+			mockGenerateText.mockResolvedValue({
+				output: {
+					details: { issues: ["typo"], severity: "low" },
+					score: 70,
+					feedback: "Minor issues",
+				},
+				usage: undefined,
+			});
+
+			const evaluator = new Evaluator({
+				name: "quality",
+				model: createMockModel(),
+				evaluationPrompt: "Rate: {{candidateText}}",
+				detailsSchema,
+			});
+
+			const result = await evaluator.evaluate({ candidateText: "Test" });
+
+			expect(result.details).toEqual({ issues: ["typo"], severity: "low" });
+			expect(result.details?.severity).toBe("low");
+
+			const { output } = mockGenerateText.mock.calls[0][0] as {
+				output: { schema: { shape: Record<string, unknown> } };
+			};
+			expect(Object.keys(output.schema.shape)).toEqual([
+				"details",
+				"score",
+				"feedback",
+			]);
+		});
+
+		it("should return details from the representative sample", async () => {
+			mockGenerateText
+				.mockResolvedValueOnce({
+					output: {
+						details: { issues: [], severity: "low" },
+						score: 80,
+						feedback: "a",
+					},
+					usage: undefined,
+				})
+				.mockResolvedValueOnce({
+					output: {
+						details: { issues: ["x"], severity: "high" },
+						score: 20,
+						feedback: "b",
+					},
+					usage: undefined,
+				})
+				.mockResolvedValueOnce({
+					output: {
+						details: { issues: [], severity: "low" },
+						score: 80,
+						feedback: "c",
+					},
+					usage: undefined,
+				});
+
+			const evaluator = new Evaluator({
+				name: "quality",
+				model: createMockModel(),
+				evaluationPrompt: "Rate: {{candidateText}}",
+				detailsSchema,
+				samples: 3,
+				sampleAggregation: "median",
+			});
+
+			const result = await evaluator.evaluate({ candidateText: "Test" });
+
+			expect(result.details).toEqual({ issues: [], severity: "low" });
+		});
+
+		it("should omit details when no schema is configured", async () => {
+			mockGenerateText.mockResolvedValue({
+				output: { score: 70, feedback: "Ok" },
+				usage: undefined,
+			});
+
+			const evaluator = new Evaluator({
+				name: "quality",
+				model: createMockModel(),
+				evaluationPrompt: "Rate: {{candidateText}}",
+			});
+
+			const result = await evaluator.evaluate({ candidateText: "Test" });
+
+			expect(result.details).toBeUndefined();
+		});
+
+		it("should miss the cache when the details schema changes", async () => {
+			mockGenerateText.mockResolvedValue({
+				output: { details: {}, score: 70, feedback: "Ok" },
+				usage: undefined,
+			});
+			const cache = new InMemoryEvaluationCache();
+			const create = (schema: z.ZodType<Record<string, unknown>>) =>
+				new Evaluator({
+					name: "quality",
+					model: createMockModel(),
+					evaluationPrompt: "Rate: {{candidateText}}",
+					detailsSchema: schema,
+					cache,
+				});
+
+			await create(detailsSchema).evaluate({ candidateText: "Test" });
+			await create(detailsSchema).evaluate({ candidateText: "Test" });
+			await create(detailsSchema.extend({ suggestion: z.string() })).evaluate({
+				candidateText: "Test",
+			});
+
+			expect(mockGenerateText).toHaveBeenCalledTimes(2);
+			expect(cache.size).toBe(2);
+		});
+	});
+
+	describe("logprob scoring", () => {
+		const providerMetadata = {
+			openai: {
+				logprobs: [
+					{ token: '{"score":', logprob: 0, top_logprobs: [] },
+					{
+						token: "4",
+						logprob: Math.log(0.5),
+						top_logprobs: [
+							{ token: "4", logprob: Math.log(0.5) },
+							{ token: "5", logprob: Math.log(0.5) },
+						],
+					},
+					{ token: ',"feedback":"Good"}', logprob: 0, top_logprobs: [] },
+				],
+			},
+		};
+
+		const createLogprobEvaluator = (
+			options?: Partial<ConstructorParameters<typeof Evaluator>[0]>,
+		) =>
+			new Evaluator({
+				name: "quality",
+				model: createMockModel(),
+				evaluationPrompt: "Rate: {{candidateText}}",
+				scoreConfig: { type: "numeric", min: 1, max: 5, float: false },
+				logprobScoring: true,
+				...options,
+			});
+
+		it("should require an integer numeric score", () => {
+			expect(() =>
+				createLogprobEvaluator({
+					scoreConfig: { type: "numeric", min: 0, max: 1 },
+				}),
+			).toThrow("integer numeric scoreConfig");
+			expect(() =>
+				createLogprobEvaluator({
+					scoreConfig: { type: "categorical", categories: ["bad", "good"] },
+				}),
+			).toThrow("integer numeric scoreConfig");
+		});
+
+		it("should request logprobs from the provider", async () => {
+			mockGenerateText.mockResolvedValue({
+				output: { score: 4, feedback: "Good" },
+				usage: {},
+			});
+
+			await createLogprobEvaluator().evaluate({ candidateText: "Test" });
+
+			expect(mockGenerateText).toHaveBeenCalledWith(
+				expect.objectContaining({
+					providerOptions: { openai: { logprobs: 20 } },
+				}),
+			);
+		});
+
+		it("should score with the probability-weighted mean", async () => {
+			mockGenerateText.mockResolvedValue({
+				output: { score: 4, feedback: "Good" },
+				usage: {},
+				providerMetadata,
+			});
+
+			const result = await createLogprobEvaluator().evaluate({
+				candidateText: "Test",
+			});
+
+			expect(result.score).toBeCloseTo(4.5);
+			expect(result.scoreDistribution).toMatchObject({
+				structuredScore: 4,
+				probabilities: [
+					{ score: 4, probability: expect.closeTo(0.5) },
+					{ score: 5, probability: expect.closeTo(0.5) },
+				],
+			});
+		});
+
+		it("should fall back to the structured score without logprobs", async () => {
+			mockGenerateText.mockResolvedValue({
+				output: { score: 4, feedback: "Good" },
+				usage: {},
+			});
+
+			const result = await createLogprobEvaluator().evaluate({
+				candidateText: "Test",
+			});
+
+			expect(result.score).toBe(4);
+			expect(result.scoreDistribution).toBeUndefined();
+		});
+
+		it("should aggregate expected scores across samples", async () => {
+			mockGenerateText.mockResolvedValue({
+				output: { score: 4, feedback: "Good" },
+				usage: {},
+				providerMetadata,
+			});
+
+			const result = await createLogprobEvaluator({ samples: 2 }).evaluate({
+				candidateText: "Test",
+			});
+
+			expect(result.score).toBeCloseTo(4.5);
+			expect(result.sampling?.samples[0].scoreDistribution).toBeDefined();
+		});
+
+		it("should not request logprobs by default", async () => {
+			mockGenerateText.mockResolvedValue({
+				output: { score: 4, feedback: "Good" },
+				usage: {},
+			});
+
+			await createLogprobEvaluator({ logprobScoring: false }).evaluate({
+				candidateText: "Test",
+			});
+
+			expect(mockGenerateText.mock.calls[0][0]).not.toHaveProperty(
+				"providerOptions",
+			);
+		});
+	});
+
+	describe("conversation", () => {
+		const conversation = [
+			{ role: "user" as const, content: "Where is my booking?" },
+			{ role: "assistant" as const, content: "Let me check." },
+			{ role: "user" as const, content: "Thanks" },
+			{ role: "assistant" as const, content: "It is confirmed." },
+		];
+		const getPrompt = (callIndex: number) =>
+			(mockGenerateText.mock.calls[callIndex][0] as { prompt: string }).prompt;
+
+		it("should judge the final assistant turn by default", async () => {
+			mockGenerateText.mockResolvedValue({
+				output: { score: 80, feedback: "Helpful" },
+				usage: undefined,
+			});
+
+			const evaluator = new Evaluator({
+				name: "helpfulness",
+				model: createMockModel(),
+				evaluationPrompt:
+					"History:\n{{conversation}}\n\nReply: {{candidateText}}",
+			});
+
+			const result = await evaluator.evaluate({
+				candidateText: "",
+				conversation,
+			});
+
+			expect(mockGenerateText).toHaveBeenCalledTimes(1);
+			expect(result.score).toBe(80);
+			expect(result.turns).toBeUndefined();
+			const prompt = getPrompt(0);
+			expect(prompt).toContain(
+				"User: Where is my booking?\n\nAssistant: Let me check.\n\nUser: Thanks",
+			);
+			expect(prompt).toContain("Reply: It is confirmed.");
+		});
+
+		it("should judge every assistant turn and aggregate the scores", async () => {
+			mockGenerateText
+				.mockResolvedValueOnce({
+					output: { score: 60, feedback: "Vague" },
+					usage: { totalTokens: 10 },
+				})
+				.mockResolvedValueOnce({
+					output: { score: 100, feedback: "Clear" },
+					usage: { totalTokens: 20 },
+				});
+
+			const evaluator = new Evaluator({
+				name: "helpfulness",
+				model: createMockModel(),
+				evaluationPrompt: "{{conversation}}\n\nReply: {{candidateText}}",
+				conversationMode: "every_assistant_turn",
+			});
+
+			const result = await evaluator.evaluate({
+				candidateText: "",
+				conversation,
+			});
+
+			expect(mockGenerateText).toHaveBeenCalledTimes(2);
+			expect(getPrompt(0)).toContain("Reply: Let me check.");
+			expect(getPrompt(0)).not.toContain("Thanks");
+			expect(getPrompt(1)).toContain("Reply: It is confirmed.");
+			expect(result.score).toBe(80);
+			expect(result.normalizedScore).toBe(0.8);
+			expect(result.turns).toEqual([
+				{ turnIndex: 1, score: 60, normalizedScore: 0.6, feedback: "Vague" },
+				{ turnIndex: 3, score: 100, normalizedScore: 1, feedback: "Clear" },
+			]);
+			expect(result.feedback).toBe("[turn 1] Vague\n[turn 3] Clear");
+			expect(result.processingStats.tokenUsage?.totalTokens).toBe(30);
+		});
+
+		it("should keep criteria and details on each turn", async () => {
+			const turnOutput = (score: number, issues: string[]) => ({
+				output: {
+					details: { issues },
+					criteria: { tone: { score: score / 20, feedback: "Tone" } },
+					score,
+					feedback: "Ok",
+				},
+				usage: undefined,
+			});
+			mockGenerateText
+				.mockResolvedValueOnce(turnOutput(60, ["vague"]))
+				.mockResolvedValueOnce(turnOutput(100, []));
+
+			const evaluator = new Evaluator({
+				name: "helpfulness",
+				model: createMockModel(),
+				evaluationPrompt: "{{conversation}}\n\nReply: {{candidateText}}",
+				conversationMode: "every_assistant_turn",
+				rubric: {
+					criteria: [
+						{
+							name: "tone",
+							description: "How friendly the reply is.",
+							scoreConfig: { type: "numeric", min: 1, max: 5 },
+						},
+					],
+				},
+				detailsSchema: z.object({ issues: z.array(z.string()) }),
+			});
+
+			const result = await evaluator.evaluate({
+				candidateText: "",
+				conversation,
+			});
+
+			expect(result.turns).toMatchObject([
+				{
+					turnIndex: 1,
+					criteria: { tone: { score: 3, feedback: "Tone" } },
+					details: { issues: ["vague"] },
+				},
+				{
+					turnIndex: 3,
+					criteria: { tone: { score: 5, feedback: "Tone" } },
+					details: { issues: [] },
+				},
+			]);
+		});
+
+		it("should fail when the conversation has no assistant turn", async () => {
+			const evaluator = new Evaluator({
+				name: "helpfulness",
+				model: createMockModel(),
+				evaluationPrompt: "{{conversation}}",
+			});
+
+			const result = await evaluator.evaluate({
+				candidateText: "",
+				conversation: [{ role: "user", content: "Hello?" }],
+			});
+
+			expect(result.error).toBe(
+				"Evaluator helpfulness requires an assistant turn in the conversation",
+			);
+		});
+	});
+
+	describe("contexts", () => {
+		it("should render retrieved contexts with each", async () => {
+			mockGenerateText.mockResolvedValue({
+				output: { score: 80, feedback: "Grounded" },
+				usage: undefined,
+			});
+
+			const evaluator = new Evaluator({
+				name: "groundedness",
+				model: createMockModel(),
+				evaluationPrompt:
+					"{{#each contexts}}[{{@index}}] {{this}}\n{{/each}}Answer: {{candidateText}}",
+			});
+
+			await evaluator.evaluate({
+				candidateText: "Yes",
+				contexts: ["Chunk A", "Chunk B"],
+			});
+
+			const { prompt } = mockGenerateText.mock.calls[0][0] as {
+				prompt: string;
+			};
+			expect(prompt).toContain("[0] Chunk A\n[1] Chunk B\nAnswer: Yes");
+		});
+	});
+
+	describe("required variables", () => {
+		const createEvaluator = () =>
+			new Evaluator({
+				name: "faithfulness",
+				model: createMockModel(),
+				evaluationPrompt: "Source: {{sourceText}}\nText: {{candidateText}}",
+				requiredVariables: [TemplateVariable.SOURCE_TEXT],
+			});
+
+		it("should fail without calling the model when a variable is missing", async () => {
+			const result = await createEvaluator().evaluate({
+				candidateText: "Test",
+				sourceText: "  ",
+			});
+
+			expect(result.error).toBe(
+				"Evaluator faithfulness requires sourceText in the input",
+			);
+			expect(mockGenerateText).not.toHaveBeenCalled();
+		});
+
+		it("should evaluate when required variables are present", async () => {
+			mockGenerateText.mockResolvedValue({
+				output: { score: 90, feedback: "Faithful" },
+				usage: undefined,
+			});
+
+			const result = await createEvaluator().evaluate({
+				candidateText: "Test",
+				sourceText: "Source",
+			});
+
+			expect(result.error).toBeUndefined();
+			expect(result.score).toBe(90);
+		});
+	});
+
+	describe("strict variables", () => {
+		const createEvaluator = () =>
+			new Evaluator({
+				name: "accuracy",
+				model: createMockModel(),
+				systemPrompt: "You check {{contentType}} content.",
+				evaluationPrompt:
+					"Reference: {{referenceText}}\nText: {{candidateText}}{{#if sourceText}}\nSource: {{sourceText}}{{/if}}",
+				strictVariables: true,
+			});
+
+		it("should fail without calling the model when a template variable is blank", async () => {
+			const result = await createEvaluator().evaluate({
+				candidateText: "Test",
+				contentType: "hotel",
+			});
+
+			expect(result.error).toBe(
+				"Evaluator accuracy requires referenceText in the input",
+			);
+			expect(mockGenerateText).not.toHaveBeenCalled();
+		});
+
+		it("should report every missing variable, ignoring conditional ones", () => {
+			expect(
+				createEvaluator().missingVariables({ candidateText: "Test" }),
+			).toEqual(["referenceText", "contentType"]);
+			expect(
+				createEvaluator().missingVariables({
+					candidateText: "Test",
+					contentType: "hotel",
+					referenceText: "Reference",
+				}),
+			).toEqual([]);
+		});
+
+		it("should only check requiredVariables when not strict", () => {
+			const evaluator = new Evaluator({
+				name: "accuracy",
+				model: createMockModel(),
+				evaluationPrompt:
+					"Reference: {{referenceText}}\nText: {{candidateText}}",
+			});
+
+			expect(evaluator.missingVariables({ candidateText: "Test" })).toEqual([]);
+		});
+
+		it("should warn about variables no input provides", () => {
+			const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+			try {
+				new Evaluator({
+					name: "brand",
+					model: createMockModel(),
+					evaluationPrompt:
+						"{{candidateText}}{{#if guidelines}}{{guidelines.tone}}{{/if}}{{#each contexts}}{{this.text}}{{/each}}",
+				});
+
+				expect(warn).toHaveBeenCalledTimes(1);
+				expect(warn).toHaveBeenCalledWith(
+					"Evaluator brand templates use unknown variables, which render empty: guidelines",
+				);
+			} finally {
+				warn.mockRestore();
+			}
+		});
+	});
+
+	describe("custom variables", () => {
+		const createEvaluator = (strictVariables?: boolean) =>
+			new Evaluator({
+				name: "relevance",
+				model: createMockModel(),
+				evaluationPrompt:
+					"Destination: {{destination}}\nTone: {{brand.tone}}\nText: {{candidateText}}",
+				customVariables: ["destination", "brand"],
+				strictVariables,
+			});
+
+		it("should render declared fields of input.variables", async () => {
+			mockGenerateText.mockResolvedValue({
+				output: { score: 80, feedback: "Relevant" },
+				usage: undefined,
+			});
+
+			await createEvaluator().evaluate({
+				candidateText: "Sunny beaches",
+				variables: {
+					destination: "Crete",
+					brand: { tone: "warm" },
+					secret: "ignored",
+				},
+			});
+
+			const { prompt } = mockGenerateText.mock.calls[0][0] as {
+				prompt: string;
+			};
+			expect(prompt).toContain(
+				"Destination: Crete\nTone: warm\nText: Sunny beaches",
+			);
+		});
+
+		it("should render undeclared fields as empty", async () => {
+			const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+			mockGenerateText.mockResolvedValue({
+				output: { score: 80, feedback: "Relevant" },
+				usage: undefined,
+			});
+
+			try {
+				await new Evaluator({
+					name: "relevance",
+					model: createMockModel(),
+					evaluationPrompt: "[{{destination}}] {{candidateText}}",
+				}).evaluate({
+					candidateText: "Text",
+					variables: { destination: "Crete" },
+				});
+
+				const { prompt } = mockGenerateText.mock.calls[0][0] as {
+					prompt: string;
+				};
+				expect(prompt).toContain("[] Text");
+				expect(warn).toHaveBeenCalled();
+			} finally {
+				warn.mockRestore();
+			}
+		});
+
+		it("should require custom variables in strict mode", async () => {
+			const result = await createEvaluator(true).evaluate({
+				candidateText: "Text",
+				variables: { brand: { tone: "warm" } },
+			});
+
+			expect(result.error).toBe(
+				"Evaluator relevance requires destination in the input",
+			);
+		});
+
+		it("should reject custom variables that clash with built-in ones", () => {
+			expect(
+				() =>
+					new Evaluator({
+						name: "relevance",
+						model: createMockModel(),
+						evaluationPrompt: "{{candidateText}}",
+						customVariables: ["referenceText"],
+					}),
+			).toThrow(
+				"Custom variable referenceText clashes with a built-in template variable",
+			);
+		});
+
+		it("should reject names templates cannot reference", () => {
+			expect(
+				() =>
+					new Evaluator({
+						name: "relevance",
+						model: createMockModel(),
+						evaluationPrompt: "{{candidateText}}",
+						customVariables: ["brand-guidelines"],
+					}),
+			).toThrow(
+				"Custom variable brand-guidelines must contain only letters, digits and underscores",
+			);
+		});
+	});
+
 	describe("create", () => {
 		it("should create evaluator with defaults", () => {
 			const model = createMockModel();
@@ -1,312 +1,1132 @@
-import { generateText, Output } from "ai";
+import { generateText, type ModelMessage, Output } from "ai";
 import { z } from "zod";
 import {
-	type EvalKitSpan,
-	getTracer,
-	isTelemetryEnabled,
-	SpanStatusCode,
-} from "../telemetry.js";
+	createEvaluationCacheKey,
+	type EvaluationCache,
+} from "../cache/evaluation-cache.js";
+import { type EvalKitSpan, isTelemetryEnabled } from "../telemetry.js";
 import type {
+	ConversationMode,
+	ConversationTurn,
+	CriterionResult,
+	EvaluateOptions,
 	EvaluationInput,
 	EvaluatorConfig,
+	EvaluatorDetails,
+	EvaluatorExample,
+	EvaluatorMessage,
 	EvaluatorResult,
+	ProcessingStats,
+	RubricConfig,
+	SampleAggregation,
+	SamplingSummary,
+	ScoreConfig,
+	ScoreDistribution,
 	TokenUsage,
+	TurnResult,
 } from "../types/evaluator.js";
+import { TemplateVariable } from "../types/evaluator.js";
+import {
+	findAssistantTurns,
+	formatConversation,
+} from "../utils/conversation.js";
+import {
+	fingerprintImage,
+	type ResolvedImage,
+	resolveImage,
+} from "../utils/images.js";
+import {
+	calculateScoreDistribution,
+	extractTokenLogprobs,
+} from "../utils/logprobs.js";
+import {
+	normalizeScore,
+	validateScoreConfig,
+} from "../utils/score-normalization.js";
+import {
+	agreementRatio,
+	mean,
+	median,
+	mode,
+	standardDeviation,
+} from "../utils/statistics.js";
 import { TemplateRenderer } from "../utils/template-engine.js";
+import {
+	extractTokenUsage,
+	setTokenUsageAttributes,
+	sumTokenUsage,
+} from "../utils/token-usage.js";
+import { formatTrajectory } from "../utils/trajectory.js";
+import {
+	buildCallSettings,
+	customVariableValues,
+	getModelId,
+	traceEvaluation,
+	validateCustomVariables,
+} from "./shared.js";
+
+// OpenAI returns at most 20 alternatives per token
+const TOP_LOGPROBS = 20;
+
+const REASONING_INSTRUCTIONS =
+	"Before scoring, think through your evaluation step by step in the reasoning field. Keep the feedback field a concise summary of your assessment.";
+
+interface JudgeOutput {
+	reasoning?: string;
+	score?: number | string;
+	details?: EvaluatorDetails;
+	feedback: string;
+	criteria?: Record<string, CriterionResult>;
+}
+
+function buildScoreSchema(scoreConfig: ScoreConfig): z.ZodTypeAny {
+	if (scoreConfig.type === "numeric") {
+		const { min, max, float } = scoreConfig;
+		let scoreSchema: z.ZodNumber = z.number().min(min).max(max);
+
+		if (float === false) {
+			scoreSchema = scoreSchema.int();
+		}
+
+		return scoreSchema.describe(
+			`Score from ${min} to ${max}${float === false ? " (integer)" : ""}`,
+		);
+	}
+
+	return z
+		.enum(scoreConfig.categories as [string, ...string[]])
+		.describe(`Score using one of: ${scoreConfig.categories.join(", ")}`);
+}
+
+function formatScoreInstruction(scoreConfig: ScoreConfig): string {
+	if (scoreConfig.type === "numeric") {
+		const { min, max, float } = scoreConfig;
+		const floatNote = float === false ? " (integer)" : "";
+		return `Provide a score from ${min} to ${max}${floatNote} where ${min} is worst and ${max} is best.`;
+	}
+
+	const categories = scoreConfig.categories.join(", ");
+	return `Provide a score using one of these categories (from worst to best): ${categories}`;
+}
+
+/**
+ * Rendered prompt passed to generateText: either a single user prompt or a
+ * message list, with an optional system message
+ */
+type RenderedPrompt =
+	| { system?: string; prompt: string }
+	| { system?: string; messages: ModelMessage[] };
+
+/**
+ * Move the final user turn into text and image parts. A plain prompt
+ * becomes a single user message.
+ */
+function attachImages(
+	rendered: RenderedPrompt,
+	images: readonly ResolvedImage[],
+): RenderedPrompt {
+	const messages: ModelMessage[] =
+		"messages" in rendered
+			? [...rendered.messages]
+			: [{ role: "user", content: rendered.prompt }];
+	const last = messages[messages.length - 1] as EvaluatorMessage;
+
+	messages[messages.length - 1] = {
+		role: "user",
+		content: [
+			{ type: "text", text: last.content },
+			...images.map(({ image, mediaType }) => ({
+				type: "image" as const,
+				image,
+				...(mediaType ? { mediaType } : {}),
+			})),
+		],
+	};
+
+	return {
+		...(rendered.system !== undefined ? { system: rendered.system } : {}),
+		messages,
+	};
+}
+
+interface ScoredSample {
+	output: JudgeOutput;
+	score: number | string;
+	scoreDistribution?: ScoreDistribution;
+	tokenUsage: TokenUsage | undefined;
+	cached: boolean;
+}
+
+function aggregateScores(
+	scores: readonly (number | string)[],
+	aggregation: SampleAggregation,
+): number | string {
+	const numeric = scores.every((score) => typeof score === "number");
+	if (aggregation === "mode" || !numeric) {
+		return mode(scores) as number | string;
+	}
+	return aggregation === "median"
+		? median(scores as number[])
+		: mean(scores as number[]);
+}
 
-function getNumber(value: unknown): number | undefined {
-	return typeof value === "number" ? value : undefined;
+const EXAMPLE_FIELDS: readonly [keyof EvaluationInput, string][] = [
+	["prompt", "Prompt"],
+	["sourceText", "Source"],
+	["referenceText", "Reference"],
+	["comparisonText", "Comparison"],
+	["contentType", "Content type"],
+	["language", "Language"],
+	["candidateText", "Text"],
+];
+
+function validateExample(
+	example: EvaluatorExample,
+	index: number,
+	scoreConfig: ScoreConfig,
+): void {
+	const label = `Example ${index + 1}`;
+
+	if (scoreConfig.type === "categorical") {
+		if (
+			typeof example.score !== "string" ||
+			!scoreConfig.categories.includes(example.score)
+		) {
+			throw new Error(
+				`${label} score ${JSON.stringify(example.score)} is not one of: ${scoreConfig.categories.join(", ")}`,
+			);
+		}
+		return;
+	}
+
+	const { min, max, float } = scoreConfig;
+	if (
+		typeof example.score !== "number" ||
+		example.score < min ||
+		example.score > max
+	) {
+		throw new Error(
+			`${label} score ${JSON.stringify(example.score)} is outside the range ${min} to ${max}`,
+		);
+	}
+	if (float === false && !Number.isInteger(example.score)) {
+		throw new Error(`${label} score ${example.score} must be an integer`);
+	}
 }
 
-function getRecord(value: unknown): Record<string, unknown> | undefined {
-	return value && typeof value === "object"
-		? (value as Record<string, unknown>)
-		: undefined;
+function formatExamples(examples: readonly EvaluatorExample[]): string {
+	const formatted = examples.map((example, index) => {
+		const lines = [`Example ${index + 1}:`];
+		for (const [field, label] of EXAMPLE_FIELDS) {
+			const value = example.input[field];
+			if (value) {
+				lines.push(`${label}: ${value}`);
+			}
+		}
+		lines.push(`Score: ${example.score}`, `Rationale: ${example.rationale}`);
+		return lines.join("\n");
+	});
+
+	return [
+		"Use the following scored examples to calibrate your judgement:",
+		...formatted,
+	].join("\n\n");
 }
 
-function hasNumberValue(value: Record<string, unknown>): boolean {
-	return Object.values(value).some((entry) => typeof entry === "number");
+function validateRubric(rubric: RubricConfig, scoreConfig: ScoreConfig): void {
+	if (rubric.criteria.length === 0) {
+		throw new Error("Rubric must define at least one criterion");
+	}
+
+	const names = new Set<string>();
+	for (const criterion of rubric.criteria) {
+		if (names.has(criterion.name)) {
+			throw new Error(`Duplicate rubric criterion: ${criterion.name}`);
+		}
+		names.add(criterion.name);
+		validateScoreConfig(criterion.scoreConfig);
+
+		if (criterion.weight !== undefined && criterion.weight < 0) {
+			throw new Error(
+				`Rubric criterion ${criterion.name} must have a non-negative weight`,
+			);
+		}
+	}
+
+	if (rubric.overallScore !== "weighted") return;
+
+	if (scoreConfig.type !== "numeric") {
+		throw new Error("Weighted rubric scores require a numeric scoreConfig");
+	}
+	const categorical = rubric.criteria.find(
+		(criterion) => criterion.scoreConfig.type !== "numeric",
+	);
+	if (categorical) {
+		throw new Error(
+			`Weighted rubric scores require numeric criteria, but ${categorical.name} is categorical`,
+		);
+	}
+	const totalWeight = rubric.criteria.reduce(
+		(sum, criterion) => sum + (criterion.weight ?? 1),
+		0,
+	);
+	if (totalWeight <= 0) {
+		throw new Error("Rubric criterion weights must sum to more than 0");
+	}
+}
+
+function validateLogprobScoring(
+	scoreConfig: ScoreConfig,
+	rubric: RubricConfig | undefined,
+): void {
+	if (scoreConfig.type !== "numeric" || scoreConfig.float !== false) {
+		throw new Error(
+			"logprobScoring requires an integer numeric scoreConfig (float: false)",
+		);
+	}
+	if (rubric?.overallScore === "weighted") {
+		throw new Error(
+			"logprobScoring cannot be combined with weighted rubric scores",
+		);
+	}
 }
 
-export class Evaluator {
+function sumCounts(
+	results: readonly EvaluatorResult[],
+	key: "cacheHits" | "cacheMisses",
+): number {
+	return results.reduce(
+		(sum, result) => sum + (result.processingStats[key] ?? 0),
+		0,
+	);
+}
+
+/**
+ * A serialisable description of a zod schema, so that changes to the
+ * details schema change the cache key
+ */
+function describeSchema(schema: z.ZodTypeAny): unknown {
+	const description = schema.description;
+	if (schema instanceof z.ZodObject) {
+		const shape = schema.shape as Record<string, z.ZodTypeAny>;
+		return {
+			type: "object",
+			description,
+			shape: Object.fromEntries(
+				Object.entries(shape).map(([key, value]) => [
+					key,
+					describeSchema(value),
+				]),
+			),
+		};
+	}
+	if (schema instanceof z.ZodArray) {
+		return {
+			type: "array",
+			description,
+			element: describeSchema(schema.element),
+		};
+	}
+	if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+		return {
+			type: schema._def.typeName,
+			description,
+			inner: describeSchema(schema.unwrap()),
+		};
+	}
+	if (schema instanceof z.ZodEnum) {
+		return { type: "enum", description, values: schema.options };
+	}
+	return { type: (schema._def as { typeName?: string }).typeName, description };
+}
+
+export class Evaluator<TDetails extends EvaluatorDetails = EvaluatorDetails> {
 	readonly name: string;
 	readonly timeout?: number;
 
 	private readonly model: EvaluatorConfig["model"];
-	private readonly evaluationPrompt: string;
+	private readonly evaluationPrompt?: string;
+	private readonly systemPrompt?: string;
+	private readonly messages?: readonly EvaluatorMessage[];
 	private readonly scoreConfig: NonNullable<EvaluatorConfig["scoreConfig"]>;
+	private readonly rubric?: RubricConfig;
+	private readonly detailsSchema?: z.ZodType<TDetails>;
+	private readonly requiredVariables: readonly TemplateVariable[];
+	private readonly strictVariables: boolean;
+	private readonly templateVariables: readonly string[];
+	private readonly customVariables: readonly string[];
+	private readonly conversationMode: ConversationMode;
+	private readonly chainOfThought: boolean;
+	private readonly examples: readonly EvaluatorExample[];
+	private readonly samples: number;
+	private readonly sampleAggregation: SampleAggregation;
 	private readonly modelSettings?: EvaluatorConfig["modelSettings"];
+	private readonly cache?: EvaluationCache;
+	private readonly logprobScoring: boolean;
 	private readonly templateRenderer: TemplateRenderer;
 
-	constructor(config: EvaluatorConfig) {
+	constructor(config: EvaluatorConfig<TDetails>) {
 		this.name = config.name;
 		this.timeout = config.timeout;
 
 		this.model = config.model;
 		this.evaluationPrompt = config.evaluationPrompt;
+		this.systemPrompt = config.systemPrompt;
+		this.messages = config.messages;
 		this.scoreConfig = config.scoreConfig ?? {
 			type: "numeric",
 			min: 0,
 			max: 100,
 			float: false,
 		};
+		this.rubric = config.rubric;
+		this.detailsSchema = config.detailsSchema;
+		this.requiredVariables = config.requiredVariables ?? [];
+		this.strictVariables = config.strictVariables ?? false;
+		this.customVariables = config.customVariables ?? [];
+		this.conversationMode = config.conversationMode ?? "final_turn";
+		this.chainOfThought = config.chainOfThought ?? false;
+		this.examples = config.examples ?? [];
+		this.samples = config.samples ?? 1;
 		this.modelSettings = config.modelSettings;
+		this.cache = config.cache;
+		this.logprobScoring = config.logprobScoring ?? false;
 
-		this.templateRenderer = new TemplateRenderer();
-
-		const templateErrors = this.templateRenderer.validate(
-			this.evaluationPrompt,
+		validateCustomVariables(
+			this.customVariables,
+			Object.values(TemplateVariable),
 		);
-		if (templateErrors.length > 0) {
+		validateScoreConfig(this.scoreConfig);
+		if (this.rubric) {
+			validateRubric(this.rubric, this.scoreConfig);
+		}
+		if (this.logprobScoring) {
+			validateLogprobScoring(this.scoreConfig, this.rubric);
+		}
+		this.examples.forEach((example, index) => {
+			validateExample(example, index, this.scoreConfig);
+		});
+
+		const numericOverall =
+			this.scoreConfig.type === "numeric" ||
+			this.rubric?.overallScore === "weighted";
+		this.sampleAggregation =
+			config.sampleAggregation ?? (numericOverall ? "mean" : "mode");
+
+		if (!Number.isInteger(this.samples) || this.samples < 1) {
+			throw new Error("samples must be a positive integer");
+		}
+		if (!numericOverall && this.sampleAggregation !== "mode") {
 			throw new Error(
-				`Invalid evaluation prompt template: ${templateErrors.join("; ")}`,
+				`Cannot use ${this.sampleAggregation} sample aggregation with categorical scores; use "mode"`,
 			);
 		}
+
+		this.templateRenderer = new TemplateRenderer();
+		this.validatePromptTemplates();
+		this.templateVariables = this.checkTemplateVariables();
 	}
 
-	async evaluate(input: EvaluationInput): Promise<EvaluatorResult> {
-		const tracer = await getTracer();
-		const modelId = (this.model as { modelId?: string }).modelId;
+	private validatePromptTemplates(): void {
+		if (this.evaluationPrompt === undefined && !this.messages) {
+			throw new Error("Either evaluationPrompt or messages is required");
+		}
+		if (this.evaluationPrompt !== undefined && this.messages) {
+			throw new Error("Set either evaluationPrompt or messages, not both");
+		}
+		if (
+			this.messages &&
+			this.messages[this.messages.length - 1]?.role !== "user"
+		) {
+			throw new Error("messages must end with a user message");
+		}
+
+		for (const [label, template] of this.promptTemplates()) {
+			const templateErrors = this.templateRenderer.validate(template);
+			if (templateErrors.length > 0) {
+				throw new Error(
+					`Invalid ${label} template: ${templateErrors.join("; ")}`,
+				);
+			}
+		}
+	}
 
-		return tracer.startActiveSpan(
-			"eval-kit.evaluator.evaluate",
+	private promptTemplates(): [string, string][] {
+		const templates: [string, string][] = [];
+		if (this.evaluationPrompt !== undefined) {
+			templates.push(["evaluation prompt", this.evaluationPrompt]);
+		}
+		if (this.systemPrompt !== undefined) {
+			templates.push(["system prompt", this.systemPrompt]);
+		}
+		this.messages?.forEach((message, index) => {
+			templates.push([`message ${index + 1}`, message.content]);
+		});
+		return templates;
+	}
+
+	/**
+	 * Warn about variables the templates use that are neither built in nor
+	 * declared in customVariables, as they always render empty. Returns the
+	 * variables the templates always render.
+	 */
+	private checkTemplateVariables(): string[] {
+		const known = new Set<string>([
+			...Object.values(TemplateVariable),
+			...this.customVariables,
+		]);
+		const used = new Set<string>();
+		const required = new Set<string>();
+		for (const [, template] of this.promptTemplates()) {
+			for (const variable of this.templateRenderer.extractVariables(template)) {
+				used.add(variable);
+			}
+			for (const variable of this.templateRenderer.extractRequiredVariables(
+				template,
+			)) {
+				required.add(variable);
+			}
+		}
+
+		const unknown = [...used].filter((variable) => !known.has(variable));
+		if (unknown.length > 0) {
+			console.warn(
+				`Evaluator ${this.name} templates use unknown variables, which render empty: ${unknown.join(", ")}`,
+			);
+		}
+		return [...required];
+	}
+
+	/**
+	 * Input fields this evaluator requires that are missing or blank in the
+	 * input: requiredVariables, plus with strictVariables every variable the
+	 * templates always render
+	 */
+	missingVariables(input: EvaluationInput): string[] {
+		const variables = this.prepareVariables(input);
+		const required = this.strictVariables
+			? new Set<string>([...this.requiredVariables, ...this.templateVariables])
+			: this.requiredVariables;
+		return [...required].filter(
+			(variable) => String(variables[variable] ?? "").trim() === "",
+		);
+	}
+
+	async evaluate(
+		input: EvaluationInput,
+		options?: EvaluateOptions,
+	): Promise<EvaluatorResult<TDetails>> {
+		const modelId = getModelId(this.model);
+
+		// Failed evaluations carry no details, so the untyped result is safe here
+		return traceEvaluation(
 			{
+				spanName: "eval-kit.evaluator.evaluate",
 				attributes: {
 					"eval_kit.evaluator.name": this.name,
 					"eval_kit.model.id": modelId ?? "unknown",
 					"eval_kit.score_config.type": this.scoreConfig.type,
 					"eval_kit.input.candidate_text_length": input.candidateText.length,
 				},
+				evaluatorName: this.name,
+				modelId,
+				timeout: this.timeout,
+				signal: options?.signal,
 			},
-			(span: EvalKitSpan) => this.runEvaluation(input, modelId, span),
-		);
+			(span, signal) => this.executeEvaluation(input, modelId, span, signal),
+		) as Promise<EvaluatorResult<TDetails>>;
 	}
 
-	private async runEvaluation(
+	private async executeEvaluation(
 		input: EvaluationInput,
 		modelId: string | undefined,
 		span: EvalKitSpan,
+		abortSignal: AbortSignal | undefined,
 	): Promise<EvaluatorResult> {
-		const startTime = Date.now();
-		let spanError: string | undefined;
-		let evaluatorResult: EvaluatorResult;
-
-		try {
-			evaluatorResult = await this.executeEvaluation(input, modelId, span);
-		} catch (error) {
-			evaluatorResult = this.buildErrorResult(error, modelId, startTime);
-			spanError = evaluatorResult.error;
-			span.recordException(
-				error instanceof Error ? error : (spanError ?? String(error)),
-			);
-		} finally {
-			span.setAttribute(
-				"eval_kit.result.execution_time_ms",
-				Date.now() - startTime,
+		if (!input.conversation) {
+			return this.evaluateCandidate(input, modelId, span, abortSignal);
+		}
+
+		const turnInputs = this.selectTurns(input, input.conversation);
+		span.setAttribute("eval_kit.conversation.turn_count", turnInputs.length);
+		if (turnInputs.length === 1) {
+			return this.evaluateCandidate(
+				turnInputs[0].input,
+				modelId,
+				span,
+				abortSignal,
 			);
-			if (spanError) {
-				span.setAttribute("eval_kit.result.error", spanError);
-				span.setStatus({ code: SpanStatusCode.ERROR, message: spanError });
-			} else {
-				span.setStatus({ code: SpanStatusCode.OK });
-			}
-			span.end();
 		}
 
-		return evaluatorResult;
-	}
+		const startTime = Date.now();
+		const results = await Promise.all(
+			turnInputs.map((turn) =>
+				this.evaluateCandidate(turn.input, modelId, span, abortSignal),
+			),
+		);
+		const turns: TurnResult[] = results.map((result, index) => ({
+			turnIndex: turnInputs[index].turnIndex,
+			score: result.score,
+			...(result.normalizedScore !== undefined
+				? { normalizedScore: result.normalizedScore }
+				: {}),
+			feedback: result.feedback,
+			...(result.reasoning !== undefined
+				? { reasoning: result.reasoning }
+				: {}),
+			...(result.criteria ? { criteria: result.criteria } : {}),
+			...(result.details ? { details: result.details } : {}),
+		}));
 
-	private buildErrorResult(
-		error: unknown,
-		modelId: string | undefined,
-		startTime: number,
-	): EvaluatorResult {
-		const errorMessage = error instanceof Error ? error.message : String(error);
-		const errorDetails =
-			error instanceof Error && "cause" in error
-				? String(error.cause)
-				: undefined;
-		const fullError = errorDetails
-			? `${errorMessage} (${errorDetails})`
-			: errorMessage;
+		const score = aggregateScores(
+			turns.map((turn) => turn.score),
+			this.sampleAggregation,
+		);
+		const tokenUsage = sumTokenUsage(
+			results.map((result) => result.processingStats.tokenUsage),
+		);
+
+		// Each turn set these attributes; report the conversation totals
+		setTokenUsageAttributes(span, tokenUsage);
+		span.setAttribute("eval_kit.result.score", score);
 
 		return {
 			evaluatorName: this.name,
 			model: modelId,
-			score: 0,
-			feedback: `Evaluation failed: ${errorMessage}`,
-			processingStats: { executionTime: Date.now() - startTime },
-			error: fullError,
+			score,
+			normalizedScore: normalizeScore(score, this.scoreConfig),
+			feedback: turns
+				.map((turn) => `[turn ${turn.turnIndex}] ${turn.feedback}`)
+				.join("\n"),
+			processingStats: {
+				executionTime: Date.now() - startTime,
+				tokenUsage,
+				...(this.cache
+					? {
+							cacheHits: sumCounts(results, "cacheHits"),
+							cacheMisses: sumCounts(results, "cacheMisses"),
+						}
+					: {}),
+			},
+			turns,
 		};
 	}
 
-	private async executeEvaluation(
+	/**
+	 * The assistant turns to judge. Each becomes the candidateText, with the
+	 * turns before it as the conversation.
+	 */
+	private selectTurns(
+		input: EvaluationInput,
+		conversation: readonly ConversationTurn[],
+	): { turnIndex: number; input: EvaluationInput }[] {
+		const assistantTurns = findAssistantTurns(conversation);
+		if (assistantTurns.length === 0) {
+			throw new Error(
+				`Evaluator ${this.name} requires an assistant turn in the conversation`,
+			);
+		}
+
+		const selected =
+			this.conversationMode === "every_assistant_turn"
+				? assistantTurns
+				: [assistantTurns[assistantTurns.length - 1]];
+		return selected.map((turnIndex) => ({
+			turnIndex,
+			input: {
+				...input,
+				candidateText: conversation[turnIndex].content,
+				conversation: conversation.slice(0, turnIndex),
+			},
+		}));
+	}
+
+	private async evaluateCandidate(
 		input: EvaluationInput,
 		modelId: string | undefined,
 		span: EvalKitSpan,
+		abortSignal: AbortSignal | undefined,
 	): Promise<EvaluatorResult> {
 		const startTime = Date.now();
-		const prompt = this.buildPrompt(input);
+		this.checkRequiredVariables(input);
+		const rendered = this.buildPrompt(input);
+		const images = await Promise.all((input.images ?? []).map(resolveImage));
+		const prompt =
+			images.length > 0 ? attachImages(rendered, images) : rendered;
+		// Image bytes are fingerprinted so cache keys stay small
+		const promptKey =
+			images.length > 0
+				? { ...rendered, images: images.map(fingerprintImage) }
+				: rendered;
 		const schema = this.createSchema();
 
+		if (images.length > 0) {
+			span.setAttribute("eval_kit.input.image_count", images.length);
+		}
+
+		const samples = await Promise.all(
+			Array.from({ length: this.samples }, (_, sampleIndex) =>
+				this.generateSample({
+					prompt,
+					promptKey,
+					schema,
+					modelId,
+					sampleIndex,
+					abortSignal,
+				}),
+			),
+		);
+
+		const processingStats = this.buildProcessingStats(startTime, samples);
+
+		setTokenUsageAttributes(span, processingStats.tokenUsage);
+		if (this.cache) {
+			span.setAttribute("eval_kit.cache.hits", processingStats.cacheHits ?? 0);
+			span.setAttribute(
+				"eval_kit.cache.misses",
+				processingStats.cacheMisses ?? 0,
+			);
+		}
+		if (this.logprobScoring) {
+			span.setAttribute(
+				"eval_kit.logprobs.scored_samples",
+				samples.filter((sample) => sample.scoreDistribution).length,
+			);
+		}
+
+		if (samples.length === 1) {
+			const [{ output, score, scoreDistribution }] = samples;
+			span.setAttribute("eval_kit.result.score", score);
+
+			return {
+				evaluatorName: this.name,
+				model: modelId,
+				score,
+				normalizedScore: normalizeScore(score, this.scoreConfig),
+				feedback: output.feedback,
+				...(output.reasoning !== undefined
+					? { reasoning: output.reasoning }
+					: {}),
+				processingStats,
+				...(output.criteria ? { criteria: output.criteria } : {}),
+				...(output.details ? { details: output.details } : {}),
+				...(scoreDistribution ? { scoreDistribution } : {}),
+			};
+		}
+
+		const score = aggregateScores(
+			samples.map((sample) => sample.score),
+			this.sampleAggregation,
+		);
+		const representative = this.findRepresentativeSample(samples, score);
+		const criteria = this.aggregateCriteria(samples, representative);
+		const sampling = this.summarizeSamples(samples);
+
+		span.setAttribute("eval_kit.result.score", score);
+		span.setAttribute("eval_kit.sampling.count", samples.length);
+		span.setAttribute(
+			"eval_kit.sampling.agreement_ratio",
+			sampling.agreementRatio,
+		);
+		if (sampling.standardDeviation !== undefined) {
+			span.setAttribute(
+				"eval_kit.sampling.standard_deviation",
+				sampling.standardDeviation,
+			);
+		}
+
+		return {
+			evaluatorName: this.name,
+			model: modelId,
+			score,
+			normalizedScore: normalizeScore(score, this.scoreConfig),
+			feedback: representative.output.feedback,
+			...(representative.output.reasoning !== undefined
+				? { reasoning: representative.output.reasoning }
+				: {}),
+			processingStats,
+			...(criteria ? { criteria } : {}),
+			...(representative.output.details
+				? { details: representative.output.details }
+				: {}),
+			sampling,
+		};
+	}
+
+	private async generateSample(options: {
+		prompt: RenderedPrompt;
+		promptKey: Readonly<Record<string, unknown>>;
+		schema: z.ZodType<JudgeOutput>;
+		modelId: string | undefined;
+		sampleIndex: number;
+		abortSignal: AbortSignal | undefined;
+	}): Promise<ScoredSample> {
+		const { prompt, schema } = options;
+		const cacheKey = this.cache
+			? createEvaluationCacheKey({
+					evaluatorName: this.name,
+					modelId: options.modelId,
+					prompt: options.promptKey,
+					scoreConfig: this.scoreConfig,
+					modelSettings: this.modelSettings,
+					outputOptions: {
+						rubric: this.rubric,
+						chainOfThought: this.chainOfThought,
+						logprobScoring: this.logprobScoring,
+						details: this.detailsSchema
+							? describeSchema(this.detailsSchema)
+							: undefined,
+					},
+					sampleIndex: options.sampleIndex,
+				})
+			: undefined;
+
+		if (this.cache && cacheKey) {
+			const cached = await this.cache.get(cacheKey);
+			if (cached) {
+				const output = cached.output as unknown as JudgeOutput;
+				return {
+					output,
+					score:
+						cached.scoreDistribution?.expectedScore ??
+						this.resolveScore(output),
+					...(cached.scoreDistribution
+						? { scoreDistribution: cached.scoreDistribution }
+						: {}),
+					tokenUsage: undefined,
+					cached: true,
+				};
+			}
+		}
+
 		const result = await generateText({
 			model: this.model,
 			output: Output.object({ schema }),
-			prompt,
-			temperature: this.modelSettings?.temperature,
-			maxOutputTokens: this.modelSettings?.maxOutputTokens,
-			topP: this.modelSettings?.topP,
-			topK: this.modelSettings?.topK,
-			presencePenalty: this.modelSettings?.presencePenalty,
-			frequencyPenalty: this.modelSettings?.frequencyPenalty,
-			seed: this.modelSettings?.seed,
+			...prompt,
+			abortSignal: options.abortSignal,
+			...buildCallSettings(this.modelSettings),
+			...(this.logprobScoring
+				? { providerOptions: { openai: { logprobs: TOP_LOGPROBS } } }
+				: {}),
 			experimental_telemetry: { isEnabled: isTelemetryEnabled() },
 		});
 
-		const executionTime = Date.now() - startTime;
-		const tokenUsage = this.extractTokenUsage(result.usage);
+		const output = result.output;
+		const scoreDistribution = this.logprobScoring
+			? this.calculateScoreDistribution(result.providerMetadata)
+			: undefined;
+		// Without logprobs the structured score is used as is
+		const score = scoreDistribution?.expectedScore ?? this.resolveScore(output);
 
-		this.setTokenAttributes(span, tokenUsage);
-		span.setAttribute("eval_kit.result.score", result.output.score);
+		if (this.cache && cacheKey) {
+			await this.cache.set(cacheKey, {
+				output: output as unknown as Record<string, unknown>,
+				...(scoreDistribution ? { scoreDistribution } : {}),
+				cachedAt: new Date().toISOString(),
+			});
+		}
 
 		return {
-			evaluatorName: this.name,
-			model: modelId,
-			score: result.output.score,
-			feedback: result.output.feedback,
-			processingStats: { executionTime, tokenUsage },
+			output,
+			score,
+			...(scoreDistribution ? { scoreDistribution } : {}),
+			tokenUsage: extractTokenUsage(result.usage),
+			cached: false,
 		};
 	}
 
-	private buildPrompt(input: EvaluationInput): string {
-		const variables = this.prepareVariables(input);
-		const scoreInstructions = this.formatScoreInstructions();
-		return `${this.templateRenderer.render(this.evaluationPrompt, variables)}\n\n${scoreInstructions}`;
+	private calculateScoreDistribution(
+		providerMetadata: unknown,
+	): ScoreDistribution | undefined {
+		const tokens = extractTokenLogprobs(providerMetadata);
+		if (!tokens || this.scoreConfig.type !== "numeric") return undefined;
+		return calculateScoreDistribution(tokens, this.scoreConfig);
 	}
 
-	private setTokenAttributes(
-		span: EvalKitSpan,
-		tokenUsage: TokenUsage | undefined,
-	): void {
-		if (tokenUsage?.inputTokens !== undefined) {
-			span.setAttribute(
-				"eval_kit.result.token_usage.input",
-				tokenUsage.inputTokens,
-			);
+	/**
+	 * Token usage covers only samples that called the model; cache hits are free
+	 */
+	private buildProcessingStats(
+		startTime: number,
+		samples: readonly ScoredSample[],
+	): ProcessingStats {
+		const tokenUsage =
+			samples.length === 1
+				? samples[0].tokenUsage
+				: sumTokenUsage(samples.map((sample) => sample.tokenUsage));
+
+		if (!this.cache) {
+			return { executionTime: Date.now() - startTime, tokenUsage };
 		}
-		if (tokenUsage?.outputTokens !== undefined) {
-			span.setAttribute(
-				"eval_kit.result.token_usage.output",
-				tokenUsage.outputTokens,
-			);
+
+		const cacheHits = samples.filter((sample) => sample.cached).length;
+		return {
+			executionTime: Date.now() - startTime,
+			tokenUsage,
+			cacheHits,
+			cacheMisses: samples.length - cacheHits,
+		};
+	}
+
+	/**
+	 * The sample whose score is closest to the aggregate score.
+	 * Its feedback is used as the feedback of the aggregated result.
+	 */
+	private findRepresentativeSample(
+		samples: readonly ScoredSample[],
+		score: number | string,
+	): ScoredSample {
+		if (typeof score === "string") {
+			return samples.find((sample) => sample.score === score) ?? samples[0];
 		}
-		if (tokenUsage?.totalTokens !== undefined) {
-			span.setAttribute(
-				"eval_kit.result.token_usage.total",
-				tokenUsage.totalTokens,
-			);
+
+		let closest = samples[0];
+		for (const sample of samples) {
+			const distance = Math.abs((sample.score as number) - score);
+			if (distance < Math.abs((closest.score as number) - score)) {
+				closest = sample;
+			}
 		}
+		return closest;
 	}
 
-	private prepareVariables(input: EvaluationInput): Record<string, unknown> {
+	private aggregateCriteria(
+		samples: readonly ScoredSample[],
+		representative: ScoredSample,
+	): Record<string, CriterionResult> | undefined {
+		if (!this.rubric) return undefined;
+
+		const criteria: Record<string, CriterionResult> = {};
+		for (const { name } of this.rubric.criteria) {
+			const scores = samples
+				.map((sample) => sample.output.criteria?.[name]?.score)
+				.filter((score) => score !== undefined);
+			if (scores.length === 0) continue;
+
+			criteria[name] = {
+				score: aggregateScores(scores, this.sampleAggregation),
+				feedback: representative.output.criteria?.[name]?.feedback ?? "",
+			};
+		}
+		return criteria;
+	}
+
+	private summarizeSamples(samples: readonly ScoredSample[]): SamplingSummary {
+		const scores = samples.map((sample) => sample.score);
+		const numericScores = scores.every((score) => typeof score === "number")
+			? (scores as number[])
+			: undefined;
+
 		return {
-			candidateText: input.candidateText,
-			prompt: input.prompt ?? "",
-			referenceText: input.referenceText ?? "",
-			sourceText: input.sourceText ?? "",
-			name: this.name,
-			contentType: input.contentType ?? "",
-			language: input.language ?? "",
+			aggregation: this.sampleAggregation,
+			samples: samples.map((sample) => ({
+				score: sample.score,
+				feedback: sample.output.feedback,
+				...(sample.output.reasoning !== undefined
+					? { reasoning: sample.output.reasoning }
+					: {}),
+				...(sample.scoreDistribution
+					? { scoreDistribution: sample.scoreDistribution }
+					: {}),
+			})),
+			...(numericScores
+				? {
+						standardDeviation: standardDeviation(numericScores),
+						min: Math.min(...numericScores),
+						max: Math.max(...numericScores),
+					}
+				: {}),
+			agreementRatio: agreementRatio(scores),
 		};
 	}
 
-	private extractTokenUsage(usage: unknown): TokenUsage | undefined {
-		if (!usage) return undefined;
-		const usageRecord = getRecord(usage);
-		if (!usageRecord) return undefined;
+	private resolveScore(output: JudgeOutput): number | string {
+		if (this.rubric?.overallScore === "weighted" && output.criteria) {
+			return this.calculateWeightedScore(output.criteria);
+		}
+		if (output.score === undefined) {
+			throw new Error("Model response did not include a score");
+		}
+		return output.score;
+	}
 
-		const inputTokenDetails = this.extractInputTokenDetails(
-			usageRecord.inputTokenDetails,
-		);
-		const outputTokenDetails = this.extractOutputTokenDetails(
-			usageRecord.outputTokenDetails,
-		);
+	/**
+	 * Weighted mean of the criterion scores, each normalised to its own
+	 * range and rescaled to the evaluator's score range
+	 */
+	private calculateWeightedScore(
+		criteria: Record<string, CriterionResult>,
+	): number {
+		if (this.scoreConfig.type !== "numeric" || !this.rubric) {
+			throw new Error("Weighted rubric scores require a numeric scoreConfig");
+		}
 
-		return {
-			inputTokens: getNumber(usageRecord.inputTokens),
-			...(inputTokenDetails ? { inputTokenDetails } : {}),
-			outputTokens: getNumber(usageRecord.outputTokens),
-			...(outputTokenDetails ? { outputTokenDetails } : {}),
-			totalTokens: getNumber(usageRecord.totalTokens),
-			reasoningTokens: getNumber(usageRecord.reasoningTokens),
-			cachedInputTokens: getNumber(usageRecord.cachedInputTokens),
-		};
+		let weightedSum = 0;
+		let totalWeight = 0;
+		for (const criterion of this.rubric.criteria) {
+			const config = criterion.scoreConfig;
+			const result = criteria[criterion.name];
+			if (config.type !== "numeric" || typeof result?.score !== "number") {
+				throw new Error(
+					`Missing numeric score for rubric criterion ${criterion.name}`,
+				);
+			}
+
+			const range = config.max - config.min;
+			const normalized = range === 0 ? 1 : (result.score - config.min) / range;
+			const weight = criterion.weight ?? 1;
+			weightedSum += normalized * weight;
+			totalWeight += weight;
+		}
+
+		const { min, max, float } = this.scoreConfig;
+		const score = min + (weightedSum / totalWeight) * (max - min);
+		return float === false ? Math.round(score) : score;
 	}
 
-	private extractInputTokenDetails(
-		details: unknown,
-	): TokenUsage["inputTokenDetails"] | undefined {
-		const detailRecord = getRecord(details);
-		if (!detailRecord || !hasNumberValue(detailRecord)) return undefined;
+	/**
+	 * Render the prompt templates. Examples and score instructions follow the
+	 * evaluation prompt, or the last message when messages are used.
+	 */
+	private buildPrompt(input: EvaluationInput): RenderedPrompt {
+		const variables = this.prepareVariables(input);
+		const system =
+			this.systemPrompt !== undefined
+				? this.templateRenderer.render(this.systemPrompt, variables)
+				: undefined;
+		const systemPart = system !== undefined ? { system } : {};
 
-		return {
-			noCacheTokens: getNumber(detailRecord.noCacheTokens),
-			cacheReadTokens: getNumber(detailRecord.cacheReadTokens),
-			cacheWriteTokens: getNumber(detailRecord.cacheWriteTokens),
-		};
+		if (!this.messages) {
+			const rendered = this.templateRenderer.render(
+				this.evaluationPrompt ?? "",
+				variables,
+			);
+			return { ...systemPart, prompt: this.appendInstructions(rendered) };
+		}
+
+		const messages = this.messages.map((message) => ({
+			role: message.role,
+			content: this.templateRenderer.render(message.content, variables),
+		}));
+		const last = messages[messages.length - 1];
+		last.content = this.appendInstructions(last.content);
+		return { ...systemPart, messages };
 	}
 
-	private extractOutputTokenDetails(
-		details: unknown,
-	): TokenUsage["outputTokenDetails"] | undefined {
-		const detailRecord = getRecord(details);
-		if (!detailRecord || !hasNumberValue(detailRecord)) return undefined;
+	private checkRequiredVariables(input: EvaluationInput): void {
+		const missing = this.missingVariables(input);
+		if (missing.length > 0) {
+			throw new Error(
+				`Evaluator ${this.name} requires ${missing.join(", ")} in the input`,
+			);
+		}
+	}
+
+	private appendInstructions(prompt: string): string {
+		const sections = [prompt];
+		if (this.examples.length > 0) {
+			sections.push(formatExamples(this.examples));
+		}
+		sections.push(this.formatScoreInstructions());
+		if (this.chainOfThought) {
+			sections.push(REASONING_INSTRUCTIONS);
+		}
+		return sections.join("\n\n");
+	}
 
+	private prepareVariables(input: EvaluationInput): Record<string, unknown> {
 		return {
-			textTokens: getNumber(detailRecord.textTokens),
-			reasoningTokens: getNumber(detailRecord.reasoningTokens),
+			candidateText: input.candidateText,
+			prompt: input.prompt ?? "",
+			referenceText: input.referenceText ?? "",
+			sourceText: input.sourceText ?? "",
+			comparisonText: input.comparisonText ?? "",
+			name: this.name,
+			contentType: input.contentType ?? "",
+			language: input.language ?? "",
+			conversation: formatConversation(input.conversation ?? []),
+			contexts: input.contexts ?? [],
+			trajectory: formatTrajectory(input.trajectory ?? []),
+			expectedTrajectory: formatTrajectory(input.expectedTrajectory ?? []),
+			...customVariableValues(this.customVariables, input),
 		};
 	}
 
-	private createSchema(): z.ZodObject<{
-		score: z.ZodTypeAny;
-		feedback: z.ZodString;
-	}> {
-		if (this.scoreConfig.type === "numeric") {
-			const { min, max, float } = this.scoreConfig;
-			let scoreSchema: z.ZodNumber = z.number().min(min).max(max);
+	private createSchema(): z.ZodType<JudgeOutput> {
+		// Field order matters: models generate fields in schema order, so
+		// reasoning comes before any score when chain-of-thought is enabled
+		const shape: z.ZodRawShape = {};
 
-			if (float === false) {
-				scoreSchema = scoreSchema.int();
+		if (this.chainOfThought) {
+			shape.reasoning = z
+				.string()
+				.describe(
+					"Step-by-step reasoning about the text, written before deciding on any score",
+				);
+		}
+
+		if (this.rubric) {
+			const criteriaShape: z.ZodRawShape = {};
+			for (const criterion of this.rubric.criteria) {
+				criteriaShape[criterion.name] = z
+					.object({
+						score: buildScoreSchema(criterion.scoreConfig),
+						feedback: z.string().describe(`Feedback on ${criterion.name}`),
+					})
+					.describe(criterion.description);
 			}
 
-			return z.object({
-				score: scoreSchema.describe(
-					`Score from ${min} to ${max}${float === false ? " (integer)" : ""}`,
-				),
-				feedback: z.string().describe("Detailed evaluation feedback"),
-			});
+			shape.criteria = z
+				.object(criteriaShape)
+				.describe("Score and feedback for each rubric criterion");
 		}
 
-		return z.object({
-			score: z
-				.enum(this.scoreConfig.categories as [string, ...string[]])
-				.describe(
-					`Score using one of: ${this.scoreConfig.categories.join(", ")}`,
-				),
-			feedback: z.string().describe("Detailed evaluation feedback"),
-		});
+		// Details come before the score so a nested "score" field never follows
+		// the overall score that logprob scoring reads
+		if (this.detailsSchema) {
+			shape.details = this.detailsSchema.describe(
+				this.detailsSchema.description ?? "Additional evaluation details",
+			);
+		}
+
+		if (this.rubric?.overallScore !== "weighted") {
+			const score = buildScoreSchema(this.scoreConfig);
+			shape.score = this.rubric
+				? score.describe("Overall score across all criteria")
+				: score;
+		}
+
+		shape.feedback = z
+			.string()
+			.describe(
+				this.rubric
+					? "Overall evaluation feedback"
+					: "Detailed evaluation feedback",
+			);
+
+		return z.object(shape) as unknown as z.ZodType<JudgeOutput>;
 	}
 
 	private formatScoreInstructions(): string {
-		if (this.scoreConfig.type === "numeric") {
-			const { min, max, float } = this.scoreConfig;
-			const floatNote = float === false ? " (integer)" : "";
-			return `Provide a score from ${min} to ${max}${floatNote} where ${min} is worst and ${max} is best.`;
+		if (!this.rubric) {
+			return formatScoreInstruction(this.scoreConfig);
 		}
 
-		const categories = this.scoreConfig.categories.join(", ");
-		return `Provide a score using one of these categories (from worst to best): ${categories}`;
+		const criteriaInstructions = this.rubric.criteria.map(
+			(criterion) =>
+				`- ${criterion.name}: ${criterion.description} ${formatScoreInstruction(criterion.scoreConfig)}`,
+		);
+		const lines = [
+			"Score each of the following criteria separately:",
+			...criteriaInstructions,
+		];
+		if (this.rubric.overallScore !== "weighted") {
+			lines.push(
+				"",
+				`For the overall score: ${formatScoreInstruction(this.scoreConfig)}`,
+			);
+		}
+		return lines.join("\n");
 	}
 
 	static create(
@@ -314,7 +1134,15 @@ export class Evaluator {
 		model: EvaluatorConfig["model"],
 		options?: {
 			evaluationPrompt?: string;
+			systemPrompt?: string;
 			scoreConfig?: EvaluatorConfig["scoreConfig"];
+			rubric?: EvaluatorConfig["rubric"];
+			chainOfThought?: boolean;
+			examples?: EvaluatorConfig["examples"];
+			samples?: number;
+			sampleAggregation?: EvaluatorConfig["sampleAggregation"];
+			cache?: EvaluatorConfig["cache"];
+			logprobScoring?: boolean;
 			timeout?: number;
 			modelSettings?: EvaluatorConfig["modelSettings"];
 			requireReference?: boolean;
@@ -336,7 +1164,15 @@ Provide a detailed assessment.`;
 			name,
 			model,
 			evaluationPrompt: options?.evaluationPrompt ?? defaultEvaluationPrompt,
+			systemPrompt: options?.systemPrompt,
 			scoreConfig: options?.scoreConfig,
+			rubric: options?.rubric,
+			chainOfThought: options?.chainOfThought,
+			examples: options?.examples,
+			samples: options?.samples,
+			sampleAggregation: options?.sampleAggregation,
+			cache: options?.cache,
+			logprobScoring: options?.logprobScoring,
 			timeout: options?.timeout,
 			modelSettings: options?.modelSettings,
 		});
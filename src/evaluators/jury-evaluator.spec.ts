@@ -0,0 +1,194 @@
+import { describe, expect, it } from "@jest/globals";
+import type {
+	EvaluationInput,
+	EvaluatorResult,
+	IEvaluator,
+} from "../types/evaluator.js";
+import { JuryEvaluator } from "./jury-evaluator.js";
+
+const createMockJudge = (
+	name: string,
+	score: number | string,
+	options?: { error?: string; totalTokens?: number; normalizedScore?: number },
+): IEvaluator => ({
+	name,
+	evaluate: async (_input: EvaluationInput): Promise<EvaluatorResult> => ({
+		evaluatorName: name,
+		model: `${name}-model`,
+		score,
+		...(options?.normalizedScore !== undefined
+			? { normalizedScore: options.normalizedScore }
+			: {}),
+		feedback: `${name} says ${score}`,
+		processingStats: {
+			executionTime: 5,
+			tokenUsage: { totalTokens: options?.totalTokens ?? 10 },
+		},
+		...(options?.error ? { error: options.error } : {}),
+	}),
+});
+
+const input = { candidateText: "Hello world" };
+
+describe("JuryEvaluator", () => {
+	it("should require at least one evaluator", () => {
+		expect(() => new JuryEvaluator({ name: "jury", evaluators: [] })).toThrow(
+			"at least one evaluator",
+		);
+	});
+
+	it("should average numeric scores by default", async () => {
+		const jury = new JuryEvaluator({
+			name: "jury",
+			evaluators: [
+				createMockJudge("a", 60),
+				createMockJudge("b", 80),
+				createMockJudge("c", 100),
+			],
+		});
+
+		const result = await jury.evaluate(input);
+
+		expect(result.evaluatorName).toBe("jury");
+		expect(result.score).toBe(80);
+		expect(result.jury?.judges).toHaveLength(3);
+		expect(result.jury?.agreement.standardDeviation).toBeCloseTo(16.33, 2);
+		expect(result.jury?.agreement.agreementRatio).toBeCloseTo(1 / 3);
+		expect(result.processingStats.tokenUsage?.totalTokens).toBe(30);
+		expect(result.feedback).toContain("[b] b says 80");
+	});
+
+	it("should take the median of numeric scores", async () => {
+		const jury = new JuryEvaluator({
+			name: "jury",
+			aggregation: "median",
+			evaluators: [
+				createMockJudge("a", 10),
+				createMockJudge("b", 70),
+				createMockJudge("c", 90),
+			],
+		});
+
+		const result = await jury.evaluate(input);
+
+		expect(result.score).toBe(70);
+	});
+
+	it("should take a majority vote over categorical scores", async () => {
+		const jury = new JuryEvaluator({
+			name: "jury",
+			aggregation: "majority",
+			evaluators: [
+				createMockJudge("a", "good"),
+				createMockJudge("b", "poor"),
+				createMockJudge("c", "good"),
+			],
+		});
+
+		const result = await jury.evaluate(input);
+
+		expect(result.score).toBe("good");
+		expect(result.jury?.agreement.agreementRatio).toBeCloseTo(2 / 3);
+		expect(result.jury?.agreement.standardDeviation).toBeUndefined();
+	});
+
+	it("should apply a custom reducer", async () => {
+		const jury = new JuryEvaluator({
+			name: "jury",
+			aggregation: (judges) =>
+				Math.min(...judges.map((judge) => judge.score as number)),
+			evaluators: [createMockJudge("a", 40), createMockJudge("b", 90)],
+		});
+
+		const result = await jury.evaluate(input);
+
+		expect(result.score).toBe(40);
+	});
+
+	it("should return an error for mean aggregation over categorical scores", async () => {
+		const jury = new JuryEvaluator({
+			name: "jury",
+			evaluators: [createMockJudge("a", "good"), createMockJudge("b", "poor")],
+		});
+
+		const result = await jury.evaluate(input);
+
+		expect(result.error).toContain('use "majority"');
+	});
+
+	it("should leave failed judges out of the aggregate", async () => {
+		const jury = new JuryEvaluator({
+			name: "jury",
+			evaluators: [
+				createMockJudge("a", 50),
+				createMockJudge("b", 0, { error: "LLM API failed" }),
+				createMockJudge("c", 70),
+			],
+		});
+
+		const result = await jury.evaluate(input);
+
+		expect(result.error).toBeUndefined();
+		expect(result.score).toBe(60);
+		expect(result.jury?.judges).toHaveLength(3);
+	});
+
+	it("should return an error when every judge fails", async () => {
+		const jury = new JuryEvaluator({
+			name: "jury",
+			evaluators: [
+				createMockJudge("a", 0, { error: "down" }),
+				createMockJudge("b", 0, { error: "down" }),
+			],
+		});
+
+		const result = await jury.evaluate(input);
+
+		expect(result.error).toBe("All 2 judges failed");
+		expect(result.feedback).toContain("Evaluation failed");
+	});
+
+	it("should average normalized scores", async () => {
+		const jury = new JuryEvaluator({
+			name: "jury",
+			evaluators: [
+				createMockJudge("a", 60, { normalizedScore: 0.6 }),
+				createMockJudge("b", 4, { normalizedScore: 0.8 }),
+			],
+		});
+
+		const result = await jury.evaluate(input);
+
+		expect(result.normalizedScore).toBeCloseTo(0.7);
+	});
+
+	it("should use the normalized score of the majority verdict", async () => {
+		const jury = new JuryEvaluator({
+			name: "jury",
+			aggregation: "majority",
+			evaluators: [
+				createMockJudge("a", "good", { normalizedScore: 1 }),
+				createMockJudge("b", "poor", { normalizedScore: 0 }),
+				createMockJudge("c", "good", { normalizedScore: 1 }),
+			],
+		});
+
+		const result = await jury.evaluate(input);
+
+		expect(result.normalizedScore).toBe(1);
+	});
+
+	it("should omit the normalized score when a judge does not report one", async () => {
+		const jury = new JuryEvaluator({
+			name: "jury",
+			evaluators: [
+				createMockJudge("a", 60, { normalizedScore: 0.6 }),
+				createMockJudge("b", 80),
+			],
+		});
+
+		const result = await jury.evaluate(input);
+
+		expect(result.normalizedScore).toBeUndefined();
+	});
+});
@@ -0,0 +1,182 @@
+import type { EvalKitSpan } from "../telemetry.js";
+import type {
+	EvaluateOptions,
+	EvaluationInput,
+	EvaluatorResult,
+	IEvaluator,
+	JuryAggregation,
+	JuryAgreement,
+	JuryEvaluatorConfig,
+} from "../types/evaluator.js";
+import {
+	agreementRatio,
+	mean,
+	median,
+	mode,
+	standardDeviation,
+} from "../utils/statistics.js";
+import { sumTokenUsage } from "../utils/token-usage.js";
+import { traceEvaluation } from "./shared.js";
+
+/**
+ * Runs several evaluators as a jury and aggregates their scores.
+ *
+ * Typical use is the same prompt on several different models. Judges run in
+ * parallel; the individual results and a measure of how much the judges
+ * agreed are returned alongside the aggregate score.
+ */
+export class JuryEvaluator implements IEvaluator {
+	readonly name: string;
+	readonly timeout?: number;
+
+	private readonly evaluators: readonly IEvaluator[];
+	private readonly aggregation: JuryAggregation;
+
+	constructor(config: JuryEvaluatorConfig) {
+		if (config.evaluators.length === 0) {
+			throw new Error("JuryEvaluator requires at least one evaluator");
+		}
+
+		this.name = config.name;
+		this.timeout = config.timeout;
+		this.evaluators = [...config.evaluators];
+		this.aggregation = config.aggregation ?? "mean";
+	}
+
+	async evaluate(
+		input: EvaluationInput,
+		options?: EvaluateOptions,
+	): Promise<EvaluatorResult> {
+		return traceEvaluation(
+			{
+				spanName: "eval-kit.jury_evaluator.evaluate",
+				attributes: {
+					"eval_kit.evaluator.name": this.name,
+					"eval_kit.jury.size": this.evaluators.length,
+					"eval_kit.jury.aggregation":
+						typeof this.aggregation === "function"
+							? "custom"
+							: this.aggregation,
+				},
+				evaluatorName: this.name,
+				modelId: undefined,
+				timeout: this.timeout,
+				signal: options?.signal,
+			},
+			(span, signal) => this.executeJury(input, span, signal),
+		);
+	}
+
+	private async executeJury(
+		input: EvaluationInput,
+		span: EvalKitSpan,
+		signal: AbortSignal | undefined,
+	): Promise<EvaluatorResult> {
+		const startTime = Date.now();
+		const judges = await Promise.all(
+			this.evaluators.map((evaluator) => evaluator.evaluate(input, { signal })),
+		);
+
+		const successful = judges.filter((judge) => !judge.error);
+		if (successful.length === 0) {
+			throw new Error(`All ${judges.length} judges failed`);
+		}
+
+		const score = this.aggregate(successful);
+		const normalizedScore = this.aggregateNormalizedScores(successful, score);
+		const agreement = this.measureAgreement(successful);
+		const tokenUsage = sumTokenUsage(
+			judges.map((judge) => judge.processingStats.tokenUsage),
+		);
+
+		span.setAttribute("eval_kit.result.score", score);
+		span.setAttribute(
+			"eval_kit.jury.agreement_ratio",
+			agreement.agreementRatio,
+		);
+		if (agreement.standardDeviation !== undefined) {
+			span.setAttribute(
+				"eval_kit.jury.standard_deviation",
+				agreement.standardDeviation,
+			);
+		}
+		span.setAttribute(
+			"eval_kit.jury.failed_judges",
+			judges.length - successful.length,
+		);
+
+		return {
+			evaluatorName: this.name,
+			score,
+			...(normalizedScore !== undefined ? { normalizedScore } : {}),
+			feedback: judges
+				.map((judge) => `[${judge.evaluatorName}] ${judge.feedback}`)
+				.join("\n"),
+			processingStats: {
+				executionTime: Date.now() - startTime,
+				tokenUsage,
+			},
+			jury: { judges, agreement },
+		};
+	}
+
+	private aggregate(judges: readonly EvaluatorResult[]): number | string {
+		if (typeof this.aggregation === "function") {
+			return this.aggregation(judges);
+		}
+
+		const scores = judges.map((judge) => judge.score);
+		if (this.aggregation === "majority") {
+			return mode(scores) as number | string;
+		}
+
+		const numericScores = this.toNumericScores(scores);
+		return this.aggregation === "median"
+			? median(numericScores)
+			: mean(numericScores);
+	}
+
+	/**
+	 * Mean and median are applied to the judges' normalized scores. A majority
+	 * verdict takes the normalized score of a judge that gave it. Custom
+	 * reducers have no normalized score unless every judge agrees on it.
+	 */
+	private aggregateNormalizedScores(
+		judges: readonly EvaluatorResult[],
+		score: number | string,
+	): number | undefined {
+		const normalizedScores = judges.map((judge) => judge.normalizedScore);
+		if (normalizedScores.some((value) => value === undefined)) {
+			return undefined;
+		}
+		const values = normalizedScores as number[];
+
+		if (this.aggregation === "mean") return mean(values);
+		if (this.aggregation === "median") return median(values);
+		if (this.aggregation === "majority") {
+			return judges.find((judge) => judge.score === score)?.normalizedScore;
+		}
+		return values.every((value) => value === values[0]) ? values[0] : undefined;
+	}
+
+	private toNumericScores(scores: readonly (number | string)[]): number[] {
+		if (scores.some((score) => typeof score !== "number")) {
+			throw new Error(
+				`Cannot apply ${this.aggregation} aggregation to categorical scores; use "majority" or a custom reducer`,
+			);
+		}
+		return scores as number[];
+	}
+
+	private measureAgreement(judges: readonly EvaluatorResult[]): JuryAgreement {
+		const scores = judges.map((judge) => judge.score);
+		const numeric = scores.every((score) => typeof score === "number");
+
+		return {
+			...(numeric
+				? { standardDeviation: standardDeviation(scores as number[]) }
+				: {}),
+			agreementRatio: agreementRatio(scores),
+		};
+	}
+}
@@ -0,0 +1,152 @@
+import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+
+// Mock the transformer-based metrics so no model is downloaded
+const mockCalculateBertScore = jest.fn();
+jest.unstable_mockModule("../metrics/bert-score.js", () => ({
+	calculateBertScore: mockCalculateBertScore,
+}));
+const mockCalculatePerplexity = jest.fn();
+jest.unstable_mockModule("../metrics/perplexity.js", () => ({
+	calculatePerplexity: mockCalculatePerplexity,
+}));
+
+const { MetricEvaluator } = await import("./metric-evaluator.js");
+
+describe("MetricEvaluator", () => {
+	beforeEach(() => {
+		mockCalculateBertScore.mockReset();
+		mockCalculatePerplexity.mockReset();
+	});
+
+	describe("bleu", () => {
+		it("should score candidateText against referenceText", async () => {
+			const result = await MetricEvaluator.bleu().evaluate({
+				candidateText: "the cat is on the mat",
+				referenceText: "the cat is on the mat",
+			});
+
+			expect(result.evaluatorName).toBe("bleu");
+			expect(result.score).toBe(100);
+			expect(result.normalizedScore).toBe(1);
+			expect(result.feedback).toBe(
+				"BLEU 100 (n-gram precisions 100, 100, 100, 100; brevity penalty 1)",
+			);
+			expect(result.details).toEqual({
+				score: 100,
+				precisions: [100, 100, 100, 100],
+				brevityPenalty: 1,
+				candidateLength: 6,
+				referenceLength: 6,
+			});
+		});
+
+		it("should pass metric options through", async () => {
+			const result = await MetricEvaluator.bleu({
+				name: "bleu_2",
+				maxNgramSize: 2,
+			}).evaluate({
+				candidateText: "the cat sat",
+				referenceText: "the cat is on the mat",
+			});
+
+			expect(result.evaluatorName).toBe("bleu_2");
+			expect(result.details?.precisions).toHaveLength(2);
+		});
+
+		it("should return an error result without referenceText", async () => {
+			const result = await MetricEvaluator.bleu().evaluate({
+				candidateText: "the cat",
+			});
+
+			expect(result.error).toContain(
+				"Metric evaluator bleu requires referenceText in the input",
+			);
+		});
+	});
+
+	describe("ter", () => {
+		it("should use the metric's feedback and leave it out of details", async () => {
+			const result = await MetricEvaluator.ter().evaluate({
+				candidateText: "the cat is on the mat",
+				referenceText: "the cat is on the mat",
+			});
+
+			expect(result.score).toBe(100);
+			expect(result.feedback).toBe("Perfect match with reference translation");
+			expect(result.details).not.toHaveProperty("feedback");
+			expect(result.details?.editCount).toBe(0);
+		});
+	});
+
+	describe("coherence", () => {
+		it("should not require referenceText", async () => {
+			const result = await MetricEvaluator.coherence().evaluate({
+				candidateText: "Rome is sunny. Rome is warm in May.",
+			});
+
+			expect(result.error).toBeUndefined();
+			expect(result.details?.sentenceCount).toBe(2);
+		});
+	});
+
+	describe("bertScore", () => {
+		it("should load the metric on first use", async () => {
+			mockCalculateBertScore.mockResolvedValue({
+				score: 91.5,
+				precision: 90,
+				recall: 93,
+				f1: 91.5,
+				modelUsed: "Xenova/all-MiniLM-L6-v2",
+			});
+
+			const evaluator = MetricEvaluator.bertScore({ scoreType: "f1" });
+			expect(mockCalculateBertScore).not.toHaveBeenCalled();
+
+			const result = await evaluator.evaluate({
+				candidateText: "A feline is on the rug",
+				referenceText: "The cat sits on the mat",
+			});
+
+			expect(mockCalculateBertScore).toHaveBeenCalledWith(
+				"A feline is on the rug",
+				"The cat sits on the mat",
+				{ scoreType: "f1" },
+			);
+			expect(result.normalizedScore).toBe(0.915);
+			expect(result.feedback).toBe(
+				"BERTScore 91.5 (precision 90, recall 93, F1 91.5)",
+			);
+		});
+	});
+
+	describe("perplexity", () => {
+		it("should report a failed model load as an error result", async () => {
+			mockCalculatePerplexity.mockRejectedValue(new Error("Model not found"));
+
+			const result = await MetricEvaluator.perplexity({
+				model: "missing-model",
+			}).evaluate({ candidateText: "Hello world" });
+
+			expect(result.score).toBe(0);
+			expect(result.error).toContain("Model not found");
+		});
+	});
+
+	it("should wrap a custom metric", async () => {
+		const evaluator = new MetricEvaluator({
+			name: "length",
+			metric: "length",
+			requiresReference: false,
+			calculate: (candidate) => ({
+				score: Math.min(100, candidate.length),
+				characters: candidate.length,
+			}),
+		});
+
+		const result = await evaluator.evaluate({ candidateText: "Hello" });
+
+		expect(result.score).toBe(5);
+		expect(result.feedback).toBe("length score: 5");
+		expect(result.details).toEqual({ score: 5, characters: 5 });
+	});
+});
@@ -0,0 +1,198 @@
+import type { BertScoreOptions } from "../metrics/bert-score.js";
+import { type BleuOptions, calculateBleu } from "../metrics/bleu.js";
+import {
+	type CoherenceOptions,
+	calculateCoherence,
+} from "../metrics/coherence.js";
+import type { PerplexityOptions } from "../metrics/perplexity.js";
+import { calculateTer, type TerOptions } from "../metrics/ter.js";
+import type { EvalKitSpan } from "../telemetry.js";
+import type {
+	EvaluateOptions,
+	EvaluationInput,
+	EvaluatorResult,
+	IEvaluator,
+	MetricEvaluatorConfig,
+} from "../types/evaluator.js";
+import { traceEvaluation } from "./shared.js";
+
+export interface MetricEvaluatorOptions {
+	name?: string; // Default: the metric name, e.g. "bleu"
+	timeout?: number;
+}
+
+function defaultFeedback(metric: string, result: { score: number }): string {
+	return "feedback" in result && typeof result.feedback === "string"
+		? result.feedback
+		: `${metric} score: ${result.score}`;
+}
+
+/**
+ * Wraps a metric such as BLEU or BERTScore as an evaluator, so it can run in
+ * a BatchEvaluator next to LLM judges.
+ *
+ * The score is the metric's 0-100 score and normalizedScore is that score
+ * divided by 100. details holds the full metric result. The transformer-based
+ * metrics are only imported on their first evaluation.
+ */
+export class MetricEvaluator<
+	TResult extends { score: number } = { score: number },
+> implements IEvaluator
+{
+	readonly name: string;
+	readonly timeout?: number;
+
+	private readonly metric: string;
+	private readonly requiresReference: boolean;
+	private readonly calculate: MetricEvaluatorConfig<TResult>["calculate"];
+	private readonly formatFeedback: (result: TResult) => string;
+
+	constructor(config: MetricEvaluatorConfig<TResult>) {
+		this.name = config.name;
+		this.timeout = config.timeout;
+
+		this.metric = config.metric;
+		this.requiresReference = config.requiresReference;
+		this.calculate = config.calculate;
+		this.formatFeedback =
+			config.formatFeedback ??
+			((result) => defaultFeedback(config.metric, result));
+	}
+
+	/**
+	 * BLEU n-gram overlap between candidateText and referenceText
+	 */
+	static bleu(options: BleuOptions & MetricEvaluatorOptions = {}) {
+		const { name, timeout, ...bleuOptions } = options;
+		return new MetricEvaluator({
+			name: name ?? "bleu",
+			metric: "bleu",
+			requiresReference: true,
+			timeout,
+			calculate: (candidate, reference) =>
+				calculateBleu(candidate, reference, bleuOptions),
+			formatFeedback: (result) =>
+				`BLEU ${result.score} (n-gram precisions ${result.precisions.join(", ")}; brevity penalty ${result.brevityPenalty})`,
+		});
+	}
+
+	/**
+	 * Translation edit rate against referenceText, inverted so that higher
+	 * is better
+	 */
+	static ter(options: TerOptions & MetricEvaluatorOptions = {}) {
+		const { name, timeout, ...terOptions } = options;
+		return new MetricEvaluator({
+			name: name ?? "ter",
+			metric: "ter",
+			requiresReference: true,
+			timeout,
+			calculate: (candidate, reference) =>
+				calculateTer(candidate, reference, terOptions),
+		});
+	}
+
+	/**
+	 * Similarity between consecutive sentences of candidateText
+	 */
+	static coherence(options: CoherenceOptions & MetricEvaluatorOptions = {}) {
+		const { name, timeout, ...coherenceOptions } = options;
+		return new MetricEvaluator({
+			name: name ?? "coherence",
+			metric: "coherence",
+			requiresReference: false,
+			timeout,
+			calculate: (candidate) => calculateCoherence(candidate, coherenceOptions),
+		});
+	}
+
+	/**
+	 * Embedding similarity between candidateText and referenceText
+	 */
+	static bertScore(options: BertScoreOptions & MetricEvaluatorOptions = {}) {
+		const { name, timeout, ...bertScoreOptions } = options;
+		return new MetricEvaluator({
+			name: name ?? "bert_score",
+			metric: "bert_score",
+			requiresReference: true,
+			timeout,
+			calculate: async (candidate, reference) => {
+				const { calculateBertScore } = await import("../metrics/bert-score.js");
+				return calculateBertScore(candidate, reference, bertScoreOptions);
+			},
+			formatFeedback: (result) =>
+				`BERTScore ${result.score} (precision ${result.precision}, recall ${result.recall}, F1 ${result.f1})`,
+		});
+	}
+
+	/**
+	 * Fluency of candidateText as judged by a language model's perplexity
+	 */
+	static perplexity(options: PerplexityOptions & MetricEvaluatorOptions = {}) {
+		const { name, timeout, ...perplexityOptions } = options;
+		return new MetricEvaluator({
+			name: name ?? "perplexity",
+			metric: "perplexity",
+			requiresReference: false,
+			timeout,
+			calculate: async (candidate) => {
+				const { calculatePerplexity } = await import(
+					"../metrics/perplexity.js"
+				);
+				return calculatePerplexity(candidate, perplexityOptions);
+			},
+		});
+	}
+
+	async evaluate(
+		input: EvaluationInput,
+		options?: EvaluateOptions,
+	): Promise<EvaluatorResult> {
+		return traceEvaluation(
+			{
+				spanName: "eval-kit.metric_evaluator.evaluate",
+				attributes: {
+					"eval_kit.evaluator.name": this.name,
+					"eval_kit.metric.name": this.metric,
+					"eval_kit.input.candidate_text_length": input.candidateText.length,
+				},
+				evaluatorName: this.name,
+				modelId: undefined,
+				timeout: this.timeout,
+				signal: options?.signal,
+			},
+			(span) => this.executeMetric(input, span),
+		);
+	}
+
+	private async executeMetric(
+		input: EvaluationInput,
+		span: EvalKitSpan,
+	): Promise<EvaluatorResult> {
+		const startTime = Date.now();
+		if (this.requiresReference && !input.referenceText) {
+			throw new Error(
+				`Metric evaluator ${this.name} requires referenceText in the input`,
+			);
+		}
+
+		const result = await this.calculate(
+			input.candidateText,
+			input.referenceText ?? "",
+		);
+		const { feedback: _feedback, ...details } = result as TResult & {
+			feedback?: string;
+		};
+
+		span.setAttribute("eval_kit.result.score", result.score);
+
+		return {
+			evaluatorName: this.name,
+			score: result.score,
+			normalizedScore: Math.min(1, Math.max(0, result.score / 100)),
+			feedback: this.formatFeedback(result),
+			processingStats: { executionTime: Date.now() - startTime },
+			details,
+		};
+	}
+}
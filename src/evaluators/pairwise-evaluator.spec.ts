@@ -0,0 +1,247 @@
+import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+import type { LanguageModel } from "ai";
+
+// Mock the ai module before importing PairwiseEvaluator
+const mockGenerateText = jest.fn<(options: unknown) => Promise<unknown>>();
+jest.unstable_mockModule("ai", () => ({
+	generateText: mockGenerateText,
+	Output: {
+		object: jest.fn((output) => ({ type: "object", ...output })),
+	},
+}));
+
+// Import after mocking
+const { PairwiseEvaluator } = await import("./pairwise-evaluator.js");
+
+const createMockModel = (): LanguageModel =>
+	({
+		specificationVersion: "v1",
+		provider: "mock",
+		modelId: "mock-model",
+		defaultObjectGenerationMode: "json",
+	}) as unknown as LanguageModel;
+
+const verdict = (winner: "A" | "B" | "tie", feedback = "Because") => ({
+	output: { winner, feedback },
+	usage: { inputTokens: 20, outputTokens: 5, totalTokens: 25 },
+});
+
+const getPrompt = (callIndex: number): string =>
+	(mockGenerateText.mock.calls[callIndex][0] as { prompt: string }).prompt;
+
+describe("PairwiseEvaluator", () => {
+	beforeEach(() => {
+		mockGenerateText.mockReset();
+	});
+
+	it("should validate template syntax", () => {
+		expect(
+			() =>
+				new PairwiseEvaluator({
+					name: "preference",
+					model: createMockModel(),
+					evaluationPrompt: "{{#if prompt}}Unclosed",
+				}),
+		).toThrow("Invalid evaluation prompt template");
+	});
+
+	it("should reject Evaluator variables that pairwise prompts do not fill", () => {
+		expect(
+			() =>
+				new PairwiseEvaluator({
+					name: "preference",
+					model: createMockModel(),
+					evaluationPrompt: "A: {{candidateText}}\nB: {{comparisonText}}",
+				}),
+		).toThrow(
+			"Pairwise evaluator preference does not support template variables candidateText, comparisonText; use responseA and responseB for the two candidates",
+		);
+	});
+
+	it("should judge both orderings", async () => {
+		mockGenerateText
+			.mockResolvedValueOnce(verdict("A"))
+			.mockResolvedValueOnce(verdict("B"));
+
+		const evaluator = new PairwiseEvaluator({
+			name: "helpfulness",
+			model: createMockModel(),
+		});
+
+		await evaluator.evaluate({
+			candidateText: "New answer",
+			comparisonText: "Old answer",
+		});
+
+		expect(mockGenerateText).toHaveBeenCalledTimes(2);
+		expect(getPrompt(0)).toMatch(
+			/Response A:\nNew answer[\s\S]*Response B:\nOld answer/,
+		);
+		expect(getPrompt(1)).toMatch(
+			/Response A:\nOld answer[\s\S]*Response B:\nNew answer/,
+		);
+	});
+
+	it("should report a win when both orderings prefer the candidate", async () => {
+		mockGenerateText
+			.mockResolvedValueOnce(verdict("A", "First"))
+			.mockResolvedValueOnce(verdict("B", "Second"));
+
+		const evaluator = new PairwiseEvaluator({
+			name: "helpfulness",
+			model: createMockModel(),
+		});
+
+		const result = await evaluator.evaluate({
+			candidateText: "New answer",
+			comparisonText: "Old answer",
+		});
+
+		expect(result.score).toBe("win");
+		expect(result.normalizedScore).toBe(1);
+		expect(result.pairwise).toEqual({
+			outcome: "win",
+			positionConsistent: true,
+			judgements: [
+				{ order: "original", outcome: "win", feedback: "First" },
+				{ order: "swapped", outcome: "win", feedback: "Second" },
+			],
+		});
+		expect(result.processingStats.tokenUsage).toEqual({
+			inputTokens: 40,
+			outputTokens: 10,
+			totalTokens: 50,
+		});
+	});
+
+	it("should report a loss when both orderings prefer the comparison", async () => {
+		mockGenerateText
+			.mockResolvedValueOnce(verdict("B"))
+			.mockResolvedValueOnce(verdict("A"));
+
+		const evaluator = new PairwiseEvaluator({
+			name: "helpfulness",
+			model: createMockModel(),
+		});
+
+		const result = await evaluator.evaluate({
+			candidateText: "New answer",
+			comparisonText: "Old answer",
+		});
+
+		expect(result.score).toBe("lose");
+		expect(result.normalizedScore).toBe(0);
+		expect(result.pairwise?.positionConsistent).toBe(true);
+	});
+
+	it("should report a tie and flag disagreement between orderings", async () => {
+		// The judge always prefers whichever response is shown first
+		mockGenerateText
+			.mockResolvedValueOnce(verdict("A"))
+			.mockResolvedValueOnce(verdict("A"));
+
+		const evaluator = new PairwiseEvaluator({
+			name: "helpfulness",
+			model: createMockModel(),
+		});
+
+		const result = await evaluator.evaluate({
+			candidateText: "New answer",
+			comparisonText: "Old answer",
+		});
+
+		expect(result.score).toBe("tie");
+		expect(result.normalizedScore).toBe(0.5);
+		expect(result.pairwise?.positionConsistent).toBe(false);
+		expect(result.pairwise?.judgements.map((j) => j.outcome)).toEqual([
+			"win",
+			"lose",
+		]);
+		expect(result.feedback).toContain("orderings disagreed");
+	});
+
+	it("should render the prompt and reference into a custom template", async () => {
+		mockGenerateText.mockResolvedValue(verdict("tie"));
+
+		const evaluator = new PairwiseEvaluator({
+			name: "accuracy",
+			model: createMockModel(),
+			evaluationPrompt:
+				"Q: {{prompt}}\nRef: {{referenceText}}\n1: {{responseA}}\n2: {{responseB}}",
+		});
+
+		const result = await evaluator.evaluate({
+			candidateText: "Paris",
+			comparisonText: "Lyon",
+			prompt: "Capital of France?",
+			referenceText: "Paris",
+		});
+
+		expect(result.score).toBe("tie");
+		expect(getPrompt(0)).toContain("Q: Capital of France?\nRef: Paris");
+		expect(getPrompt(0)).toContain("1: Paris\n2: Lyon");
+	});
+
+	it("should render declared custom variables", async () => {
+		mockGenerateText.mockResolvedValue(verdict("tie"));
+
+		const evaluator = new PairwiseEvaluator({
+			name: "appeal",
+			model: createMockModel(),
+			evaluationPrompt:
+				"Which suits {{audience}} better?\n1: {{responseA}}\n2: {{responseB}}",
+			customVariables: ["audience"],
+		});
+
+		await evaluator.evaluate({
+			candidateText: "Kids club",
+			comparisonText: "Spa",
+			variables: { audience: "families" },
+		});
+
+		expect(getPrompt(0)).toContain("Which suits families better?");
+	});
+
+	it("should reject custom variables that clash with built-in ones", () => {
+		expect(
+			() =>
+				new PairwiseEvaluator({
+					name: "appeal",
+					model: createMockModel(),
+					customVariables: ["responseA"],
+				}),
+		).toThrow(
+			"Custom variable responseA clashes with a built-in template variable",
+		);
+	});
+
+	it("should return an error result when comparisonText is missing", async () => {
+		const evaluator = new PairwiseEvaluator({
+			name: "helpfulness",
+			model: createMockModel(),
+		});
+
+		const result = await evaluator.evaluate({ candidateText: "Only one" });
+
+		expect(mockGenerateText).not.toHaveBeenCalled();
+		expect(result.error).toContain("requires comparisonText");
+		expect(result.feedback).toContain("Evaluation failed");
+	});
+
+	it("should handle API failures gracefully", async () => {
+		mockGenerateText.mockRejectedValue(new Error("LLM API failed"));
+
+		const evaluator = new PairwiseEvaluator({
+			name: "helpfulness",
+			model: createMockModel(),
+		});
+
+		const result = await evaluator.evaluate({
+			candidateText: "New answer",
+			comparisonText: "Old answer",
+		});
+
+		expect(result.error).toBe("LLM API failed");
+		expect(result.score).toBe(0);
+	});
+});
@@ -0,0 +1,294 @@
+import { generateText, Output } from "ai";
+import { z } from "zod";
+import { type EvalKitSpan, isTelemetryEnabled } from "../telemetry.js";
+import {
+	type EvaluateOptions,
+	type EvaluationInput,
+	type EvaluatorResult,
+	type IEvaluator,
+	type PairwiseEvaluatorConfig,
+	type PairwiseJudgement,
+	type PairwiseOutcome,
+	TemplateVariable,
+	type TokenUsage,
+} from "../types/evaluator.js";
+import { TemplateRenderer } from "../utils/template-engine.js";
+import {
+	extractTokenUsage,
+	setTokenUsageAttributes,
+	sumTokenUsage,
+} from "../utils/token-usage.js";
+import {
+	buildCallSettings,
+	customVariableValues,
+	getModelId,
+	type ModelSettings,
+	traceEvaluation,
+	validateCustomVariables,
+} from "./shared.js";
+
+const DEFAULT_PAIRWISE_PROMPT = `Compare two responses and decide which one is better in terms of {{name}}.
+{{#if prompt}}
+Prompt: {{prompt}}
+{{/if}}
+Response A:
+{{responseA}}
+
+Response B:
+{{responseB}}
+{{#if referenceText}}
+Reference: {{referenceText}}
+{{/if}}
+Judge the content of the responses only. Do not let their order or length influence your decision.`;
+
+const VERDICT_INSTRUCTIONS =
+	'Answer "A" if Response A is better, "B" if Response B is better, or "tie" if they are equally good.';
+
+type Verdict = "A" | "B" | "tie";
+
+const BUILT_IN_VARIABLES = [
+	"prompt",
+	"referenceText",
+	"sourceText",
+	"name",
+	"contentType",
+	"language",
+	"responseA",
+	"responseB",
+];
+
+const NORMALIZED_OUTCOMES: Record<PairwiseOutcome, number> = {
+	win: 1,
+	tie: 0.5,
+	lose: 0,
+};
+
+/**
+ * Compares candidateText against comparisonText with an LLM judge.
+ *
+ * The judge is asked twice, once with the candidates in each position, to
+ * cancel out position bias. If both orderings agree the shared outcome is
+ * reported, otherwise the comparison is reported as a tie and flagged as
+ * position-inconsistent.
+ */
+export class PairwiseEvaluator implements IEvaluator {
+	readonly name: string;
+	readonly timeout?: number;
+
+	private readonly model: PairwiseEvaluatorConfig["model"];
+	private readonly evaluationPrompt: string;
+	private readonly customVariables: readonly string[];
+	private readonly modelSettings?: ModelSettings;
+	private readonly templateRenderer: TemplateRenderer;
+
+	constructor(config: PairwiseEvaluatorConfig) {
+		this.name = config.name;
+		this.timeout = config.timeout;
+
+		this.model = config.model;
+		this.evaluationPrompt = config.evaluationPrompt ?? DEFAULT_PAIRWISE_PROMPT;
+		this.customVariables = config.customVariables ?? [];
+		this.modelSettings = config.modelSettings;
+
+		validateCustomVariables(this.customVariables, BUILT_IN_VARIABLES);
+
+		this.templateRenderer = new TemplateRenderer();
+
+		const templateErrors = this.templateRenderer.validate(
+			this.evaluationPrompt,
+		);
+		if (templateErrors.length > 0) {
+			throw new Error(
+				`Invalid evaluation prompt template: ${templateErrors.join("; ")}`,
+			);
+		}
+		this.checkTemplateVariables();
+	}
+
+	/**
+	 * Reject Evaluator template variables that pairwise prompts do not fill,
+	 * as they would always render empty. The two candidates swap positions
+	 * between judge calls, so they are only available as responseA and
+	 * responseB.
+	 */
+	private checkTemplateVariables(): void {
+		const unsupported = this.templateRenderer
+			.extractVariables(this.evaluationPrompt)
+			.filter(
+				(variable) =>
+					(Object.values(TemplateVariable) as string[]).includes(variable) &&
+					!BUILT_IN_VARIABLES.includes(variable) &&
+					!this.customVariables.includes(variable),
+			);
+		if (unsupported.length > 0) {
+			throw new Error(
+				`Pairwise evaluator ${this.name} does not support template variables ${unsupported.join(", ")}; use responseA and responseB for the two candidates`,
+			);
+		}
+	}
+
+	async evaluate(
+		input: EvaluationInput,
+		options?: EvaluateOptions,
+	): Promise<EvaluatorResult> {
+		const modelId = getModelId(this.model);
+
+		return traceEvaluation(
+			{
+				spanName: "eval-kit.pairwise_evaluator.evaluate",
+				attributes: {
+					"eval_kit.evaluator.name": this.name,
+					"eval_kit.model.id": modelId ?? "unknown",
+					"eval_kit.input.candidate_text_length": input.candidateText.length,
+				},
+				evaluatorName: this.name,
+				modelId,
+				timeout: this.timeout,
+				signal: options?.signal,
+			},
+			(span, signal) => this.executeComparison(input, modelId, span, signal),
+		);
+	}
+
+	private async executeComparison(
+		input: EvaluationInput,
+		modelId: string | undefined,
+		span: EvalKitSpan,
+		abortSignal: AbortSignal | undefined,
+	): Promise<EvaluatorResult> {
+		const startTime = Date.now();
+		const comparisonText = input.comparisonText;
+		if (!comparisonText) {
+			throw new Error(
+				`Pairwise evaluator ${this.name} requires comparisonText in the input`,
+			);
+		}
+
+		const [original, swapped] = await Promise.all([
+			this.judge(input, input.candidateText, comparisonText, abortSignal),
+			this.judge(input, comparisonText, input.candidateText, abortSignal),
+		]);
+
+		const judgements: PairwiseJudgement[] = [
+			{
+				order: "original",
+				outcome: this.toOutcome(original.verdict, "original"),
+				feedback: original.feedback,
+			},
+			{
+				order: "swapped",
+				outcome: this.toOutcome(swapped.verdict, "swapped"),
+				feedback: swapped.feedback,
+			},
+		];
+
+		const positionConsistent = judgements[0].outcome === judgements[1].outcome;
+		const outcome: PairwiseOutcome = positionConsistent
+			? judgements[0].outcome
+			: "tie";
+
+		const executionTime = Date.now() - startTime;
+		const tokenUsage = sumTokenUsage([original.tokenUsage, swapped.tokenUsage]);
+
+		setTokenUsageAttributes(span, tokenUsage);
+		span.setAttribute("eval_kit.result.score", outcome);
+		span.setAttribute(
+			"eval_kit.result.position_consistent",
+			positionConsistent,
+		);
+
+		return {
+			evaluatorName: this.name,
+			model: modelId,
+			score: outcome,
+			normalizedScore: NORMALIZED_OUTCOMES[outcome],
+			feedback: this.formatFeedback(judgements, positionConsistent),
+			processingStats: { executionTime, tokenUsage },
+			pairwise: { outcome, positionConsistent, judgements },
+		};
+	}
+
+	private async judge(
+		input: EvaluationInput,
+		responseA: string,
+		responseB: string,
+		abortSignal: AbortSignal | undefined,
+	): Promise<{
+		verdict: Verdict;
+		feedback: string;
+		tokenUsage: TokenUsage | undefined;
+	}> {
+		const prompt = this.buildPrompt(input, responseA, responseB);
+
+		const result = await generateText({
+			model: this.model,
+			output: Output.object({ schema: this.createSchema() }),
+			prompt,
+			abortSignal,
+			...buildCallSettings(this.modelSettings),
+			experimental_telemetry: { isEnabled: isTelemetryEnabled() },
+		});
+
+		return {
+			verdict: result.output.winner,
+			feedback: result.output.feedback,
+			tokenUsage: extractTokenUsage(result.usage),
+		};
+	}
+
+	private buildPrompt(
+		input: EvaluationInput,
+		responseA: string,
+		responseB: string,
+	): string {
+		const variables = {
+			prompt: input.prompt ?? "",
+			referenceText: input.referenceText ?? "",
+			sourceText: input.sourceText ?? "",
+			name: this.name,
+			contentType: input.contentType ?? "",
+			language: input.language ?? "",
+			responseA,
+			responseB,
+			...customVariableValues(this.customVariables, input),
+		};
+		return `${this.templateRenderer.render(this.evaluationPrompt, variables)}\n\n${VERDICT_INSTRUCTIONS}`;
+	}
+
+	private createSchema() {
+		return z.object({
+			winner: z
+				.enum(["A", "B", "tie"])
+				.describe("Which response is better: A, B or tie"),
+			feedback: z.string().describe("Explanation of the decision"),
+		});
+	}
+
+	/**
+	 * Translate a positional verdict into an outcome for candidateText
+	 */
+	private toOutcome(
+		verdict: Verdict,
+		order: PairwiseJudgement["order"],
+	): PairwiseOutcome {
+		if (verdict === "tie") return "tie";
+		const candidatePosition = order === "original" ? "A" : "B";
+		return verdict === candidatePosition ? "win" : "lose";
+	}
+
+	private formatFeedback(
+		judgements: readonly PairwiseJudgement[],
+		positionConsistent: boolean,
+	): string {
+		const lines = judgements.map(
+			(judgement) =>
+				`[${judgement.order} order: ${judgement.outcome}] ${judgement.feedback}`,
+		);
+		if (!positionConsistent) {
+			lines.unshift(
+				"The two orderings disagreed, so the comparison is reported as a tie.",
+			);
+		}
+		return lines.join("\n");
+	}
+}
@@ -0,0 +1,183 @@
+import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+import type { LanguageModel } from "ai";
+
+// Mock the ai module before importing the presets
+const mockGenerateText = jest.fn();
+jest.unstable_mockModule("ai", () => ({
+	generateText: mockGenerateText,
+	Output: {
+		object: jest.fn((output) => ({ type: "object", ...output })),
+	},
+}));
+
+const { Evaluators } = await import("./presets.js");
+
+const model = {
+	specificationVersion: "v1",
+	provider: "mock",
+	modelId: "mock-model",
+} as unknown as LanguageModel;
+
+const getPrompt = () =>
+	(mockGenerateText.mock.calls[0][0] as { prompt: string }).prompt;
+
+describe("Evaluators", () => {
+	beforeEach(() => {
+		mockGenerateText.mockReset();
+		mockGenerateText.mockResolvedValue({
+			output: { score: 4, feedback: "Good" },
+			usage: undefined,
+		});
+	});
+
+	it("should name each preset", () => {
+		expect(Evaluators.faithfulness(model).name).toBe("faithfulness");
+		expect(Evaluators.answerRelevance(model).name).toBe("answer_relevance");
+		expect(Evaluators.fluency(model).name).toBe("fluency");
+		expect(Evaluators.toxicity(model).name).toBe("toxicity");
+		expect(
+			Evaluators.brandTone(model, { guidelines: "Warm and playful" }).name,
+		).toBe("brand_tone");
+		expect(Evaluators.translationAdequacy(model).name).toBe(
+			"translation_adequacy",
+		);
+		expect(Evaluators.agentTrajectory(model).name).toBe("agent_trajectory");
+	});
+
+	it("should allow the name to be overridden", () => {
+		expect(Evaluators.fluency(model, { name: "fluency_de" }).name).toBe(
+			"fluency_de",
+		);
+	});
+
+	describe("faithfulness", () => {
+		it("should judge the text against the source on a 1-5 scale", async () => {
+			const result = await Evaluators.faithfulness(model).evaluate({
+				candidateText: "Paris is in Germany.",
+				sourceText: "Paris is the capital of France.",
+			});
+
+			expect(result.score).toBe(4);
+			expect(result.normalizedScore).toBe(0.75);
+			const prompt = getPrompt();
+			expect(prompt).toContain("Paris is the capital of France.");
+			expect(prompt).toContain("Paris is in Germany.");
+			expect(prompt).toContain("score from 1 to 5");
+		});
+
+		it("should fail without a source text", async () => {
+			const result = await Evaluators.faithfulness(model).evaluate({
+				candidateText: "Paris is in Germany.",
+			});
+
+			expect(result.error).toContain("requires sourceText");
+			expect(mockGenerateText).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("answerRelevance", () => {
+		it("should fail without a prompt", async () => {
+			const result = await Evaluators.answerRelevance(model).evaluate({
+				candidateText: "It is sunny.",
+			});
+
+			expect(result.error).toContain("requires prompt");
+		});
+	});
+
+	describe("toxicity", () => {
+		it("should score non-toxic text as fully acceptable", async () => {
+			mockGenerateText.mockResolvedValue({
+				output: { score: "none", feedback: "Polite" },
+				usage: undefined,
+			});
+
+			const result = await Evaluators.toxicity(model).evaluate({
+				candidateText: "Thanks for your help!",
+			});
+
+			expect(result.score).toBe("none");
+			expect(result.normalizedScore).toBe(1);
+		});
+	});
+
+	describe("brandTone", () => {
+		it("should include the guidelines in the prompt", async () => {
+			await Evaluators.brandTone(model, {
+				guidelines: "Warm, playful, never uses $& jargon",
+			}).evaluate({ candidateText: "Book now!" });
+
+			expect(getPrompt()).toContain("Warm, playful, never uses $& jargon");
+		});
+
+		it("should render guidelines as a value rather than template text", async () => {
+			await Evaluators.brandTone(model, {
+				guidelines: "Mention {{destination}} by name",
+			}).evaluate({
+				candidateText: "Book now!",
+				variables: { destination: "Crete", guidelines: "Formal" },
+			});
+
+			expect(getPrompt()).toContain("Mention {{destination}} by name");
+			expect(getPrompt()).not.toContain("Formal");
+		});
+
+		it("should keep its guidelines with strict variables", () => {
+			const evaluator = Evaluators.brandTone(model, {
+				guidelines: "Warm and playful",
+				strictVariables: true,
+			});
+
+			expect(evaluator.missingVariables({ candidateText: "Hi" })).toEqual([]);
+		});
+
+		it("should require guidelines", () => {
+			expect(() => Evaluators.brandTone(model, { guidelines: " " })).toThrow(
+				"brandTone requires non-empty guidelines",
+			);
+		});
+	});
+
+	describe("agentTrajectory", () => {
+		it("should show the tool calls and the reference solution", async () => {
+			await Evaluators.agentTrajectory(model).evaluate({
+				candidateText: "It is 18°C in Paris.",
+				prompt: "What's the weather in Paris?",
+				trajectory: [
+					{ tool: "search", arguments: { query: "weather paris" } },
+					{ tool: "get_weather", arguments: { city: "Paris" }, output: "18°C" },
+				],
+				expectedTrajectory: [
+					{ tool: "get_weather", arguments: { city: "Paris" } },
+				],
+			});
+
+			const prompt = getPrompt();
+			expect(prompt).toContain('1. search({"query":"weather paris"})');
+			expect(prompt).toContain("   Output: 18°C");
+			expect(prompt).toContain("A reference solution made these calls:");
+			expect(prompt).toContain("It is 18°C in Paris.");
+		});
+
+		it("should fail without a trajectory", async () => {
+			const result = await Evaluators.agentTrajectory(model).evaluate({
+				candidateText: "It is 18°C in Paris.",
+			});
+
+			expect(result.error).toContain("requires trajectory");
+			expect(mockGenerateText).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("translationAdequacy", () => {
+		it("should include the target language when set", async () => {
+			await Evaluators.translationAdequacy(model).evaluate({
+				candidateText: "Bonjour le monde",
+				sourceText: "Hello world",
+				language: "French",
+			});
+
+			expect(getPrompt()).toContain("Translation (French):");
+		});
+	});
+});
@@ -0,0 +1,215 @@
+import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+import type { LanguageModel } from "ai";
+
+// Mock the ai module before importing the RAG evaluators
+const mockGenerateText = jest.fn<(options: unknown) => Promise<unknown>>();
+jest.unstable_mockModule("ai", () => ({
+	generateText: mockGenerateText,
+	Output: {
+		object: jest.fn((output) => ({ type: "object", ...output })),
+	},
+}));
+
+// Import after mocking
+const {
+	ContextRecallEvaluator,
+	ContextRelevanceEvaluator,
+	GroundednessEvaluator,
+} = await import("./rag-evaluators.js");
+
+const model = {
+	specificationVersion: "v1",
+	provider: "mock",
+	modelId: "mock-model",
+	defaultObjectGenerationMode: "json",
+} as unknown as LanguageModel;
+
+const usage = { inputTokens: 20, outputTokens: 5, totalTokens: 25 };
+
+const getPrompt = (callIndex: number): string =>
+	(mockGenerateText.mock.calls[callIndex][0] as { prompt: string }).prompt;
+
+const contexts = [
+	"The hotel has an outdoor pool.",
+	"Rome is the capital of Italy.",
+	"Breakfast is served from 7am.",
+];
+
+describe("RAG evaluators", () => {
+	beforeEach(() => {
+		mockGenerateText.mockReset();
+	});
+
+	describe("ContextRelevanceEvaluator", () => {
+		const relevance = (...verdicts: ("relevant" | "irrelevant")[]) => ({
+			output: {
+				passages: verdicts.map((verdict) => ({
+					verdict,
+					explanation: `It is ${verdict}`,
+				})),
+			},
+			usage,
+		});
+
+		it("should return a verdict per chunk and score the average precision", async () => {
+			mockGenerateText.mockResolvedValueOnce(
+				relevance("relevant", "irrelevant", "relevant"),
+			);
+
+			const evaluator = new ContextRelevanceEvaluator({
+				name: "context_relevance",
+				model,
+			});
+			const result = await evaluator.evaluate({
+				candidateText: "",
+				prompt: "Does the hotel have a pool and breakfast?",
+				contexts,
+			});
+
+			expect(result.error).toBeUndefined();
+			// (1/1 + 2/3) / 2
+			expect(result.score).toBeCloseTo(5 / 6);
+			expect(result.contexts).toEqual([
+				{ index: 0, verdict: "relevant", explanation: "It is relevant" },
+				{ index: 1, verdict: "irrelevant", explanation: "It is irrelevant" },
+				{ index: 2, verdict: "relevant", explanation: "It is relevant" },
+			]);
+			expect(result.feedback).toContain("2 of 3 retrieved passages");
+			const prompt = getPrompt(0);
+			expect(prompt).toContain("Question:\nDoes the hotel have a pool");
+			expect(prompt).toContain("[2] Rome is the capital of Italy.");
+		});
+
+		it("should score 0 when no chunk is relevant", async () => {
+			mockGenerateText.mockResolvedValueOnce(relevance("irrelevant"));
+
+			const evaluator = new ContextRelevanceEvaluator({
+				name: "context_relevance",
+				model,
+			});
+			const result = await evaluator.evaluate({
+				candidateText: "",
+				prompt: "Is there a gym?",
+				contexts: contexts.slice(0, 1),
+			});
+
+			expect(result.score).toBe(0);
+		});
+
+		it("should require a prompt and contexts", async () => {
+			const evaluator = new ContextRelevanceEvaluator({
+				name: "context_relevance",
+				model,
+			});
+
+			const withoutContexts = await evaluator.evaluate({
+				candidateText: "",
+				prompt: "Is there a gym?",
+			});
+			const withoutPrompt = await evaluator.evaluate({
+				candidateText: "",
+				contexts,
+			});
+
+			expect(withoutContexts.error).toContain("requires contexts");
+			expect(withoutPrompt.error).toContain("requires prompt");
+			expect(mockGenerateText).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("GroundednessEvaluator", () => {
+		it("should verify answer claims against the chunks and mark the chunks used", async () => {
+			mockGenerateText
+				.mockResolvedValueOnce({
+					output: { claims: ["The hotel has a pool.", "Parking is free."] },
+					usage,
+				})
+				.mockResolvedValueOnce({
+					output: {
+						verdicts: [
+							{ verdict: "supported", explanation: "Chunk 1", passages: [1] },
+							{ verdict: "not_found", explanation: "No chunk", passages: [] },
+						],
+					},
+					usage,
+				});
+
+			const evaluator = new GroundednessEvaluator({
+				name: "groundedness",
+				model,
+			});
+			const result = await evaluator.evaluate({
+				candidateText: "The hotel has a pool and free parking.",
+				contexts,
+			});
+
+			expect(result.score).toBe(0.5);
+			expect(result.claims?.[0]).toEqual({
+				claim: "The hotel has a pool.",
+				verdict: "supported",
+				explanation: "Chunk 1",
+				contexts: [0],
+			});
+			expect(result.contexts?.map((context) => context.verdict)).toEqual([
+				"relevant",
+				"irrelevant",
+				"irrelevant",
+			]);
+			expect(result.contexts?.[0].explanation).toBe("Supports claims 1");
+			expect(getPrompt(0)).toContain("The hotel has a pool and free parking.");
+			expect(getPrompt(1)).toContain("[3] Breakfast is served from 7am.");
+			expect(result.processingStats.tokenUsage?.totalTokens).toBe(50);
+		});
+	});
+
+	describe("ContextRecallEvaluator", () => {
+		it("should verify reference claims against the chunks", async () => {
+			mockGenerateText
+				.mockResolvedValueOnce({
+					output: { claims: ["Breakfast starts at 7am."] },
+					usage,
+				})
+				.mockResolvedValueOnce({
+					output: {
+						verdicts: [
+							{
+								verdict: "supported",
+								explanation: "Chunk 3",
+								passages: [3, 9],
+							},
+						],
+					},
+					usage,
+				});
+
+			const evaluator = new ContextRecallEvaluator({
+				name: "context_recall",
+				model,
+			});
+			const result = await evaluator.evaluate({
+				candidateText: "Breakfast is at 7.",
+				referenceText: "Breakfast starts at 7am.",
+				contexts,
+			});
+
+			expect(result.score).toBe(1);
+			// Out-of-range citations are dropped
+			expect(result.claims?.[0].contexts).toEqual([2]);
+			expect(result.contexts?.[2].verdict).toBe("relevant");
+			expect(getPrompt(0)).toContain("Text:\nBreakfast starts at 7am.");
+		});
+
+		it("should require a reference text", async () => {
+			const evaluator = new ContextRecallEvaluator({
+				name: "context_recall",
+				model,
+			});
+			const result = await evaluator.evaluate({
+				candidateText: "Breakfast is at 7.",
+				contexts,
+			});
+
+			expect(result.error).toContain("requires referenceText");
+		});
+	});
+});
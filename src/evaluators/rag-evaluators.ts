@@ -0,0 +1,390 @@
+import { generateText, Output } from "ai";
+import { z } from "zod";
+import { type EvalKitSpan, isTelemetryEnabled } from "../telemetry.js";
+import type {
+	ClaimVerification,
+	ContextVerdict,
+	EvaluateOptions,
+	EvaluationInput,
+	EvaluatorResult,
+	IEvaluator,
+	RagEvaluatorConfig,
+} from "../types/evaluator.js";
+import {
+	extractTokenUsage,
+	setTokenUsageAttributes,
+	sumTokenUsage,
+} from "../utils/token-usage.js";
+import {
+	type ClaimJudge,
+	extractClaims,
+	formatClaimFeedback,
+	supportedRatio,
+	verifyClaims,
+} from "./claims.js";
+import {
+	buildCallSettings,
+	getModelId,
+	type ModelSettings,
+	traceEvaluation,
+} from "./shared.js";
+
+const RELEVANCE_INSTRUCTIONS = `Decide whether each retrieved passage below is relevant to answering the question.
+
+A passage is "relevant" if it contains information needed to answer the question, and "irrelevant" otherwise. Judge each passage on its own. Return one verdict per passage, in the order given.`;
+
+const relevanceSchema = z.object({
+	passages: z
+		.array(
+			z.object({
+				verdict: z
+					.enum(["relevant", "irrelevant"])
+					.describe("Whether the passage helps answer the question"),
+				explanation: z
+					.string()
+					.describe("Why the passage is or is not relevant"),
+			}),
+		)
+		.describe("One verdict per passage, in the same order as the passages"),
+});
+
+function requireContexts(
+	input: EvaluationInput,
+	evaluatorName: string,
+): readonly string[] {
+	if (!input.contexts?.length) {
+		throw new Error(
+			`RAG evaluator ${evaluatorName} requires contexts in the input`,
+		);
+	}
+	return input.contexts;
+}
+
+function traceRagEvaluation(
+	evaluator: { name: string; timeout?: number },
+	spanName: string,
+	input: EvaluationInput,
+	modelId: string | undefined,
+	options: EvaluateOptions | undefined,
+	execute: (
+		span: EvalKitSpan,
+		signal: AbortSignal | undefined,
+	) => Promise<EvaluatorResult>,
+): Promise<EvaluatorResult> {
+	return traceEvaluation(
+		{
+			spanName,
+			attributes: {
+				"eval_kit.evaluator.name": evaluator.name,
+				"eval_kit.model.id": modelId ?? "unknown",
+				"eval_kit.input.context_count": input.contexts?.length ?? 0,
+			},
+			evaluatorName: evaluator.name,
+			modelId,
+			timeout: evaluator.timeout,
+			signal: options?.signal,
+		},
+		execute,
+	);
+}
+
+/**
+ * A chunk is relevant when it supports at least one claim
+ */
+function contextVerdictsFromClaims(
+	verifications: readonly ClaimVerification[],
+	contextCount: number,
+): ContextVerdict[] {
+	return Array.from({ length: contextCount }, (_, index) => {
+		const supported = verifications.flatMap((verification, claimIndex) =>
+			verification.verdict === "supported" &&
+			verification.contexts?.includes(index)
+				? [claimIndex + 1]
+				: [],
+		);
+		return {
+			index,
+			verdict: supported.length > 0 ? "relevant" : "irrelevant",
+			explanation:
+				supported.length > 0
+					? `Supports claims ${supported.join(", ")}`
+					: "Supports none of the claims",
+		};
+	});
+}
+
+/**
+ * Extract claims from text and check them against the retrieved chunks
+ */
+async function scoreClaimsAgainstContexts(options: {
+	evaluatorName: string;
+	text: string;
+	contexts: readonly string[];
+	judge: ClaimJudge;
+	modelId: string | undefined;
+	span: EvalKitSpan;
+	emptyMessage: string;
+}): Promise<EvaluatorResult> {
+	const startTime = Date.now();
+	const extraction = await extractClaims(options.text, options.judge);
+	const verification = await verifyClaims(
+		extraction.claims,
+		options.contexts,
+		options.judge,
+	);
+	const { verifications } = verification;
+	const contexts = contextVerdictsFromClaims(
+		verifications,
+		options.contexts.length,
+	);
+	const score = supportedRatio(verifications);
+	const tokenUsage = sumTokenUsage([
+		extraction.tokenUsage,
+		verification.tokenUsage,
+	]);
+
+	setTokenUsageAttributes(options.span, tokenUsage);
+	options.span.setAttribute("eval_kit.result.score", score);
+	options.span.setAttribute("eval_kit.claims.total", verifications.length);
+
+	return {
+		evaluatorName: options.evaluatorName,
+		model: options.modelId,
+		score,
+		normalizedScore: score,
+		feedback: formatClaimFeedback(verifications, options.emptyMessage),
+		processingStats: {
+			executionTime: Date.now() - startTime,
+			tokenUsage,
+		},
+		claims: verifications,
+		contexts,
+	};
+}
+
+/**
+ * Context precision: whether each retrieved chunk is relevant to the
+ * question in prompt.
+ *
+ * The score is the average precision of the ranking, so relevant chunks
+ * retrieved near the top count for more than relevant chunks further down.
+ * It is 0 when no chunk is relevant.
+ */
+export class ContextRelevanceEvaluator implements IEvaluator {
+	readonly name: string;
+	readonly timeout?: number;
+
+	private readonly model: RagEvaluatorConfig["model"];
+	private readonly modelSettings?: ModelSettings;
+
+	constructor(config: RagEvaluatorConfig) {
+		this.name = config.name;
+		this.timeout = config.timeout;
+
+		this.model = config.model;
+		this.modelSettings = config.modelSettings;
+	}
+
+	async evaluate(
+		input: EvaluationInput,
+		options?: EvaluateOptions,
+	): Promise<EvaluatorResult> {
+		const modelId = getModelId(this.model);
+
+		return traceRagEvaluation(
+			this,
+			"eval-kit.context_relevance_evaluator.evaluate",
+			input,
+			modelId,
+			options,
+			(span, signal) => this.executeRelevance(input, modelId, span, signal),
+		);
+	}
+
+	private async executeRelevance(
+		input: EvaluationInput,
+		modelId: string | undefined,
+		span: EvalKitSpan,
+		abortSignal: AbortSignal | undefined,
+	): Promise<EvaluatorResult> {
+		const startTime = Date.now();
+		const contexts = requireContexts(input, this.name);
+		if (!input.prompt) {
+			throw new Error(
+				`RAG evaluator ${this.name} requires prompt in the input`,
+			);
+		}
+
+		const passages = contexts
+			.map((context, index) => `[${index + 1}] ${context}`)
+			.join("\n\n");
+		const result = await generateText({
+			model: this.model,
+			output: Output.object({ schema: relevanceSchema }),
+			prompt: `${RELEVANCE_INSTRUCTIONS}\n\nQuestion:\n${input.prompt}\n\nPassages:\n${passages}`,
+			abortSignal,
+			...buildCallSettings(this.modelSettings),
+			experimental_telemetry: { isEnabled: isTelemetryEnabled() },
+		});
+
+		const verdicts = result.output.passages;
+		if (verdicts.length !== contexts.length) {
+			throw new Error(
+				`Expected ${contexts.length} passage verdicts but the judge returned ${verdicts.length}`,
+			);
+		}
+
+		const contextVerdicts: ContextVerdict[] = verdicts.map(
+			({ verdict, explanation }, index) => ({ index, verdict, explanation }),
+		);
+		const score = averagePrecision(contextVerdicts);
+		const relevant = contextVerdicts.filter(
+			(context) => context.verdict === "relevant",
+		).length;
+		const tokenUsage = extractTokenUsage(result.usage);
+
+		setTokenUsageAttributes(span, tokenUsage);
+		span.setAttribute("eval_kit.result.score", score);
+		span.setAttribute("eval_kit.contexts.relevant", relevant);
+
+		return {
+			evaluatorName: this.name,
+			model: modelId,
+			score,
+			normalizedScore: score,
+			feedback: [
+				`${relevant} of ${contexts.length} retrieved passages are relevant to the question.`,
+				...contextVerdicts.map(
+					(context) =>
+						`[${context.index + 1}: ${context.verdict}] ${context.explanation}`,
+				),
+			].join("\n"),
+			processingStats: {
+				executionTime: Date.now() - startTime,
+				tokenUsage,
+			},
+			contexts: contextVerdicts,
+		};
+	}
+}
+
+/**
+ * Mean of precision@k over the ranks k that hold a relevant chunk
+ */
+function averagePrecision(verdicts: readonly ContextVerdict[]): number {
+	let relevantSoFar = 0;
+	let precisionSum = 0;
+	verdicts.forEach((context, index) => {
+		if (context.verdict === "relevant") {
+			relevantSoFar++;
+			precisionSum += relevantSoFar / (index + 1);
+		}
+	});
+	return relevantSoFar > 0 ? precisionSum / relevantSoFar : 0;
+}
+
+/**
+ * Groundedness: the share of claims in candidateText that the retrieved
+ * chunks support. Chunks that support no claim are marked irrelevant.
+ */
+export class GroundednessEvaluator implements IEvaluator {
+	readonly name: string;
+	readonly timeout?: number;
+
+	private readonly model: RagEvaluatorConfig["model"];
+	private readonly modelSettings?: ModelSettings;
+
+	constructor(config: RagEvaluatorConfig) {
+		this.name = config.name;
+		this.timeout = config.timeout;
+
+		this.model = config.model;
+		this.modelSettings = config.modelSettings;
+	}
+
+	async evaluate(
+		input: EvaluationInput,
+		options?: EvaluateOptions,
+	): Promise<EvaluatorResult> {
+		const modelId = getModelId(this.model);
+
+		return traceRagEvaluation(
+			this,
+			"eval-kit.groundedness_evaluator.evaluate",
+			input,
+			modelId,
+			options,
+			(span, abortSignal) =>
+				scoreClaimsAgainstContexts({
+					evaluatorName: this.name,
+					text: input.candidateText,
+					contexts: requireContexts(input, this.name),
+					judge: {
+						model: this.model,
+						modelSettings: this.modelSettings,
+						abortSignal,
+					},
+					modelId,
+					span,
+					emptyMessage: "The answer makes no factual claims.",
+				}),
+		);
+	}
+}
+
+/**
+ * Context recall: the share of claims in referenceText that the retrieved
+ * chunks support, i.e. how much of what a correct answer needs was retrieved.
+ */
+export class ContextRecallEvaluator implements IEvaluator {
+	readonly name: string;
+	readonly timeout?: number;
+
+	private readonly model: RagEvaluatorConfig["model"];
+	private readonly modelSettings?: ModelSettings;
+
+	constructor(config: RagEvaluatorConfig) {
+		this.name = config.name;
+		this.timeout = config.timeout;
+
+		this.model = config.model;
+		this.modelSettings = config.modelSettings;
+	}
+
+	async evaluate(
+		input: EvaluationInput,
+		options?: EvaluateOptions,
+	): Promise<EvaluatorResult> {
+		const modelId = getModelId(this.model);
+
+		return traceRagEvaluation(
+			this,
+			"eval-kit.context_recall_evaluator.evaluate",
+			input,
+			modelId,
+			options,
+			async (span, abortSignal) => {
+				const contexts = requireContexts(input, this.name);
+				if (!input.referenceText) {
+					throw new Error(
+						`RAG evaluator ${this.name} requires referenceText in the input`,
+					);
+				}
+
+				return scoreClaimsAgainstContexts({
+					evaluatorName: this.name,
+					text: input.referenceText,
+					contexts,
+					judge: {
+						model: this.model,
+						modelSettings: this.modelSettings,
+						abortSignal,
+					},
+					modelId,
+					span,
+					emptyMessage: "The reference makes no factual claims.",
+				});
+			},
+		);
+	}
+}
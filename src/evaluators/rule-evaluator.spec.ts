@@ -0,0 +1,175 @@
+import { describe, expect, it } from "@jest/globals";
+import { RuleEvaluator, Rules } from "./rule-evaluator.js";
+
+describe("Rules", () => {
+	const input = { candidateText: "" };
+
+	it("should limit length in characters or words", () => {
+		expect(Rules.maxLength(5).check("Hello world", input)).toBe(
+			"11 characters, over the limit of 5",
+		);
+		expect(
+			Rules.maxLength(2, { unit: "words" }).check(" Hello  world ", input),
+		).toBeUndefined();
+		expect(Rules.minLength(3, { unit: "words" }).check("Hi there", input)).toBe(
+			"2 words, under the minimum of 3",
+		);
+	});
+
+	it("should list missing keywords, ignoring case by default", () => {
+		const rule = Rules.requiredKeywords(["Pool", "parking"]);
+
+		expect(rule.check("Has a pool", input)).toBe("Missing keywords: parking");
+		expect(
+			Rules.requiredKeywords(["Pool"], { caseSensitive: true }).check(
+				"Has a pool",
+				input,
+			),
+		).toBe("Missing keywords: Pool");
+	});
+
+	it("should list banned phrases found", () => {
+		expect(
+			Rules.bannedPhrases(["cheap", "guaranteed"]).check(
+				"Cheap flights, guaranteed!",
+				input,
+			),
+		).toBe("Contains banned phrases: cheap, guaranteed");
+	});
+
+	it("should check patterns both ways", () => {
+		const price = /£\d+/g;
+
+		expect(Rules.pattern(price).check("From £99", input)).toBeUndefined();
+		// A global pattern gives the same answer on every call
+		expect(Rules.pattern(price).check("From £99", input)).toBeUndefined();
+		expect(Rules.pattern(price).check("From 99", input)).toBe(
+			"Does not match /£\\d+/g",
+		);
+		expect(
+			Rules.pattern(/\bTODO\b/, { mustMatch: false, name: "no_todo" }).check(
+				"TODO: write copy",
+				input,
+			),
+		).toBe("Matches /\\bTODO\\b/");
+	});
+
+	it("should find URLs", () => {
+		expect(
+			Rules.noUrls().check(
+				"See https://example.com/deals or www.example.org",
+				input,
+			),
+		).toBe("Contains URLs: https://example.com/deals, www.example.org");
+		expect(Rules.noUrls().check("Book at www.example.com.", input)).toBe(
+			"Contains URLs: www.example.com",
+		);
+		expect(Rules.noUrls().check("No links here.", input)).toBeUndefined();
+	});
+});
+
+describe("RuleEvaluator", () => {
+	const rules = [
+		Rules.maxLength(20),
+		Rules.bannedPhrases(["cheap"]),
+		Rules.noUrls(),
+	];
+
+	it("should pass when every rule passes", async () => {
+		const evaluator = new RuleEvaluator({ name: "copy_rules", rules });
+
+		const result = await evaluator.evaluate({ candidateText: "Sunny breaks" });
+
+		expect(result.score).toBe("pass");
+		expect(result.normalizedScore).toBe(1);
+		expect(result.feedback).toBe("All 3 rules passed.");
+		expect(result.processingStats.tokenUsage).toBeUndefined();
+	});
+
+	it("should fail and name each violated rule", async () => {
+		const evaluator = new RuleEvaluator({ name: "copy_rules", rules });
+
+		const result = await evaluator.evaluate({
+			candidateText: "Cheap breaks at www.example.com",
+		});
+
+		expect(result.score).toBe("fail");
+		expect(result.normalizedScore).toBe(0);
+		expect(result.feedback).toBe(
+			"[max_length] 31 characters, over the limit of 20\n[banned_phrases] Contains banned phrases: cheap\n[no_urls] Contains URLs: www.example.com",
+		);
+		expect(result.rules?.map((rule) => rule.passed)).toEqual([
+			false,
+			false,
+			false,
+		]);
+	});
+
+	it("should score the share of rules passed with fraction scoring", async () => {
+		const evaluator = new RuleEvaluator({
+			name: "copy_rules",
+			rules,
+			scoring: "fraction",
+		});
+
+		const result = await evaluator.evaluate({
+			candidateText: "Cheap sunny breaks",
+		});
+
+		expect(result.score).toBeCloseTo(2 / 3);
+		expect(result.normalizedScore).toBeCloseTo(2 / 3);
+		expect(result.rules?.[1]).toEqual({
+			rule: "banned_phrases",
+			passed: false,
+			message: "Contains banned phrases: cheap",
+		});
+	});
+
+	it("should pass the whole input to custom rules", async () => {
+		const evaluator = new RuleEvaluator({
+			name: "mentions_destination",
+			rules: [
+				{
+					name: "mentions_destination",
+					check: (text, input) =>
+						input.referenceText && !text.includes(input.referenceText)
+							? `Does not mention ${input.referenceText}`
+							: undefined,
+				},
+			],
+		});
+
+		const result = await evaluator.evaluate({
+			candidateText: "Sunny breaks",
+			referenceText: "Majorca",
+		});
+
+		expect(result.feedback).toBe(
+			"[mentions_destination] Does not mention Majorca",
+		);
+	});
+
+	it("should return an error result when a rule throws", async () => {
+		const evaluator = new RuleEvaluator({
+			name: "broken",
+			rules: [
+				{
+					name: "broken",
+					check: () => {
+						throw new Error("Rule failed to run");
+					},
+				},
+			],
+		});
+
+		const result = await evaluator.evaluate({ candidateText: "Hi" });
+
+		expect(result.error).toContain("Rule failed to run");
+	});
+
+	it("should require at least one rule", () => {
+		expect(() => new RuleEvaluator({ name: "empty", rules: [] })).toThrow(
+			"RuleEvaluator empty requires at least one rule",
+		);
+	});
+});
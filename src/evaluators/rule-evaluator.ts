@@ -0,0 +1,232 @@
+import type { EvalKitSpan } from "../telemetry.js";
+import type {
+	EvaluateOptions,
+	EvaluationInput,
+	EvaluatorResult,
+	IEvaluator,
+	Rule,
+	RuleEvaluatorConfig,
+	RuleResult,
+	RuleScoring,
+} from "../types/evaluator.js";
+import { traceEvaluation } from "./shared.js";
+
+export interface LengthRuleOptions {
+	unit?: "characters" | "words"; // Default: "characters"
+	name?: string;
+}
+
+export interface PhraseRuleOptions {
+	caseSensitive?: boolean; // Default: false
+	name?: string;
+}
+
+export interface PatternRuleOptions {
+	mustMatch?: boolean; // false fails the text when the pattern matches. Default: true
+	name?: string;
+}
+
+// Trailing punctuation is left out, so "see www.example.com." reports the bare link
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>"']*[^\s<>"'.,;:!?)]/gi;
+
+function measureLength(text: string, unit: LengthRuleOptions["unit"]): number {
+	return unit === "words"
+		? text.split(/\s+/).filter((word) => word.length > 0).length
+		: text.length;
+}
+
+function findPhrases(
+	text: string,
+	phrases: readonly string[],
+	caseSensitive: boolean | undefined,
+): string[] {
+	const haystack = caseSensitive ? text : text.toLowerCase();
+	return phrases.filter((phrase) =>
+		haystack.includes(caseSensitive ? phrase : phrase.toLowerCase()),
+	);
+}
+
+/**
+ * Factories for common deterministic checks, for use with RuleEvaluator
+ */
+export const Rules = {
+	/**
+	 * Fails text longer than max characters or words
+	 */
+	maxLength: (max: number, options?: LengthRuleOptions): Rule => {
+		const unit = options?.unit ?? "characters";
+		return {
+			name: options?.name ?? "max_length",
+			check: (text) => {
+				const length = measureLength(text, unit);
+				return length > max
+					? `${length} ${unit}, over the limit of ${max}`
+					: undefined;
+			},
+		};
+	},
+
+	/**
+	 * Fails text shorter than min characters or words
+	 */
+	minLength: (min: number, options?: LengthRuleOptions): Rule => {
+		const unit = options?.unit ?? "characters";
+		return {
+			name: options?.name ?? "min_length",
+			check: (text) => {
+				const length = measureLength(text, unit);
+				return length < min
+					? `${length} ${unit}, under the minimum of ${min}`
+					: undefined;
+			},
+		};
+	},
+
+	/**
+	 * Fails text that does not contain every keyword
+	 */
+	requiredKeywords: (
+		keywords: readonly string[],
+		options?: PhraseRuleOptions,
+	): Rule => ({
+		name: options?.name ?? "required_keywords",
+		check: (text) => {
+			const found = findPhrases(text, keywords, options?.caseSensitive);
+			const missing = keywords.filter((keyword) => !found.includes(keyword));
+			return missing.length > 0
+				? `Missing keywords: ${missing.join(", ")}`
+				: undefined;
+		},
+	}),
+
+	/**
+	 * Fails text that contains any of the phrases
+	 */
+	bannedPhrases: (
+		phrases: readonly string[],
+		options?: PhraseRuleOptions,
+	): Rule => ({
+		name: options?.name ?? "banned_phrases",
+		check: (text) => {
+			const found = findPhrases(text, phrases, options?.caseSensitive);
+			return found.length > 0
+				? `Contains banned phrases: ${found.join(", ")}`
+				: undefined;
+		},
+	}),
+
+	/**
+	 * Fails text that does not match the pattern, or that matches it when
+	 * mustMatch is false
+	 */
+	pattern: (pattern: RegExp, options?: PatternRuleOptions): Rule => {
+		const mustMatch = options?.mustMatch ?? true;
+		return {
+			name: options?.name ?? "pattern",
+			check: (text) => {
+				// search ignores the g flag and lastIndex, so repeated checks agree
+				const matches = text.search(pattern) !== -1;
+				if (matches === mustMatch) return undefined;
+				return mustMatch ? `Does not match ${pattern}` : `Matches ${pattern}`;
+			},
+		};
+	},
+
+	/**
+	 * Fails text that contains http(s) or www. links
+	 */
+	noUrls: (options?: { name?: string }): Rule => ({
+		name: options?.name ?? "no_urls",
+		check: (text) => {
+			const urls = text.match(URL_PATTERN);
+			return urls ? `Contains URLs: ${urls.join(", ")}` : undefined;
+		},
+	}),
+};
+
+/**
+ * Runs deterministic rules against candidateText without calling a model.
+ *
+ * With "pass_fail" scoring the score is "pass" when every rule passes and
+ * "fail" otherwise; with "fraction" it is the share of rules that pass.
+ * The feedback names each violated rule.
+ */
+export class RuleEvaluator implements IEvaluator {
+	readonly name: string;
+
+	private readonly rules: readonly Rule[];
+	private readonly scoring: RuleScoring;
+
+	constructor(config: RuleEvaluatorConfig) {
+		if (config.rules.length === 0) {
+			throw new Error(
+				`RuleEvaluator ${config.name} requires at least one rule`,
+			);
+		}
+
+		this.name = config.name;
+		this.rules = config.rules;
+		this.scoring = config.scoring ?? "pass_fail";
+	}
+
+	async evaluate(
+		input: EvaluationInput,
+		options?: EvaluateOptions,
+	): Promise<EvaluatorResult> {
+		return traceEvaluation(
+			{
+				spanName: "eval-kit.rule_evaluator.evaluate",
+				attributes: {
+					"eval_kit.evaluator.name": this.name,
+					"eval_kit.input.candidate_text_length": input.candidateText.length,
+					"eval_kit.rules.total": this.rules.length,
+				},
+				evaluatorName: this.name,
+				modelId: undefined,
+				signal: options?.signal,
+			},
+			async (span) => this.executeRules(input, span),
+		);
+	}
+
+	private executeRules(
+		input: EvaluationInput,
+		span: EvalKitSpan,
+	): EvaluatorResult {
+		const startTime = Date.now();
+		const rules: RuleResult[] = this.rules.map((rule) => {
+			const message = rule.check(input.candidateText, input);
+			return message === undefined
+				? { rule: rule.name, passed: true }
+				: { rule: rule.name, passed: false, message };
+		});
+		const violations = rules.filter((rule) => !rule.passed);
+		const allPassed = violations.length === 0;
+		const normalizedScore =
+			this.scoring === "fraction"
+				? (rules.length - violations.length) / rules.length
+				: Number(allPassed);
+		const score =
+			this.scoring === "fraction"
+				? normalizedScore
+				: allPassed
+					? "pass"
+					: "fail";
+
+		span.setAttribute("eval_kit.result.score", score);
+		span.setAttribute("eval_kit.rules.violated", violations.length);
+
+		return {
+			evaluatorName: this.name,
+			score,
+			normalizedScore,
+			feedback: allPassed
+				? `All ${rules.length} rules passed.`
+				: violations
+						.map((violation) => `[${violation.rule}] ${violation.message}`)
+						.join("\n"),
+			processingStats: { executionTime: Date.now() - startTime },
+			rules,
+		};
+	}
+}
@@ -0,0 +1,167 @@
+import { type EvalKitSpan, getTracer, SpanStatusCode } from "../telemetry.js";
+import type {
+	EvaluationInput,
+	EvaluatorConfig,
+	EvaluatorResult,
+} from "../types/evaluator.js";
+import { abortable, createAbortScope } from "../utils/abort.js";
+
+export type ModelSettings = EvaluatorConfig["modelSettings"];
+
+export function getModelId(
+	model: EvaluatorConfig["model"],
+): string | undefined {
+	return (model as { modelId?: string }).modelId;
+}
+
+/**
+ * Map evaluator model settings onto generateText call settings
+ */
+export function buildCallSettings(modelSettings: ModelSettings) {
+	return {
+		temperature: modelSettings?.temperature,
+		maxOutputTokens: modelSettings?.maxOutputTokens,
+		topP: modelSettings?.topP,
+		topK: modelSettings?.topK,
+		presencePenalty: modelSettings?.presencePenalty,
+		frequencyPenalty: modelSettings?.frequencyPenalty,
+		seed: modelSettings?.seed,
+	};
+}
+
+/**
+ * Reject custom template variable names that templates cannot reference or
+ * that would hide a built-in variable
+ */
+export function validateCustomVariables(
+	customVariables: readonly string[],
+	builtInVariables: readonly string[],
+): void {
+	for (const name of customVariables) {
+		if (!/^\w+$/.test(name)) {
+			throw new Error(
+				`Custom variable ${name} must contain only letters, digits and underscores`,
+			);
+		}
+		if (builtInVariables.includes(name)) {
+			throw new Error(
+				`Custom variable ${name} clashes with a built-in template variable`,
+			);
+		}
+	}
+}
+
+/**
+ * Template values of the declared custom variables, taken from
+ * input.variables and blank when absent
+ */
+export function customVariableValues(
+	customVariables: readonly string[],
+	input: EvaluationInput,
+): Record<string, unknown> {
+	return Object.fromEntries(
+		customVariables.map((name) => [name, input.variables?.[name] ?? ""]),
+	);
+}
+
+/**
+ * Build the result returned when an evaluation throws
+ */
+export function buildErrorResult(options: {
+	evaluatorName: string;
+	error: unknown;
+	modelId: string | undefined;
+	startTime: number;
+}): EvaluatorResult {
+	const { error } = options;
+	const errorMessage = error instanceof Error ? error.message : String(error);
+	const errorDetails =
+		error instanceof Error && "cause" in error
+			? String(error.cause)
+			: undefined;
+	const fullError = errorDetails
+		? `${errorMessage} (${errorDetails})`
+		: errorMessage;
+
+	return {
+		evaluatorName: options.evaluatorName,
+		model: options.modelId,
+		score: 0,
+		feedback: `Evaluation failed: ${errorMessage}`,
+		processingStats: { executionTime: Date.now() - options.startTime },
+		error: fullError,
+	};
+}
+
+/**
+ * Run an evaluation inside an active span. Errors thrown by execute are
+ * recorded on the span and turned into an error result instead of rejecting.
+ *
+ * execute receives a signal that aborts when the caller's signal aborts or
+ * the timeout elapses; either also ends the evaluation with an error result
+ * straight away.
+ */
+export async function traceEvaluation(
+	options: {
+		spanName: string;
+		attributes: Record<string, string | number | boolean | undefined>;
+		evaluatorName: string;
+		modelId: string | undefined;
+		timeout?: number;
+		signal?: AbortSignal;
+	},
+	execute: (
+		span: EvalKitSpan,
+		signal: AbortSignal | undefined,
+	) => Promise<EvaluatorResult>,
+): Promise<EvaluatorResult> {
+	const tracer = await getTracer();
+	const scope = createAbortScope({
+		signal: options.signal,
+		timeout: options.timeout,
+		timeoutMessage: `Evaluator ${options.evaluatorName} timed out after ${options.timeout}ms`,
+	});
+
+	return tracer.startActiveSpan(
+		options.spanName,
+		{ attributes: options.attributes },
+		async (span: EvalKitSpan) => {
+			const startTime = Date.now();
+			let spanError: string | undefined;
+			let evaluatorResult: EvaluatorResult;
+
+			try {
+				evaluatorResult = await abortable(
+					execute(span, scope.signal),
+					scope.signal,
+				);
+			} catch (error) {
+				evaluatorResult = buildErrorResult({
+					evaluatorName: options.evaluatorName,
+					error,
+					modelId: options.modelId,
+					startTime,
+				});
+				spanError = evaluatorResult.error;
+				span.recordException(
+					error instanceof Error ? error : (spanError ?? String(error)),
+				);
+			} finally {
+				span.setAttribute(
+					"eval_kit.result.execution_time_ms",
+					Date.now() - startTime,
+				);
+				if (spanError) {
+					span.setAttribute("eval_kit.result.error", spanError);
+					span.setStatus({ code: SpanStatusCode.ERROR, message: spanError });
+				} else {
+					span.setStatus({ code: SpanStatusCode.OK });
+				}
+				span.end();
+				scope.dispose();
+			}
+
+			return evaluatorResult;
+		},
+	);
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "@jest/globals";
+import { ToolCallEvaluator } from "./tool-call-evaluator.js";
+
+describe("ToolCallEvaluator", () => {
+	const search = { tool: "search", arguments: { query: "hotels in Rome" } };
+	const book = { tool: "book", arguments: { hotelId: 42 } };
+
+	it("should score 1 when the expected calls were made", async () => {
+		const evaluator = new ToolCallEvaluator({ name: "tools" });
+
+		const result = await evaluator.evaluate({
+			candidateText: "Booked.",
+			trajectory: [search, book],
+			expectedTrajectory: [search, book],
+		});
+
+		expect(result.score).toBe(1);
+		expect(result.normalizedScore).toBe(1);
+		expect(result.feedback).toBe("All 2 expected tool calls were made.");
+		expect(result.trajectory?.matched).toBe(2);
+	});
+
+	it("should score 0 in exact mode when any call differs", async () => {
+		const evaluator = new ToolCallEvaluator({ name: "tools" });
+
+		const result = await evaluator.evaluate({
+			candidateText: "Booked.",
+			trajectory: [search, { tool: "book", arguments: { hotelId: 7 } }],
+			expectedTrajectory: [search, book],
+		});
+
+		expect(result.score).toBe(0);
+		expect(result.feedback).toBe(
+			"1 expected tool calls matched.\nMissing: book\nUnexpected: book",
+		);
+	});
+
+	it("should give partial credit in the partial modes", async () => {
+		const evaluator = new ToolCallEvaluator({
+			name: "tools",
+			match: "in_order",
+		});
+
+		const result = await evaluator.evaluate({
+			candidateText: "Booked.",
+			trajectory: [search, search, book],
+			expectedTrajectory: [search, book],
+		});
+
+		// precision 2/3, recall 1
+		expect(result.score).toBeCloseTo(0.8);
+		expect(result.trajectory?.unexpected).toEqual([search]);
+	});
+
+	it("should ignore arguments when configured", async () => {
+		const evaluator = new ToolCallEvaluator({
+			name: "tools",
+			match: "any_order",
+			arguments: "ignore",
+		});
+
+		const result = await evaluator.evaluate({
+			candidateText: "Booked.",
+			trajectory: [{ tool: "book" }, { tool: "search" }],
+			expectedTrajectory: [search, book],
+		});
+
+		expect(result.score).toBe(1);
+	});
+
+	it("should return an error result without an expected trajectory", async () => {
+		const evaluator = new ToolCallEvaluator({ name: "tools" });
+
+		const result = await evaluator.evaluate({
+			candidateText: "Booked.",
+			trajectory: [search],
+		});
+
+		expect(result.score).toBe(0);
+		expect(result.error).toContain(
+			"requires trajectory and expectedTrajectory",
+		);
+	});
+});
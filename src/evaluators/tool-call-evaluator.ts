@@ -0,0 +1,113 @@
+import type { EvalKitSpan } from "../telemetry.js";
+import type {
+	EvaluateOptions,
+	EvaluationInput,
+	EvaluatorResult,
+	IEvaluator,
+	ToolArgumentMatch,
+	ToolCallEvaluatorConfig,
+	ToolCallMatchMode,
+	TrajectoryMatch,
+} from "../types/evaluator.js";
+import { matchTrajectories } from "../utils/trajectory.js";
+import { traceEvaluation } from "./shared.js";
+
+/**
+ * Compares the tool calls in input.trajectory with input.expectedTrajectory.
+ *
+ * No model is called. In "exact" mode the score is 1 when the agent made
+ * exactly the expected calls in order and 0 otherwise; the partial modes
+ * score the F1 of precision and recall over matched calls.
+ */
+export class ToolCallEvaluator implements IEvaluator {
+	readonly name: string;
+
+	private readonly match: ToolCallMatchMode;
+	private readonly argumentMatch: ToolArgumentMatch;
+
+	constructor(config: ToolCallEvaluatorConfig) {
+		this.name = config.name;
+		this.match = config.match ?? "exact";
+		this.argumentMatch = config.arguments ?? "exact";
+	}
+
+	async evaluate(
+		input: EvaluationInput,
+		options?: EvaluateOptions,
+	): Promise<EvaluatorResult> {
+		return traceEvaluation(
+			{
+				spanName: "eval-kit.tool_call_evaluator.evaluate",
+				attributes: {
+					"eval_kit.evaluator.name": this.name,
+					"eval_kit.tool_calls.match": this.match,
+					"eval_kit.tool_calls.arguments": this.argumentMatch,
+				},
+				evaluatorName: this.name,
+				modelId: undefined,
+				signal: options?.signal,
+			},
+			async (span) => this.executeMatch(input, span),
+		);
+	}
+
+	private executeMatch(
+		input: EvaluationInput,
+		span: EvalKitSpan,
+	): EvaluatorResult {
+		const startTime = Date.now();
+		if (!input.trajectory || !input.expectedTrajectory) {
+			throw new Error(
+				`Tool call evaluator ${this.name} requires trajectory and expectedTrajectory in the input`,
+			);
+		}
+
+		const trajectory = matchTrajectories(
+			input.trajectory,
+			input.expectedTrajectory,
+			{ match: this.match, arguments: this.argumentMatch },
+		);
+		const score = this.score(trajectory);
+
+		span.setAttribute("eval_kit.result.score", score);
+		span.setAttribute("eval_kit.tool_calls.matched", trajectory.matched);
+
+		return {
+			evaluatorName: this.name,
+			score,
+			normalizedScore: score,
+			feedback: this.formatFeedback(trajectory),
+			processingStats: { executionTime: Date.now() - startTime },
+			trajectory,
+		};
+	}
+
+	private score(trajectory: TrajectoryMatch): number {
+		const { precision, recall } = trajectory;
+		if (this.match === "exact") {
+			return precision === 1 && recall === 1 ? 1 : 0;
+		}
+		return precision + recall > 0
+			? (2 * precision * recall) / (precision + recall)
+			: 0;
+	}
+
+	private formatFeedback(trajectory: TrajectoryMatch): string {
+		if (trajectory.missing.length === 0 && trajectory.unexpected.length === 0) {
+			return `All ${trajectory.matched} expected tool calls were made.`;
+		}
+
+		const lines = [`${trajectory.matched} expected tool calls matched.`];
+		if (trajectory.missing.length > 0) {
+			lines.push(
+				`Missing: ${trajectory.missing.map((step) => step.tool).join(", ")}`,
+			);
+		}
+		if (trajectory.unexpected.length > 0) {
+			lines.push(
+				`Unexpected: ${trajectory.unexpected.map((step) => step.tool).join(", ")}`,
+			);
+		}
+		return lines.join("\n");
+	}
+}
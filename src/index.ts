@@ -48,6 +48,18 @@ export async function loadPerplexity() {
 	};
 }
 
+// Analysis
+export {
+	analyzeAgreement,
+	formatAgreementReport,
+} from "./analysis/human-agreement.js";
+export type {
+	AgreementLabel,
+	AgreementOptions,
+	AgreementReport,
+	ConfusionMatrix,
+	EvaluatorAgreement,
+} from "./analysis/types.js";
 // Batch Evaluation
 export { BatchEvaluator } from "./batch/batch-evaluator.js";
 export type {
@@ -60,8 +72,42 @@ export type {
 	ProgressEvent,
 	ProgressEventType,
 } from "./batch/types.js";
+// Caching
+export {
+	type CachedEvaluation,
+	createEvaluationCacheKey,
+	type EvaluationCache,
+	type EvaluationCacheKeyParts,
+	InMemoryEvaluationCache,
+} from "./cache/evaluation-cache.js";
+export { FileEvaluationCache } from "./cache/file-evaluation-cache.js";
 // Evaluator
+export { ClaimFaithfulnessEvaluator } from "./evaluators/claim-faithfulness-evaluator.js";
 export { Evaluator } from "./evaluators/evaluator.js";
+export { JuryEvaluator } from "./evaluators/jury-evaluator.js";
+export {
+	MetricEvaluator,
+	type MetricEvaluatorOptions,
+} from "./evaluators/metric-evaluator.js";
+export { PairwiseEvaluator } from "./evaluators/pairwise-evaluator.js";
+export {
+	type BrandTonePresetOptions,
+	Evaluators,
+	type PresetOptions,
+} from "./evaluators/presets.js";
+export {
+	ContextRecallEvaluator,
+	ContextRelevanceEvaluator,
+	GroundednessEvaluator,
+} from "./evaluators/rag-evaluators.js";
+export {
+	type LengthRuleOptions,
+	type PatternRuleOptions,
+	type PhraseRuleOptions,
+	RuleEvaluator,
+	Rules,
+} from "./evaluators/rule-evaluator.js";
+export { ToolCallEvaluator } from "./evaluators/tool-call-evaluator.js";
 // Telemetry
 export {
 	type EvalKitSpan,
@@ -70,18 +116,68 @@ export {
 	type WithSpanOptions,
 	withSpan,
 } from "./telemetry.js";
+// Tournaments
+export { Tournament } from "./tournament/tournament.js";
+export type {
+	ContenderRating,
+	RatingSystem,
+	TournamentConfig,
+	TournamentExportConfig,
+	TournamentMatch,
+	TournamentResult,
+	TournamentRow,
+} from "./tournament/types.js";
 export type {
 	CategoricalScoreConfig,
+	ClaimFaithfulnessEvaluatorConfig,
+	ClaimVerdict,
+	ClaimVerification,
+	ContextVerdict,
+	ConversationMode,
+	ConversationTurn,
+	CriterionResult,
+	EvaluateOptions,
+	EvaluationImage,
 	EvaluationInput,
+	EvaluationSample,
 	EvaluatorConfig,
+	EvaluatorDetails,
+	EvaluatorExample,
+	EvaluatorMessage,
 	EvaluatorResult,
 	IEvaluator,
+	JuryAggregation,
+	JuryAgreement,
+	JuryEvaluatorConfig,
+	JuryVerdict,
+	MetricEvaluatorConfig,
 	NumericScoreConfig,
+	PairwiseComparison,
+	PairwiseEvaluatorConfig,
+	PairwiseJudgement,
+	PairwiseOutcome,
 	ProcessingStats,
+	RagEvaluatorConfig,
+	RubricConfig,
+	RubricCriterion,
+	Rule,
+	RuleEvaluatorConfig,
+	RuleResult,
+	RuleScoring,
+	SampleAggregation,
+	SamplingSummary,
 	ScoreConfig,
-	TemplateVariable,
+	ScoreDistribution,
+	ScoreProbability,
 	TokenUsage,
+	ToolArgumentMatch,
+	ToolCallEvaluatorConfig,
+	ToolCallMatchMode,
+	TrajectoryMatch,
+	TrajectoryStep,
+	TurnResult,
 } from "./types/evaluator.js";
+export { TemplateVariable } from "./types/evaluator.js";
 export {
 	calculateNgramPrecision,
 	countNgrams,
@@ -0,0 +1,129 @@
+import { describe, expect, it } from "@jest/globals";
+import {
+	createRandom,
+	fitBradleyTerry,
+	fitElo,
+	type RatedMatch,
+	rateContenders,
+} from "./ratings.js";
+
+const repeat = (match: RatedMatch, times: number): RatedMatch[] =>
+	Array.from({ length: times }, () => match);
+
+describe("Ratings", () => {
+	describe("createRandom", () => {
+		it("should repeat the same sequence for the same seed", () => {
+			const first = createRandom(42);
+			const second = createRandom(42);
+			const values = Array.from({ length: 5 }, () => first());
+
+			expect(Array.from({ length: 5 }, () => second())).toEqual(values);
+			expect(values.every((value) => value >= 0 && value < 1)).toBe(true);
+		});
+	});
+
+	describe("fitElo", () => {
+		it("should move both ratings by the same amount", () => {
+			const ratings = fitElo(["a", "b"], [{ a: "a", b: "b", scoreA: 1 }], 32);
+
+			expect(ratings.get("a")).toBe(1016);
+			expect(ratings.get("b")).toBe(984);
+		});
+
+		it("should leave equal ratings unchanged after a tie", () => {
+			const ratings = fitElo(["a", "b"], [{ a: "a", b: "b", scoreA: 0.5 }], 32);
+
+			expect(ratings.get("a")).toBe(1000);
+		});
+	});
+
+	describe("fitBradleyTerry", () => {
+		it("should rate a contender winning 3 of 4 matches about 191 points higher", () => {
+			// One virtual tie per pair makes this 3.5 wins to 1.5
+			const ratings = fitBradleyTerry(
+				["a", "b"],
+				[
+					...repeat({ a: "a", b: "b", scoreA: 1 }, 3),
+					{ a: "b", b: "a", scoreA: 1 },
+				],
+			);
+			const difference = (ratings.get("a") ?? 0) - (ratings.get("b") ?? 0);
+
+			expect(difference).toBeCloseTo(400 * Math.log10(3.5 / 1.5), 4);
+			expect((ratings.get("a") ?? 0) + (ratings.get("b") ?? 0)).toBeCloseTo(
+				2000,
+			);
+		});
+
+		it("should keep ratings finite for an unbeaten contender", () => {
+			const ratings = fitBradleyTerry(
+				["a", "b", "c"],
+				[
+					...repeat({ a: "a", b: "b", scoreA: 1 }, 5),
+					...repeat({ a: "a", b: "c", scoreA: 1 }, 5),
+					...repeat({ a: "b", b: "c", scoreA: 0.5 }, 5),
+				],
+			);
+
+			expect(Number.isFinite(ratings.get("a"))).toBe(true);
+			expect(ratings.get("a")).toBeGreaterThan(ratings.get("b") ?? 0);
+			expect(ratings.get("b")).toBeCloseTo(ratings.get("c") ?? 0);
+		});
+	});
+
+	describe("rateContenders", () => {
+		const options = {
+			ratingSystem: "bradley_terry" as const,
+			kFactor: 32,
+			confidenceLevel: 0.95,
+			bootstrapSamples: 200,
+			random: createRandom(1),
+		};
+
+		it("should rank contenders with records and confidence intervals", () => {
+			const ratings = rateContenders(
+				["b", "a"],
+				[
+					...repeat({ a: "a", b: "b", scoreA: 1 }, 6),
+					...repeat({ a: "a", b: "b", scoreA: 0 }, 2),
+					{ a: "b", b: "a", scoreA: 0.5 },
+				],
+				options,
+			);
+
+			expect(ratings.map((rating) => rating.contender)).toEqual(["a", "b"]);
+			expect(ratings[0]).toMatchObject({ wins: 6, losses: 2, ties: 1 });
+			expect(ratings[1]).toMatchObject({ wins: 2, losses: 6, ties: 1 });
+			for (const rating of ratings) {
+				expect(rating.lower).toBeLessThanOrEqual(rating.rating);
+				expect(rating.upper).toBeGreaterThanOrEqual(rating.rating);
+			}
+			expect(ratings[0].upper).toBeGreaterThan(ratings[0].lower);
+		});
+
+		it("should give every contender the initial rating without matches", () => {
+			const ratings = rateContenders(["a", "b"], [], options);
+
+			expect(ratings).toEqual([
+				{
+					contender: "a",
+					rating: 1000,
+					lower: 1000,
+					upper: 1000,
+					wins: 0,
+					losses: 0,
+					ties: 0,
+				},
+				{
+					contender: "b",
+					rating: 1000,
+					lower: 1000,
+					upper: 1000,
+					wins: 0,
+					losses: 0,
+					ties: 0,
+				},
+			]);
+		});
+	});
+});
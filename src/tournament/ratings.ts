@@ -0,0 +1,178 @@
+import type { PairwiseOutcome } from "../types/evaluator.js";
+import { percentile } from "../utils/statistics.js";
+import type { ContenderRating, RatingSystem } from "./types.js";
+
+const INITIAL_RATING = 1000;
+const ELO_SCALE = 400;
+
+/**
+ * A decided match: a's result against b, 1 for a win, 0.5 for a tie, 0 for a loss
+ */
+export interface RatedMatch {
+	readonly a: string;
+	readonly b: string;
+	readonly scoreA: number;
+}
+
+export interface RatingOptions {
+	readonly ratingSystem: RatingSystem;
+	readonly kFactor: number;
+	readonly confidenceLevel: number;
+	readonly bootstrapSamples: number;
+	readonly random: () => number;
+}
+
+export const OUTCOME_SCORES: Record<PairwiseOutcome, number> = {
+	win: 1,
+	tie: 0.5,
+	lose: 0,
+};
+
+/**
+ * Seeded pseudo-random numbers in [0, 1) (mulberry32)
+ */
+export const createRandom = (seed: number): (() => number) => {
+	let state = seed >>> 0;
+	return () => {
+		state = (state + 0x6d2b79f5) >>> 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+};
+
+/**
+ * Sequential Elo updates in match order
+ */
+export const fitElo = (
+	contenders: readonly string[],
+	matches: readonly RatedMatch[],
+	kFactor: number,
+): Map<string, number> => {
+	const ratings = new Map(contenders.map((name) => [name, INITIAL_RATING]));
+	for (const { a, b, scoreA } of matches) {
+		const ratingA = ratings.get(a) ?? INITIAL_RATING;
+		const ratingB = ratings.get(b) ?? INITIAL_RATING;
+		const expectedA = 1 / (1 + 10 ** ((ratingB - ratingA) / ELO_SCALE));
+		const change = kFactor * (scoreA - expectedA);
+		ratings.set(a, ratingA + change);
+		ratings.set(b, ratingB - change);
+	}
+	return ratings;
+};
+
+/**
+ * Maximum likelihood Bradley-Terry strengths, fitted with Hunter's MM
+ * algorithm and reported on the Elo scale. Ties count as half a win for
+ * each side. Every pair also gets one virtual tie, which keeps ratings
+ * finite when a contender wins or loses all of its matches.
+ */
+export const fitBradleyTerry = (
+	contenders: readonly string[],
+	matches: readonly RatedMatch[],
+): Map<string, number> => {
+	const size = contenders.length;
+	const position = new Map(contenders.map((name, index) => [name, index]));
+	const games = Array.from({ length: size }, () =>
+		new Array<number>(size).fill(1),
+	);
+	const wins = new Array<number>(size).fill(0.5 * (size - 1));
+	for (const { a, b, scoreA } of matches) {
+		const i = position.get(a);
+		const j = position.get(b);
+		if (i === undefined || j === undefined) continue;
+		games[i][j]++;
+		games[j][i]++;
+		wins[i] += scoreA;
+		wins[j] += 1 - scoreA;
+	}
+
+	let strengths = new Array<number>(size).fill(1);
+	for (let iteration = 0; iteration < 1000; iteration++) {
+		const updated = strengths.map((strength, i) => {
+			let denominator = 0;
+			for (let j = 0; j < size; j++) {
+				if (j !== i) denominator += games[i][j] / (strength + strengths[j]);
+			}
+			return denominator > 0 ? wins[i] / denominator : strength;
+		});
+
+		// Fix the geometric mean at 1 so ratings centre on the initial rating
+		const logMean =
+			updated.reduce((sum, strength) => sum + Math.log(strength), 0) / size;
+		const normalized = updated.map((strength) => strength / Math.exp(logMean));
+		const change = Math.max(
+			...normalized.map((strength, i) => Math.abs(strength - strengths[i])),
+		);
+		strengths = normalized;
+		if (change < 1e-9) break;
+	}
+
+	return new Map(
+		contenders.map((name, i) => [
+			name,
+			INITIAL_RATING + ELO_SCALE * Math.log10(strengths[i]),
+		]),
+	);
+};
+
+function fitRatings(
+	contenders: readonly string[],
+	matches: readonly RatedMatch[],
+	options: RatingOptions,
+): Map<string, number> {
+	return options.ratingSystem === "elo"
+		? fitElo(contenders, matches, options.kFactor)
+		: fitBradleyTerry(contenders, matches);
+}
+
+/**
+ * Fit ratings and bootstrap confidence intervals by refitting on matches
+ * resampled with replacement
+ */
+export const rateContenders = (
+	contenders: readonly string[],
+	matches: readonly RatedMatch[],
+	options: RatingOptions,
+): ContenderRating[] => {
+	const ratings = fitRatings(contenders, matches, options);
+
+	const samples = new Map<string, number[]>(
+		contenders.map((name) => [name, []]),
+	);
+	if (matches.length > 0) {
+		for (let sample = 0; sample < options.bootstrapSamples; sample++) {
+			const resampled = Array.from(
+				{ length: matches.length },
+				() => matches[Math.floor(options.random() * matches.length)],
+			);
+			for (const [name, rating] of fitRatings(contenders, resampled, options)) {
+				samples.get(name)?.push(rating);
+			}
+		}
+	}
+
+	const tail = (1 - options.confidenceLevel) / 2;
+	return contenders
+		.map((contender) => {
+			const rating = ratings.get(contender) ?? INITIAL_RATING;
+			const bootstrap = samples.get(contender) ?? [];
+			// This contender's score in each of its matches
+			const results = matches.flatMap((match) => {
+				if (match.a === contender) return [match.scoreA];
+				if (match.b === contender) return [1 - match.scoreA];
+				return [];
+			});
+			return {
+				contender,
+				rating,
+				lower: bootstrap.length > 0 ? percentile(bootstrap, tail) : rating,
+				upper: bootstrap.length > 0 ? percentile(bootstrap, 1 - tail) : rating,
+				wins: results.filter((score) => score === 1).length,
+				losses: results.filter((score) => score === 0).length,
+				ties: results.filter((score) => score === 0.5).length,
+			};
+		})
+		.sort((a, b) => b.rating - a.rating);
+};
@@ -0,0 +1,209 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import type {
+	EvaluationInput,
+	EvaluatorResult,
+	IEvaluator,
+	PairwiseOutcome,
+} from "../types/evaluator.js";
+import { Tournament } from "./tournament.js";
+
+/**
+ * Judge that prefers the longer text and records the pairs it saw
+ */
+const createLengthJudge = () => {
+	const seen: [string, string | undefined][] = [];
+	const judge: IEvaluator = {
+		name: "length_judge",
+		evaluate: async (input: EvaluationInput): Promise<EvaluatorResult> => {
+			seen.push([input.candidateText, input.comparisonText]);
+			const difference =
+				input.candidateText.length - (input.comparisonText?.length ?? 0);
+			const outcome: PairwiseOutcome =
+				difference > 0 ? "win" : difference < 0 ? "lose" : "tie";
+			return {
+				evaluatorName: "length_judge",
+				score: outcome,
+				feedback: `Candidate ${outcome}s`,
+				processingStats: { executionTime: 1 },
+				pairwise: { outcome, positionConsistent: true, judgements: [] },
+			};
+		},
+	};
+	return { judge, seen };
+};
+
+const rows = [
+	{
+		prompt: "Describe Rome",
+		outputs: { short: "Hi", medium: "Hello", long: "Hello there" },
+	},
+	{
+		prompt: "Describe Paris",
+		outputs: { short: "Ok", medium: "Sunny", long: "Sunny and warm" },
+	},
+];
+
+describe("Tournament", () => {
+	it("should judge every pair of contenders on every row", async () => {
+		const { judge, seen } = createLengthJudge();
+		const tournament = new Tournament({
+			judge,
+			contenders: ["short", "medium", "long"],
+			bootstrapSamples: 50,
+			seed: 7,
+		});
+
+		const result = await tournament.run(rows);
+
+		expect(seen).toHaveLength(6);
+		expect(result.matches).toHaveLength(6);
+		expect(result.matches[0]).toEqual({
+			rowId: "row-0",
+			contenderA: "short",
+			contenderB: "medium",
+			outcome: "lose",
+			feedback: "Candidate loses",
+		});
+		// The second pair goes the other way round
+		expect(result.matches[1]).toMatchObject({
+			contenderA: "long",
+			contenderB: "short",
+			outcome: "win",
+		});
+		expect(result.ratings.map((rating) => rating.contender)).toEqual([
+			"long",
+			"medium",
+			"short",
+		]);
+		expect(result.ratings[0]).toMatchObject({ wins: 4, losses: 0, ties: 0 });
+		expect(result.ratingSystem).toBe("bradley_terry");
+		expect(result.batch.totalRows).toBe(6);
+	});
+
+	it("should sample matchesPerRow pairs per row", async () => {
+		const { judge, seen } = createLengthJudge();
+		const tournament = new Tournament({
+			judge,
+			contenders: ["short", "medium", "long"],
+			matchesPerRow: 1,
+			bootstrapSamples: 10,
+			seed: 7,
+		});
+
+		await tournament.run(rows);
+
+		expect(seen).toHaveLength(2);
+	});
+
+	it("should fit Elo ratings when configured", async () => {
+		const { judge } = createLengthJudge();
+		const tournament = new Tournament({
+			judge,
+			contenders: ["short", "long"],
+			ratingSystem: "elo",
+			kFactor: 16,
+			bootstrapSamples: 10,
+		});
+
+		const result = await tournament.run(rows.slice(0, 1));
+
+		expect(result.ratings[0]).toMatchObject({
+			contender: "long",
+			rating: 1008,
+		});
+		expect(result.ratings[1]).toMatchObject({
+			contender: "short",
+			rating: 992,
+		});
+	});
+
+	it("should record failed matches without rating them", async () => {
+		const judge: IEvaluator = {
+			name: "scorer",
+			evaluate: async () => ({
+				evaluatorName: "scorer",
+				score: 4,
+				feedback: "Good",
+				processingStats: { executionTime: 1 },
+			}),
+		};
+		const tournament = new Tournament({
+			judge,
+			contenders: ["short", "long"],
+			bootstrapSamples: 10,
+		});
+
+		const result = await tournament.run(rows.slice(0, 1));
+
+		expect(result.matches[0].outcome).toBeUndefined();
+		expect(result.matches[0].error).toBe(
+			"Judge scorer did not return a win, lose or tie outcome",
+		);
+		expect(result.ratings[0]).toMatchObject({ rating: 1000, wins: 0 });
+	});
+
+	it("should reject fewer than two distinct contenders", () => {
+		const { judge } = createLengthJudge();
+
+		expect(() => new Tournament({ judge, contenders: ["a", "a"] })).toThrow(
+			"Tournament requires at least two distinct contenders",
+		);
+	});
+
+	describe("export", () => {
+		let directory: string;
+
+		beforeEach(async () => {
+			directory = await mkdtemp(join(tmpdir(), "tournament-"));
+		});
+
+		afterEach(async () => {
+			await rm(directory, { recursive: true, force: true });
+		});
+
+		it("should export ratings and match history", async () => {
+			const { judge } = createLengthJudge();
+			const tournament = new Tournament({
+				judge,
+				contenders: ["short", "long"],
+				bootstrapSamples: 10,
+			});
+			await tournament.run(rows);
+
+			const ratingsPath = join(directory, "ratings.csv");
+			const matchesPath = join(directory, "matches.json");
+			await tournament.export({
+				format: "csv",
+				destination: ratingsPath,
+				content: "ratings",
+			});
+			await tournament.export({ format: "json", destination: matchesPath });
+
+			const csv = await readFile(ratingsPath, "utf-8");
+			expect(csv.split("\n")[0]).toBe(
+				'"rank","contender","rating","lower","upper","wins","losses","ties"',
+			);
+			expect(csv).toContain('"1","long"');
+
+			const matches = JSON.parse(await readFile(matchesPath, "utf-8"));
+			expect(matches).toHaveLength(2);
+			expect(matches[0].input).toMatchObject({
+				contenderA: "short",
+				contenderB: "long",
+				sourceRowId: "row-0",
+			});
+		});
+
+		it("should require a run first", async () => {
+			const { judge } = createLengthJudge();
+			const tournament = new Tournament({ judge, contenders: ["a", "b"] });
+
+			await expect(
+				tournament.export({ format: "json", destination: "unused.json" }),
+			).rejects.toThrow("Tournament has not been run yet");
+		});
+	});
+});
@@ -0,0 +1,221 @@
+import { BatchEvaluator } from "../batch/batch-evaluator.js";
+import { CsvExporter } from "../batch/exporters/csv-exporter.js";
+import { JsonExporter } from "../batch/exporters/json-exporter.js";
+import type { BatchEvaluationResult, BatchInputRow } from "../batch/types.js";
+import { withSpan } from "../telemetry.js";
+import type { EvaluateOptions, PairwiseOutcome } from "../types/evaluator.js";
+import {
+	createRandom,
+	OUTCOME_SCORES,
+	type RatedMatch,
+	rateContenders,
+} from "./ratings.js";
+import type {
+	TournamentConfig,
+	TournamentExportConfig,
+	TournamentMatch,
+	TournamentResult,
+	TournamentRow,
+} from "./types.js";
+
+const OUTCOMES = new Set<unknown>(["win", "lose", "tie"]);
+
+/**
+ * Ranks contenders, such as prompt variants or models, from pairwise judge
+ * comparisons over a dataset.
+ *
+ * Each row holds every contender's output. The judge compares pairs of
+ * outputs through a BatchEvaluator, with the first contender of each pair
+ * as candidateText and the second as comparisonText. Elo or Bradley-Terry
+ * ratings are then fitted to the outcomes, with bootstrap confidence
+ * intervals.
+ */
+export class Tournament {
+	private readonly config: TournamentConfig;
+	private batchEvaluator?: BatchEvaluator;
+	private result?: TournamentResult;
+
+	constructor(config: TournamentConfig) {
+		const contenders = new Set(config.contenders);
+		if (contenders.size < 2 || contenders.size !== config.contenders.length) {
+			throw new Error("Tournament requires at least two distinct contenders");
+		}
+		if (config.matchesPerRow !== undefined && config.matchesPerRow < 1) {
+			throw new Error("matchesPerRow must be at least 1");
+		}
+
+		this.config = config;
+	}
+
+	/**
+	 * Judge the scheduled matches and fit ratings to their outcomes. Matches
+	 * the judge fails on are kept in the history but do not count.
+	 */
+	async run(
+		rows: readonly TournamentRow[],
+		options?: EvaluateOptions,
+	): Promise<TournamentResult> {
+		const ratingSystem = this.config.ratingSystem ?? "bradley_terry";
+
+		return withSpan(
+			"eval-kit.tournament.run",
+			{
+				attributes: {
+					"eval_kit.tournament.contender_count": this.config.contenders.length,
+					"eval_kit.tournament.rating_system": ratingSystem,
+				},
+			},
+			async (span) => {
+				const random =
+					this.config.seed !== undefined
+						? createRandom(this.config.seed)
+						: Math.random;
+				const matchRows = this.scheduleMatches(rows, random);
+				span.setAttribute("eval_kit.tournament.match_count", matchRows.length);
+
+				const { judge, ...batchConfig } = this.config;
+				this.batchEvaluator = new BatchEvaluator({
+					...batchConfig,
+					evaluators: [judge],
+				});
+				const batch = await this.batchEvaluator.evaluate(
+					{ data: matchRows },
+					options,
+				);
+
+				const matches = [...batch.results]
+					.sort((a, b) => a.rowIndex - b.rowIndex)
+					.map((result) => this.toMatch(result));
+				const rated: RatedMatch[] = matches.flatMap((match) =>
+					match.outcome
+						? [
+								{
+									a: match.contenderA,
+									b: match.contenderB,
+									scoreA: OUTCOME_SCORES[match.outcome],
+								},
+							]
+						: [],
+				);
+				span.setAttribute("eval_kit.tournament.decided_matches", rated.length);
+
+				const confidenceLevel = this.config.confidenceLevel ?? 0.95;
+				this.result = {
+					ratingSystem,
+					confidenceLevel,
+					ratings: rateContenders(this.config.contenders, rated, {
+						ratingSystem,
+						kFactor: this.config.kFactor ?? 32,
+						confidenceLevel,
+						bootstrapSamples: this.config.bootstrapSamples ?? 1000,
+						random,
+					}),
+					matches,
+					batch,
+				};
+				return this.result;
+			},
+		);
+	}
+
+	/**
+	 * Export the match history (one row per judge call, as BatchEvaluator
+	 * exports it) or the ratings table
+	 */
+	async export(exportConfig: TournamentExportConfig): Promise<void> {
+		if (!this.batchEvaluator || !this.result) {
+			throw new Error("Tournament has not been run yet");
+		}
+
+		if ((exportConfig.content ?? "matches") === "matches") {
+			return this.batchEvaluator.export(exportConfig);
+		}
+
+		const exporter =
+			exportConfig.format === "csv" ? new CsvExporter() : new JsonExporter();
+		await exporter.exportRecords(
+			this.result.ratings.map((rating, index) => ({
+				rank: index + 1,
+				...rating,
+			})),
+			exportConfig,
+		);
+	}
+
+	/**
+	 * One batch row per match. Pairs are sampled per row when matchesPerRow
+	 * is set, and alternate which contender goes first.
+	 */
+	private scheduleMatches(
+		rows: readonly TournamentRow[],
+		random: () => number,
+	): BatchInputRow[] {
+		let scheduled = 0;
+
+		return rows.flatMap((row, rowIndex) => {
+			const { outputs, ...input } = row;
+			const rowId = row.id ?? `row-${rowIndex}`;
+			const available = this.config.contenders.filter(
+				(contender) => typeof outputs[contender] === "string",
+			);
+
+			let pairs: [string, string][] = available.flatMap((first, i) =>
+				available
+					.slice(i + 1)
+					.map((second): [string, string] => [first, second]),
+			);
+			if (
+				this.config.matchesPerRow !== undefined &&
+				this.config.matchesPerRow < pairs.length
+			) {
+				pairs = shuffle(pairs, random).slice(0, this.config.matchesPerRow);
+			}
+
+			return pairs.map(([first, second]) => {
+				const [contenderA, contenderB] =
+					scheduled++ % 2 === 0 ? [first, second] : [second, first];
+				return {
+					...input,
+					id: `${rowId}:${contenderA}:${contenderB}`,
+					candidateText: outputs[contenderA],
+					comparisonText: outputs[contenderB],
+					sourceRowId: rowId,
+					contenderA,
+					contenderB,
+				};
+			});
+		});
+	}
+
+	private toMatch(result: BatchEvaluationResult): TournamentMatch {
+		const input = result.input;
+		const judged = result.results[0];
+		const outcome = judged?.pairwise?.outcome ?? judged?.score;
+		const error =
+			result.error ??
+			judged?.error ??
+			(OUTCOMES.has(outcome)
+				? undefined
+				: `Judge ${this.config.judge.name} did not return a win, lose or tie outcome`);
+
+		return {
+			rowId: input.sourceRowId as string,
+			contenderA: input.contenderA as string,
+			contenderB: input.contenderB as string,
+			...(error ? { error } : { outcome: outcome as PairwiseOutcome }),
+			feedback: judged?.feedback ?? "",
+		};
+	}
+}
+
+/**
+ * Fisher-Yates shuffle into a new array
+ */
+function shuffle<T>(items: readonly T[], random: () => number): T[] {
+	const shuffled = [...items];
+	for (let i = shuffled.length - 1; i > 0; i--) {
+		const j = Math.floor(random() * (i + 1));
+		[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+	}
+	return shuffled;
+}
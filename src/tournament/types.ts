@@ -0,0 +1,72 @@
+import type {
+	BatchEvaluatorConfig,
+	BatchExportConfig,
+	BatchResult,
+} from "../batch/types.js";
+import type {
+	EvaluationInput,
+	IEvaluator,
+	PairwiseOutcome,
+} from "../types/evaluator.js";
+
+export type RatingSystem = "elo" | "bradley_terry";
+
+/**
+ * One dataset row: the shared input plus every contender's output for it
+ */
+export interface TournamentRow
+	extends Omit<EvaluationInput, "candidateText" | "comparisonText"> {
+	id?: string;
+	outputs: Readonly<Record<string, string>>; // Keyed by contender name
+	[key: string]: unknown; // Allow additional metadata fields
+}
+
+/**
+ * Configuration for Tournament. Batch options such as concurrency,
+ * retryConfig and onProgress apply to the judge calls.
+ */
+export interface TournamentConfig
+	extends Omit<BatchEvaluatorConfig, "evaluators"> {
+	readonly judge: IEvaluator; // Compares candidateText with comparisonText, e.g. a PairwiseEvaluator
+	readonly contenders: readonly string[]; // Keys of TournamentRow.outputs to compare
+	readonly ratingSystem?: RatingSystem; // Default: 'bradley_terry'
+	readonly matchesPerRow?: number; // Pairs judged per row, sampled at random. Default: every pair
+	readonly kFactor?: number; // Elo update size. Default: 32
+	readonly confidenceLevel?: number; // Default: 0.95
+	readonly bootstrapSamples?: number; // Default: 1000
+	readonly seed?: number; // Makes pair sampling and confidence intervals reproducible
+}
+
+/**
+ * One judged comparison. The outcome is from contenderA's perspective.
+ */
+export interface TournamentMatch {
+	readonly rowId: string;
+	readonly contenderA: string;
+	readonly contenderB: string;
+	readonly outcome?: PairwiseOutcome; // Not set when the judge failed
+	readonly feedback: string;
+	readonly error?: string;
+}
+
+export interface ContenderRating {
+	readonly contender: string;
+	readonly rating: number; // On the Elo scale, starting from 1000
+	readonly lower: number; // Confidence interval bounds from bootstrap resampling
+	readonly upper: number;
+	readonly wins: number;
+	readonly losses: number;
+	readonly ties: number;
+}
+
+export interface TournamentResult {
+	readonly ratingSystem: RatingSystem;
+	readonly confidenceLevel: number;
+	readonly ratings: readonly ContenderRating[]; // Highest rating first
+	readonly matches: readonly TournamentMatch[];
+	readonly batch: BatchResult; // The underlying judge run, one row per match
+}
+
+export interface TournamentExportConfig extends BatchExportConfig {
+	readonly content?: "matches" | "ratings"; // Default: 'matches'
+}
@@ -1,4 +1,6 @@
 import type { LanguageModel } from "ai";
+import type { z } from "zod";
+import type { EvaluationCache } from "../cache/evaluation-cache.js";
 
 export interface TokenUsage {
 	readonly inputTokens?: number;
@@ -20,14 +22,164 @@ export interface TokenUsage {
 export interface ProcessingStats {
 	readonly executionTime: number;
 	readonly tokenUsage?: TokenUsage;
+	readonly cacheHits?: number; // Set when the evaluator has a cache
+	readonly cacheMisses?: number;
 }
 
-export interface EvaluatorResult {
+export type PairwiseOutcome = "win" | "lose" | "tie";
+
+/**
+ * A single judge verdict for one ordering of the two candidates.
+ * The outcome is always from the perspective of candidateText.
+ */
+export interface PairwiseJudgement {
+	readonly order: "original" | "swapped";
+	readonly outcome: PairwiseOutcome;
+	readonly feedback: string;
+}
+
+export interface PairwiseComparison {
+	readonly outcome: PairwiseOutcome;
+	readonly positionConsistent: boolean;
+	readonly judgements: readonly PairwiseJudgement[];
+}
+
+export type ClaimVerdict = "supported" | "contradicted" | "not_found";
+
+/**
+ * One atomic claim from candidateText and whether the source supports it
+ */
+export interface ClaimVerification {
+	readonly claim: string;
+	readonly verdict: ClaimVerdict;
+	readonly explanation: string;
+	readonly contexts?: readonly number[]; // Positions in input.contexts of the chunks supporting the claim (RAG evaluators only)
+}
+
+/**
+ * Whether one retrieved chunk was relevant: to the question for
+ * ContextRelevanceEvaluator, or to any claim for the claim-based RAG evaluators
+ */
+export interface ContextVerdict {
+	readonly index: number; // Position in input.contexts
+	readonly verdict: "relevant" | "irrelevant";
+	readonly explanation: string;
+}
+
+/**
+ * How an agent's tool calls compare with the expected trajectory
+ */
+export interface TrajectoryMatch {
+	readonly matched: number; // Expected steps matched by an actual step
+	readonly missing: readonly TrajectoryStep[]; // Expected steps the agent did not make
+	readonly unexpected: readonly TrajectoryStep[]; // Steps the agent made that were not expected
+	readonly precision: number;
+	readonly recall: number;
+}
+
+/**
+ * Outcome of one deterministic rule from RuleEvaluator
+ */
+export interface RuleResult {
+	readonly rule: string;
+	readonly passed: boolean;
+	readonly message?: string; // What the text did wrong; only set when the rule failed
+}
+
+export interface CriterionResult {
+	readonly score: number | string;
+	readonly feedback: string;
+}
+
+export interface JuryAgreement {
+	readonly standardDeviation?: number; // Numeric scores only
+	readonly agreementRatio: number; // Share of judges giving the most common score
+}
+
+export interface JuryVerdict {
+	readonly judges: readonly EvaluatorResult[];
+	readonly agreement: JuryAgreement;
+}
+
+export interface ScoreProbability {
+	readonly score: number;
+	readonly probability: number;
+}
+
+/**
+ * Probability-weighted score computed from the judge's token logprobs.
+ * Probabilities are renormalised over the tokens that are valid scores;
+ * coverage is the probability mass those tokens had before renormalising.
+ */
+export interface ScoreDistribution {
+	readonly expectedScore: number;
+	readonly structuredScore: number; // The score the judge actually wrote
+	readonly probabilities: readonly ScoreProbability[];
+	readonly coverage: number;
+}
+
+export type SampleAggregation = "mean" | "median" | "mode";
+
+export interface EvaluationSample {
+	readonly score: number | string;
+	readonly feedback: string;
+	readonly reasoning?: string;
+	readonly scoreDistribution?: ScoreDistribution;
+}
+
+/**
+ * Individual samples and their spread when an Evaluator samples the judge
+ * several times. standardDeviation, min and max are only set for numeric scores.
+ */
+export interface SamplingSummary {
+	readonly aggregation: SampleAggregation;
+	readonly samples: readonly EvaluationSample[];
+	readonly standardDeviation?: number;
+	readonly min?: number;
+	readonly max?: number;
+	readonly agreementRatio: number;
+}
+
+/**
+ * Result for one assistant turn of a conversation.
+ * turnIndex is the position of the turn in the conversation.
+ */
+export interface TurnResult {
+	readonly turnIndex: number;
+	readonly score: number | string;
+	readonly normalizedScore?: number;
+	readonly feedback: string;
+	readonly reasoning?: string;
+	readonly criteria?: Readonly<Record<string, CriterionResult>>;
+	readonly details?: EvaluatorDetails;
+}
+
+/**
+ * Custom fields returned by the judge, as defined by detailsSchema
+ */
+export type EvaluatorDetails = Record<string, unknown>;
+
+export interface EvaluatorResult<
+	TDetails extends EvaluatorDetails = EvaluatorDetails,
+> {
 	readonly evaluatorName: string;
 	readonly model?: string;
 	readonly score: number | string;
+	readonly normalizedScore?: number; // score mapped onto [0, 1]; not set on errors
 	readonly feedback: string;
+	readonly reasoning?: string; // Judge's step-by-step reasoning when chainOfThought is enabled
 	readonly processingStats: ProcessingStats;
+	readonly criteria?: Readonly<Record<string, CriterionResult>>; // Per-criterion scores when a rubric is configured
+	readonly details?: TDetails; // Custom judge output when detailsSchema is configured
+	readonly scoreDistribution?: ScoreDistribution; // Set when logprobScoring is enabled and logprobs were returned
+	readonly pairwise?: PairwiseComparison;
+	readonly claims?: readonly ClaimVerification[]; // Per-claim verdicts from claim-based evaluators
+	readonly contexts?: readonly ContextVerdict[]; // Per-chunk verdicts from RAG evaluators
+	readonly trajectory?: TrajectoryMatch; // Tool-call comparison from ToolCallEvaluator
+	readonly rules?: readonly RuleResult[]; // Per-rule outcomes from RuleEvaluator
+	readonly jury?: JuryVerdict;
+	readonly sampling?: SamplingSummary;
+	readonly turns?: readonly TurnResult[]; // Per-turn results when conversationMode is "every_assistant_turn"
 	readonly error?: string;
 }
 
@@ -40,27 +192,88 @@ export interface NumericScoreConfig {
 
 export interface CategoricalScoreConfig {
 	type: "categorical";
-	categories: readonly string[];
+	categories: readonly string[]; // Ordered from worst to best
+	values?: Readonly<Record<string, number>>; // normalizedScore per category in [0, 1]. Default: ordinal position
 }
 
 export type ScoreConfig = NumericScoreConfig | CategoricalScoreConfig;
 
+export interface RubricCriterion {
+	name: string;
+	description: string;
+	scoreConfig: ScoreConfig;
+	weight?: number; // Used when overallScore is "weighted". Default: 1
+}
+
+/**
+ * Scores several named criteria in a single judge call.
+ *
+ * overallScore controls EvaluatorResult.score:
+ * - "judge" (default): the model also gives a holistic score using the evaluator's scoreConfig
+ * - "weighted": the weighted mean of the criterion scores, each normalised to its own range
+ *   and rescaled to the evaluator's (numeric) scoreConfig
+ */
+export interface RubricConfig {
+	criteria: readonly RubricCriterion[];
+	overallScore?: "judge" | "weighted";
+}
+
 export enum TemplateVariable {
 	CANDIDATE_TEXT = "candidateText",
 	PROMPT = "prompt",
 	REFERENCE_TEXT = "referenceText",
 	SOURCE_TEXT = "sourceText",
+	COMPARISON_TEXT = "comparisonText",
 	CONTENT_TYPE = "contentType",
 	LANGUAGE = "language",
 	NAME = "name",
+	CONVERSATION = "conversation",
+	CONTEXTS = "contexts",
+	TRAJECTORY = "trajectory",
+	EXPECTED_TRAJECTORY = "expectedTrajectory",
+}
+
+/**
+ * A scored example shown to the judge to anchor its scale.
+ * The score must be valid for the evaluator's scoreConfig.
+ */
+export interface EvaluatorExample {
+	input: EvaluationInput;
+	score: number | string;
+	rationale: string;
+}
+
+/**
+ * A chat message template. content is rendered with the same variables as
+ * evaluationPrompt.
+ */
+export interface EvaluatorMessage {
+	role: "user" | "assistant";
+	content: string;
 }
 
-export interface EvaluatorConfig {
+export interface EvaluatorConfig<
+	TDetails extends EvaluatorDetails = EvaluatorDetails,
+> {
 	name: string;
 	model: LanguageModel;
-	evaluationPrompt: string;
+	evaluationPrompt?: string; // Required unless messages is set
+	systemPrompt?: string; // Template sent as the system message
+	messages?: readonly EvaluatorMessage[]; // Used instead of evaluationPrompt; must end with a user message
 	scoreConfig?: ScoreConfig;
-	timeout?: number;
+	rubric?: RubricConfig;
+	detailsSchema?: z.ZodType<TDetails>; // Extra judge output fields, returned as EvaluatorResult.details
+	conversationMode?: ConversationMode; // Default: "final_turn"
+	requiredVariables?: readonly TemplateVariable[]; // Input fields that must be non-empty; evaluation fails without calling the model otherwise
+	strictVariables?: boolean; // Also require every variable the templates render outside {{#if}} and {{#each}} blocks. Default: false
+	customVariables?: readonly string[]; // Fields of input.variables the templates use, e.g. "destination" for {{destination}}
+	chainOfThought?: boolean; // Ask the judge for reasoning before the score. Default: false
+	examples?: readonly EvaluatorExample[]; // Few-shot calibration examples rendered into the prompt
+	samples?: number; // Judge calls per evaluation (self-consistency). Default: 1
+	sampleAggregation?: SampleAggregation; // Default: "mean" for numeric scores, "mode" for categorical
+	cache?: EvaluationCache; // Reuse judge responses across runs
+	logprobScoring?: boolean; // Score as the probability-weighted mean over score tokens. Integer numeric scores only. Default: false
+	timeout?: number; // Milliseconds; aborts the model request when exceeded
 	modelSettings?: {
 		temperature?: number;
 		maxOutputTokens?: number;
@@ -73,13 +286,166 @@ export interface EvaluatorConfig {
 	};
 }
 
+/**
+ * Configuration for PairwiseEvaluator.
+ * The prompt template sees the standard variables plus {{responseA}} and {{responseB}}.
+ */
+export interface PairwiseEvaluatorConfig {
+	name: string;
+	model: LanguageModel;
+	evaluationPrompt?: string;
+	customVariables?: readonly string[]; // Fields of input.variables the template uses
+	timeout?: number;
+	modelSettings?: EvaluatorConfig["modelSettings"];
+}
+
+/**
+ * Configuration for ClaimFaithfulnessEvaluator.
+ * Claims are checked against sourceText and referenceText, whichever are set.
+ */
+export interface ClaimFaithfulnessEvaluatorConfig {
+	name: string;
+	model: LanguageModel;
+	timeout?: number;
+	modelSettings?: EvaluatorConfig["modelSettings"];
+}
+
+/**
+ * Configuration for the RAG evaluators: ContextRelevanceEvaluator,
+ * GroundednessEvaluator and ContextRecallEvaluator
+ */
+export interface RagEvaluatorConfig {
+	name: string;
+	model: LanguageModel;
+	timeout?: number;
+	modelSettings?: EvaluatorConfig["modelSettings"];
+}
+
+/**
+ * How ToolCallEvaluator lines up actual and expected tool calls:
+ * - "exact": the same calls in the same order, scored 1 or 0
+ * - "in_order": partial credit for the expected calls made in order
+ * - "any_order": partial credit for the expected calls made in any order
+ */
+export type ToolCallMatchMode = "exact" | "in_order" | "any_order";
+
+/**
+ * How tool call arguments are compared:
+ * - "exact": arguments must be deeply equal
+ * - "subset": every expected argument must be present with the same value
+ * - "ignore": only tool names are compared
+ */
+export type ToolArgumentMatch = "exact" | "subset" | "ignore";
+
+export interface ToolCallEvaluatorConfig {
+	name: string;
+	match?: ToolCallMatchMode; // Default: "exact"
+	arguments?: ToolArgumentMatch; // Default: "exact"
+}
+
+/**
+ * A deterministic check on candidateText. check returns a description of
+ * the violation, or undefined when the text passes.
+ */
+export interface Rule {
+	readonly name: string;
+	readonly check: (text: string, input: EvaluationInput) => string | undefined;
+}
+
+/**
+ * "pass_fail" scores "pass" only when every rule passes; "fraction" scores
+ * the share of rules that pass
+ */
+export type RuleScoring = "pass_fail" | "fraction";
+
+export interface RuleEvaluatorConfig {
+	name: string;
+	rules: readonly Rule[];
+	scoring?: RuleScoring; // Default: "pass_fail"
+}
+
+/**
+ * A reference-based or standalone metric wrapped as an evaluator.
+ * calculate returns the metric's full result, whose score is on a 0-100
+ * scale with higher meaning better.
+ */
+export interface MetricEvaluatorConfig<
+	TResult extends { score: number } = { score: number },
+> {
+	name: string;
+	metric: string; // e.g. "bleu"; recorded on the telemetry span
+	requiresReference: boolean; // When false, calculate receives "" for a missing referenceText
+	calculate: (
+		candidateText: string,
+		referenceText: string,
+	) => TResult | Promise<TResult>;
+	formatFeedback?: (result: TResult) => string; // Default: the result's own feedback, or "<metric> score: <score>"
+	timeout?: number; // Timeout in milliseconds
+}
+
+export type JuryAggregation =
+	| "mean"
+	| "median"
+	| "majority"
+	| ((judges: readonly EvaluatorResult[]) => number | string);
+
+/**
+ * Configuration for JuryEvaluator.
+ * Judges that return an error are left out of the aggregate score.
+ */
+export interface JuryEvaluatorConfig {
+	name: string;
+	evaluators: readonly IEvaluator[];
+	aggregation?: JuryAggregation; // Default: "mean"
+	timeout?: number;
+}
+
+/**
+ * An image attached to an evaluation: a file path, a data URL, an http(s)
+ * URL or the raw bytes (e.g. a Buffer)
+ */
+export type EvaluationImage = string | Uint8Array;
+
+/**
+ * One tool call made by an agent
+ */
+export interface TrajectoryStep {
+	readonly tool: string;
+	readonly arguments?: Readonly<Record<string, unknown>>;
+	readonly output?: unknown; // What the tool returned
+}
+
+export interface ConversationTurn {
+	readonly role: "system" | "user" | "assistant";
+	readonly content: string;
+}
+
+/**
+ * Which assistant turns of a conversation an Evaluator judges
+ */
+export type ConversationMode = "final_turn" | "every_assistant_turn";
+
 export interface EvaluationInput {
 	readonly candidateText: string;
+	readonly contexts?: readonly string[]; // Retrieved chunks, in rank order
+	readonly conversation?: readonly ConversationTurn[]; // Ordered turns; the evaluated assistant turn replaces candidateText
+	readonly trajectory?: readonly TrajectoryStep[]; // Tool calls the agent made, in order
+	readonly expectedTrajectory?: readonly TrajectoryStep[]; // Tool calls a correct agent would make
+	readonly images?: readonly EvaluationImage[]; // Sent as image parts to vision-capable models
 	readonly prompt?: string;
 	readonly referenceText?: string;
 	readonly sourceText?: string;
+	readonly comparisonText?: string; // Second candidate for pairwise comparison
 	readonly contentType?: string;
 	readonly language?: string;
+	readonly variables?: Readonly<Record<string, unknown>>; // Extra fields, e.g. batch row metadata; templates see those an evaluator declares in customVariables
+}
+
+/**
+ * Per-call options for IEvaluator.evaluate
+ */
+export interface EvaluateOptions {
+	readonly signal?: AbortSignal; // Aborts the in-flight model request
 }
 
 /**
@@ -89,5 +455,9 @@ export interface EvaluationInput {
 export interface IEvaluator {
 	readonly name: string;
 	readonly timeout?: number;
-	evaluate(input: EvaluationInput): Promise<EvaluatorResult>;
+	evaluate(
+		input: EvaluationInput,
+		options?: EvaluateOptions,
+	): Promise<EvaluatorResult>;
+	missingVariables?(input: EvaluationInput): string[]; // Input fields the evaluator requires that input lacks, checked by BatchEvaluator before evaluating
 }
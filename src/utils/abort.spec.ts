@@ -0,0 +1,89 @@
+import { jest } from "@jest/globals";
+import { abortable, createAbortScope } from "./abort.js";
+
+describe("Abort Utils", () => {
+	describe("createAbortScope", () => {
+		it("should pass the caller signal through without a timeout", () => {
+			const controller = new AbortController();
+
+			const scope = createAbortScope({
+				signal: controller.signal,
+				timeoutMessage: "timed out",
+			});
+
+			expect(scope.signal).toBe(controller.signal);
+		});
+
+		it("should abort with the timeout message when the timeout elapses", async () => {
+			const scope = createAbortScope({
+				timeout: 5,
+				timeoutMessage: "Evaluator x timed out after 5ms",
+			});
+
+			await new Promise((resolve) => setTimeout(resolve, 20));
+
+			expect(scope.signal?.aborted).toBe(true);
+			expect((scope.signal?.reason as Error).message).toBe(
+				"Evaluator x timed out after 5ms",
+			);
+			scope.dispose();
+		});
+
+		it("should abort when the caller aborts", () => {
+			const controller = new AbortController();
+			const scope = createAbortScope({
+				signal: controller.signal,
+				timeout: 1000,
+				timeoutMessage: "timed out",
+			});
+
+			controller.abort(new Error("cancelled"));
+
+			expect(scope.signal?.aborted).toBe(true);
+			expect((scope.signal?.reason as Error).message).toBe("cancelled");
+			scope.dispose();
+		});
+
+		it("should not abort after dispose", async () => {
+			const scope = createAbortScope({
+				timeout: 5,
+				timeoutMessage: "timed out",
+			});
+
+			scope.dispose();
+			await new Promise((resolve) => setTimeout(resolve, 20));
+
+			expect(scope.signal?.aborted).toBe(false);
+		});
+	});
+
+	describe("abortable", () => {
+		it("should resolve with the underlying value", async () => {
+			const controller = new AbortController();
+
+			await expect(
+				abortable(Promise.resolve(42), controller.signal),
+			).resolves.toBe(42);
+		});
+
+		it("should reject with the abort reason even if the work keeps running", async () => {
+			const controller = new AbortController();
+			const work = new Promise(() => {});
+
+			const result = abortable(work, controller.signal);
+			controller.abort(new Error("cancelled"));
+
+			await expect(result).rejects.toThrow("cancelled");
+		});
+
+		it("should reject immediately when already aborted", async () => {
+			const controller = new AbortController();
+			controller.abort(new Error("cancelled"));
+			const work = jest.fn<() => Promise<number>>().mockResolvedValue(1);
+
+			await expect(abortable(work(), controller.signal)).rejects.toThrow(
+				"cancelled",
+			);
+		});
+	});
+});
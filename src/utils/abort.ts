@@ -0,0 +1,75 @@
+export interface AbortScope {
+	readonly signal: AbortSignal | undefined;
+	dispose(): void;
+}
+
+/**
+ * Combine an optional caller signal with an optional timeout.
+ *
+ * The returned signal aborts when either the caller aborts or the timeout
+ * elapses; a timeout aborts with an Error carrying timeoutMessage. Call
+ * dispose once the work settles so the timer and listener are released
+ * and do not keep the process alive.
+ */
+export const createAbortScope = (options: {
+	signal?: AbortSignal;
+	timeout?: number;
+	timeoutMessage: string;
+}): AbortScope => {
+	const { signal, timeout } = options;
+	if (!timeout) {
+		return { signal, dispose: () => {} };
+	}
+
+	const controller = new AbortController();
+	const onAbort = () => controller.abort(signal?.reason);
+	if (signal?.aborted) {
+		onAbort();
+	} else {
+		signal?.addEventListener("abort", onAbort, { once: true });
+	}
+
+	const timer = setTimeout(
+		() => controller.abort(new Error(options.timeoutMessage)),
+		timeout,
+	);
+
+	return {
+		signal: controller.signal,
+		dispose: () => {
+			clearTimeout(timer);
+			signal?.removeEventListener("abort", onAbort);
+		},
+	};
+};
+
+/**
+ * Reject with the signal's reason as soon as it aborts, even if the
+ * underlying work ignores the signal and keeps running.
+ */
+export const abortable = <T>(
+	promise: Promise<T>,
+	signal: AbortSignal | undefined,
+): Promise<T> => {
+	if (!signal) return promise;
+	if (signal.aborted) {
+		// Keep a late rejection of the abandoned work from going unhandled
+		promise.catch(() => {});
+		return Promise.reject(signal.reason);
+	}
+
+	return new Promise<T>((resolve, reject) => {
+		const onAbort = () => reject(signal.reason);
+		signal.addEventListener("abort", onAbort, { once: true });
+		promise.then(
+			(value) => {
+				signal.removeEventListener("abort", onAbort);
+				resolve(value);
+			},
+			(error) => {
+				signal.removeEventListener("abort", onAbort);
+				reject(error);
+			},
+		);
+	});
+};
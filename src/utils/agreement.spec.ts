@@ -0,0 +1,169 @@
+import {
+	cohensKappa,
+	confusionMatrix,
+	kendallTau,
+	krippendorffAlpha,
+	pearsonCorrelation,
+	spearmanCorrelation,
+} from "./agreement.js";
+
+describe("Agreement Utils", () => {
+	describe("confusionMatrix", () => {
+		it("should count label pairs by category", () => {
+			expect(
+				confusionMatrix(["a", "a", "b", "b"], ["a", "b", "b", "b"], ["a", "b"]),
+			).toEqual([
+				[1, 1],
+				[0, 2],
+			]);
+		});
+
+		it("should ignore labels outside the categories", () => {
+			expect(confusionMatrix([1, 2, 3], [1, 2, 1], [1, 2])).toEqual([
+				[1, 0],
+				[0, 1],
+			]);
+		});
+	});
+
+	describe("cohensKappa", () => {
+		it("should correct observed agreement for chance", () => {
+			expect(
+				cohensKappa([
+					[20, 5],
+					[10, 15],
+				]),
+			).toBeCloseTo(0.4);
+		});
+
+		it("should return 1 for perfect agreement", () => {
+			const matrix = [
+				[3, 0, 0],
+				[0, 2, 0],
+				[0, 0, 4],
+			];
+			expect(cohensKappa(matrix)).toBe(1);
+			expect(cohensKappa(matrix, "quadratic")).toBe(1);
+		});
+
+		it("should give partial credit for near misses when weighted", () => {
+			const matrix = [
+				[2, 1, 0],
+				[0, 2, 1],
+				[0, 0, 3],
+			];
+			const unweighted = cohensKappa(matrix) ?? 0;
+			const linear = cohensKappa(matrix, "linear") ?? 0;
+			const quadratic = cohensKappa(matrix, "quadratic") ?? 0;
+			expect(linear).toBeGreaterThan(unweighted);
+			expect(quadratic).toBeGreaterThan(linear);
+		});
+
+		it("should weight by the distance between category values", () => {
+			const matrix = [
+				[2, 1, 0],
+				[1, 2, 0],
+				[0, 1, 3],
+			];
+			// Values 1, 2 and 10 are the 1-10 scale with only three points used
+			const full = new Array(10).fill(0).map(() => new Array(10).fill(0));
+			[0, 1, 9].forEach((row, i) => {
+				[0, 1, 9].forEach((column, j) => {
+					full[row][column] = matrix[i][j];
+				});
+			});
+
+			expect(cohensKappa(matrix, "quadratic", [1, 2, 10])).toBeCloseTo(
+				cohensKappa(full, "quadratic") ?? Number.NaN,
+			);
+			expect(cohensKappa(matrix, "quadratic", [1, 2, 10])).not.toBeCloseTo(
+				cohensKappa(matrix, "quadratic") ?? Number.NaN,
+			);
+		});
+
+		it("should be undefined when chance agreement is certain", () => {
+			expect(cohensKappa([[5]])).toBeUndefined();
+			expect(cohensKappa([])).toBeUndefined();
+		});
+	});
+
+	describe("krippendorffAlpha", () => {
+		it("should match a hand-computed nominal alpha", () => {
+			expect(
+				krippendorffAlpha([1, 1, 2, 2], [1, 2, 2, 2], [1, 2], "nominal"),
+			).toBeCloseTo(8 / 15);
+		});
+
+		it("should return 1 for perfect agreement at every level", () => {
+			for (const level of ["nominal", "ordinal", "interval"] as const) {
+				expect(krippendorffAlpha([1, 2, 3], [1, 2, 3], [1, 2, 3], level)).toBe(
+					1,
+				);
+			}
+		});
+
+		it("should penalise distant disagreements more at the interval level", () => {
+			const near = krippendorffAlpha(
+				[1, 2, 3, 4],
+				[1, 2, 4, 4],
+				[1, 2, 3, 4],
+				"interval",
+			);
+			const far = krippendorffAlpha(
+				[1, 2, 3, 4],
+				[4, 2, 3, 4],
+				[1, 2, 3, 4],
+				"interval",
+			);
+			expect(near).toBeGreaterThan(far ?? 0);
+		});
+
+		it("should be undefined without enough data or variation", () => {
+			expect(krippendorffAlpha([], [], ["a"], "nominal")).toBeUndefined();
+			expect(
+				krippendorffAlpha(["a", "a"], ["a", "a"], ["a"], "nominal"),
+			).toBeUndefined();
+		});
+	});
+
+	describe("pearsonCorrelation", () => {
+		it("should measure linear correlation", () => {
+			expect(pearsonCorrelation([1, 2, 3], [2, 4, 6])).toBeCloseTo(1);
+			expect(pearsonCorrelation([1, 2, 3], [3, 2, 1])).toBeCloseTo(-1);
+		});
+
+		it("should be undefined for constant values", () => {
+			expect(pearsonCorrelation([1, 2, 3], [2, 2, 2])).toBeUndefined();
+			expect(pearsonCorrelation([1], [1])).toBeUndefined();
+		});
+	});
+
+	describe("spearmanCorrelation", () => {
+		it("should measure monotonic correlation", () => {
+			expect(spearmanCorrelation([1, 2, 3, 4], [1, 4, 9, 16])).toBeCloseTo(1);
+		});
+
+		it("should give tied values their average rank", () => {
+			expect(spearmanCorrelation([1, 2, 2, 3], [1, 2, 3, 4])).toBeCloseTo(
+				4.5 / Math.sqrt(22.5),
+			);
+		});
+	});
+
+	describe("kendallTau", () => {
+		it("should count concordant and discordant pairs", () => {
+			expect(kendallTau([1, 2, 3], [10, 20, 30])).toBe(1);
+			expect(kendallTau([1, 2, 3], [30, 20, 10])).toBe(-1);
+		});
+
+		it("should correct for ties", () => {
+			expect(kendallTau([1, 2, 2, 3], [1, 2, 3, 4])).toBeCloseTo(
+				5 / Math.sqrt(30),
+			);
+		});
+
+		it("should be undefined when every value is tied", () => {
+			expect(kendallTau([1, 1], [1, 2])).toBeUndefined();
+		});
+	});
+});
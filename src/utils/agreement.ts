@@ -0,0 +1,212 @@
+/**
+ * Agreement and correlation statistics for two raters labelling the same
+ * items. Inputs are parallel arrays; statistics that are undefined for the
+ * data (e.g. a correlation when one rater gives a single value) return
+ * undefined.
+ */
+
+export type MeasurementLevel = "nominal" | "ordinal" | "interval";
+
+export type KappaWeighting = "linear" | "quadratic";
+
+const finite = (value: number): number | undefined =>
+	Number.isFinite(value) ? value : undefined;
+
+/**
+ * Counts of (a, b) label pairs. matrix[i][j] counts items a labelled
+ * categories[i] and b labelled categories[j].
+ */
+export const confusionMatrix = <T>(
+	a: readonly T[],
+	b: readonly T[],
+	categories: readonly T[],
+): number[][] => {
+	const position = new Map(
+		categories.map((category, index) => [category, index]),
+	);
+	const matrix = categories.map(() =>
+		new Array<number>(categories.length).fill(0),
+	);
+	a.forEach((value, index) => {
+		const row = position.get(value);
+		const column = position.get(b[index]);
+		if (row !== undefined && column !== undefined) {
+			matrix[row][column]++;
+		}
+	});
+	return matrix;
+};
+
+/**
+ * Cohen's kappa from a confusion matrix. Without weighting only exact
+ * matches agree; linear and quadratic weighting give partial credit by how
+ * far apart two ordered categories are. values places each category on the
+ * scale, e.g. the scores of an interval scale with gaps; by default the
+ * categories are evenly spaced.
+ */
+export const cohensKappa = (
+	matrix: readonly (readonly number[])[],
+	weighting?: KappaWeighting,
+	values?: readonly number[],
+): number | undefined => {
+	const size = matrix.length;
+	const total = matrix.reduce(
+		(sum, row) => sum + row.reduce((rowSum, count) => rowSum + count, 0),
+		0,
+	);
+	if (size === 0 || total === 0) return undefined;
+
+	const rowTotals = matrix.map((row) =>
+		row.reduce((sum, count) => sum + count, 0),
+	);
+	const columnTotals = matrix[0].map((_, j) =>
+		matrix.reduce((sum, row) => sum + row[j], 0),
+	);
+	const positions = values ?? matrix.map((_, index) => index);
+	const range = Math.max(...positions) - Math.min(...positions);
+	const disagreement = (i: number, j: number): number => {
+		if (!weighting) return i === j ? 0 : 1;
+		const distance =
+			range === 0 ? 0 : Math.abs(positions[i] - positions[j]) / range;
+		return weighting === "linear" ? distance : distance ** 2;
+	};
+
+	let observed = 0;
+	let expected = 0;
+	for (let i = 0; i < size; i++) {
+		for (let j = 0; j < size; j++) {
+			const weight = disagreement(i, j);
+			observed += (weight * matrix[i][j]) / total;
+			expected += (weight * rowTotals[i] * columnTotals[j]) / total ** 2;
+		}
+	}
+	return expected === 0 ? undefined : 1 - observed / expected;
+};
+
+/**
+ * Krippendorff's alpha for two raters who labelled every item. categories
+ * must be in scale order for the ordinal level and numeric for the
+ * interval level.
+ */
+export const krippendorffAlpha = <T>(
+	a: readonly T[],
+	b: readonly T[],
+	categories: readonly T[],
+	level: MeasurementLevel,
+): number | undefined => {
+	// Each item contributes both ordered pairs to the coincidence matrix
+	const pairs = confusionMatrix(a, b, categories);
+	const coincidences = pairs.map((row, i) =>
+		row.map((count, j) => count + pairs[j][i]),
+	);
+	const totals = coincidences.map((row) =>
+		row.reduce((sum, count) => sum + count, 0),
+	);
+	const n = totals.reduce((sum, count) => sum + count, 0);
+	if (n < 2) return undefined;
+
+	const distance = (c: number, k: number): number => {
+		if (c === k) return 0;
+		if (level === "nominal") return 1;
+		if (level === "interval") {
+			return (Number(categories[c]) - Number(categories[k])) ** 2;
+		}
+		const [low, high] = c < k ? [c, k] : [k, c];
+		let between = 0;
+		for (let g = low; g <= high; g++) between += totals[g];
+		return (between - (totals[c] + totals[k]) / 2) ** 2;
+	};
+
+	let observed = 0;
+	let expected = 0;
+	for (let c = 0; c < categories.length; c++) {
+		for (let k = 0; k < categories.length; k++) {
+			const delta = distance(c, k);
+			observed += coincidences[c][k] * delta;
+			expected += totals[c] * totals[k] * delta;
+		}
+	}
+	return expected === 0 ? undefined : 1 - ((n - 1) * observed) / expected;
+};
+
+export const pearsonCorrelation = (
+	x: readonly number[],
+	y: readonly number[],
+): number | undefined => {
+	if (x.length < 2) return undefined;
+
+	const meanX = x.reduce((sum, value) => sum + value, 0) / x.length;
+	const meanY = y.reduce((sum, value) => sum + value, 0) / y.length;
+	let covariance = 0;
+	let varianceX = 0;
+	let varianceY = 0;
+	x.forEach((value, index) => {
+		covariance += (value - meanX) * (y[index] - meanY);
+		varianceX += (value - meanX) ** 2;
+		varianceY += (y[index] - meanY) ** 2;
+	});
+	return finite(covariance / Math.sqrt(varianceX * varianceY));
+};
+
+/**
+ * Ranks starting at 1, with tied values sharing their average rank
+ */
+const rank = (values: readonly number[]): number[] => {
+	const order = values
+		.map((value, index) => ({ value, index }))
+		.sort((a, b) => a.value - b.value);
+	const ranks = new Array<number>(values.length);
+	let start = 0;
+	while (start < order.length) {
+		let end = start;
+		while (
+			end + 1 < order.length &&
+			order[end + 1].value === order[start].value
+		) {
+			end++;
+		}
+		for (let i = start; i <= end; i++) {
+			ranks[order[i].index] = (start + end) / 2 + 1;
+		}
+		start = end + 1;
+	}
+	return ranks;
+};
+
+/**
+ * Pearson correlation of the ranks
+ */
+export const spearmanCorrelation = (
+	x: readonly number[],
+	y: readonly number[],
+): number | undefined => pearsonCorrelation(rank(x), rank(y));
+
+/**
+ * Kendall's tau-b, which corrects for ties in either rater's values
+ */
+export const kendallTau = (
+	x: readonly number[],
+	y: readonly number[],
+): number | undefined => {
+	let concordant = 0;
+	let discordant = 0;
+	let tiedX = 0;
+	let tiedY = 0;
+	for (let i = 0; i < x.length; i++) {
+		for (let j = i + 1; j < x.length; j++) {
+			const signX = Math.sign(x[i] - x[j]);
+			const signY = Math.sign(y[i] - y[j]);
+			if (signX === 0 && signY === 0) continue;
+			if (signX === 0) tiedX++;
+			else if (signY === 0) tiedY++;
+			else if (signX === signY) concordant++;
+			else discordant++;
+		}
+	}
+	return finite(
+		(concordant - discordant) /
+			Math.sqrt(
+				(concordant + discordant + tiedX) * (concordant + discordant + tiedY),
+			),
+	);
+};
@@ -0,0 +1,45 @@
+import {
+	findAssistantTurns,
+	formatConversation,
+	isConversation,
+} from "./conversation.js";
+
+describe("Conversation Utils", () => {
+	const conversation = [
+		{ role: "system" as const, content: "Be helpful" },
+		{ role: "user" as const, content: "Hi" },
+		{ role: "assistant" as const, content: "Hello!" },
+		{ role: "user" as const, content: "Bye" },
+		{ role: "assistant" as const, content: "Goodbye!" },
+	];
+
+	describe("formatConversation", () => {
+		it("should label each turn with its role", () => {
+			expect(formatConversation(conversation.slice(1, 3))).toBe(
+				"User: Hi\n\nAssistant: Hello!",
+			);
+		});
+
+		it("should return an empty string for no turns", () => {
+			expect(formatConversation([])).toBe("");
+		});
+	});
+
+	describe("findAssistantTurns", () => {
+		it("should return the positions of assistant turns", () => {
+			expect(findAssistantTurns(conversation)).toEqual([2, 4]);
+		});
+	});
+
+	describe("isConversation", () => {
+		it("should accept role/content turns", () => {
+			expect(isConversation(conversation)).toBe(true);
+		});
+
+		it("should reject unknown roles and missing content", () => {
+			expect(isConversation([{ role: "bot", content: "Hi" }])).toBe(false);
+			expect(isConversation([{ role: "user" }])).toBe(false);
+			expect(isConversation("User: Hi")).toBe(false);
+		});
+	});
+});
@@ -0,0 +1,41 @@
+import type { ConversationTurn } from "../types/evaluator.js";
+
+const ROLE_LABELS: Record<ConversationTurn["role"], string> = {
+	system: "System",
+	user: "User",
+	assistant: "Assistant",
+};
+
+/**
+ * Render conversation turns as a plain-text transcript, one
+ * "Role: content" block per turn
+ */
+export const formatConversation = (
+	turns: readonly ConversationTurn[],
+): string =>
+	turns
+		.map((turn) => `${ROLE_LABELS[turn.role]}: ${turn.content}`)
+		.join("\n\n");
+
+/**
+ * Positions of the assistant turns in a conversation
+ */
+export const findAssistantTurns = (
+	turns: readonly ConversationTurn[],
+): number[] =>
+	turns.flatMap((turn, index) => (turn.role === "assistant" ? [index] : []));
+
+/**
+ * Check that a parsed value is a list of role/content turns
+ */
+export const isConversation = (value: unknown): value is ConversationTurn[] =>
+	Array.isArray(value) &&
+	value.every(
+		(turn) =>
+			typeof turn === "object" &&
+			turn !== null &&
+			["system", "user", "assistant"].includes(
+				(turn as Record<string, unknown>).role as string,
+			) &&
+			typeof (turn as Record<string, unknown>).content === "string",
+	);
@@ -0,0 +1,65 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { fingerprintImage, resolveImage } from "./images.js";
+
+describe("Image Utils", () => {
+	let directory: string;
+
+	beforeAll(async () => {
+		directory = await mkdtemp(join(tmpdir(), "eval-kit-images-"));
+	});
+
+	afterAll(async () => {
+		await rm(directory, { recursive: true, force: true });
+	});
+
+	describe("resolveImage", () => {
+		it("should pass bytes through unchanged", async () => {
+			const bytes = Buffer.from([1, 2, 3]);
+
+			const resolved = await resolveImage(bytes);
+
+			expect(resolved.image).toBe(bytes);
+			expect(resolved.mediaType).toBeUndefined();
+		});
+
+		it("should treat data URLs and http URLs as URLs", async () => {
+			const dataUrl = await resolveImage("data:image/png;base64,iVBORw0KGgo=");
+			const httpUrl = await resolveImage("https://example.com/hotel.jpg");
+
+			expect(dataUrl.image).toBeInstanceOf(URL);
+			expect((httpUrl.image as URL).href).toBe("https://example.com/hotel.jpg");
+		});
+
+		it("should read file paths and infer the media type", async () => {
+			const path = join(directory, "pool.JPG");
+			await writeFile(path, Buffer.from([255, 216, 255]));
+
+			const resolved = await resolveImage(path);
+
+			expect(resolved.image).toEqual(new Uint8Array([255, 216, 255]));
+			expect(resolved.mediaType).toBe("image/jpeg");
+		});
+
+		it("should name the path when a file cannot be read", async () => {
+			await expect(
+				resolveImage(join(directory, "missing.png")),
+			).rejects.toThrow("Failed to read image");
+		});
+	});
+
+	describe("fingerprintImage", () => {
+		it("should be stable for identical content", () => {
+			expect(fingerprintImage({ image: new Uint8Array([1, 2]) })).toBe(
+				fingerprintImage({ image: new Uint8Array([1, 2]) }),
+			);
+		});
+
+		it("should differ for different content", () => {
+			expect(fingerprintImage({ image: new Uint8Array([1, 2]) })).not.toBe(
+				fingerprintImage({ image: new URL("https://example.com/a.png") }),
+			);
+		});
+	});
+});
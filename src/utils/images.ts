@@ -0,0 +1,57 @@
+import { createHash } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import { extname } from "node:path";
+import type { EvaluationImage } from "../types/evaluator.js";
+
+export interface ResolvedImage {
+	readonly image: Uint8Array | URL;
+	readonly mediaType?: string;
+}
+
+const MEDIA_TYPES: Record<string, string> = {
+	".gif": "image/gif",
+	".jpeg": "image/jpeg",
+	".jpg": "image/jpeg",
+	".png": "image/png",
+	".webp": "image/webp",
+};
+
+const URL_PATTERN = /^(data:|https?:\/\/)/i;
+
+/**
+ * Turn an image input into something generateText accepts.
+ *
+ * Data URLs and http(s) URLs are passed on as URLs, bytes are passed on
+ * unchanged and any other string is read from disk as a file path.
+ */
+export const resolveImage = async (
+	image: EvaluationImage,
+): Promise<ResolvedImage> => {
+	if (typeof image !== "string") {
+		return { image };
+	}
+	if (URL_PATTERN.test(image)) {
+		return { image: new URL(image) };
+	}
+
+	try {
+		const data = await readFile(image);
+		return {
+			image: new Uint8Array(data),
+			mediaType: MEDIA_TYPES[extname(image).toLowerCase()],
+		};
+	} catch (error) {
+		throw new Error(
+			`Failed to read image ${image}: ${error instanceof Error ? error.message : String(error)}`,
+		);
+	}
+};
+
+/**
+ * Short, stable identifier for an image's content, for use in cache keys
+ */
+export const fingerprintImage = (image: ResolvedImage): string => {
+	const hash = createHash("sha256");
+	hash.update(image.image instanceof URL ? image.image.href : image.image);
+	return hash.digest("hex");
+};
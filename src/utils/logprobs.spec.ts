@@ -0,0 +1,149 @@
+import {
+	calculateScoreDistribution,
+	extractTokenLogprobs,
+	type TokenLogprob,
+} from "./logprobs.js";
+
+const token = (
+	text: string,
+	alternatives: [string, number][] = [],
+): TokenLogprob => ({
+	token: text,
+	logprob: alternatives[0]?.[1] ?? 0,
+	topLogprobs: alternatives.map(([alternative, probability]) => ({
+		token: alternative,
+		logprob: Math.log(probability),
+	})),
+});
+
+describe("Logprob Utils", () => {
+	describe("extractTokenLogprobs", () => {
+		it("should return undefined without OpenAI logprobs", () => {
+			expect(extractTokenLogprobs(undefined)).toBeUndefined();
+			expect(extractTokenLogprobs({ openai: {} })).toBeUndefined();
+			expect(
+				extractTokenLogprobs({ anthropic: { logprobs: [] } }),
+			).toBeUndefined();
+		});
+
+		it("should read chat API logprobs", () => {
+			const tokens = extractTokenLogprobs({
+				openai: {
+					logprobs: [
+						{
+							token: "7",
+							logprob: -0.1,
+							top_logprobs: [{ token: "7", logprob: -0.1 }],
+						},
+					],
+				},
+			});
+
+			expect(tokens).toEqual([
+				{
+					token: "7",
+					logprob: -0.1,
+					topLogprobs: [{ token: "7", logprob: -0.1, topLogprobs: [] }],
+				},
+			]);
+		});
+
+		it("should flatten responses API logprobs", () => {
+			const tokens = extractTokenLogprobs({
+				openai: {
+					logprobs: [
+						[
+							{ token: "a", logprob: -1, top_logprobs: [] },
+							{ token: "b", logprob: -2, top_logprobs: [] },
+						],
+					],
+				},
+			});
+
+			expect(tokens?.map((entry) => entry.token)).toEqual(["a", "b"]);
+		});
+	});
+
+	describe("calculateScoreDistribution", () => {
+		it("should compute the probability-weighted score", () => {
+			const distribution = calculateScoreDistribution(
+				[
+					token('{"'),
+					token("score"),
+					token('":'),
+					token("7", [
+						["7", 0.6],
+						["8", 0.3],
+						["6", 0.1],
+					]),
+					token(',"feedback":"ok"}'),
+				],
+				{ min: 1, max: 10 },
+			);
+
+			expect(distribution?.structuredScore).toBe(7);
+			expect(distribution?.expectedScore).toBeCloseTo(7.2);
+			expect(distribution?.probabilities).toEqual([
+				{ score: 6, probability: expect.closeTo(0.1) },
+				{ score: 7, probability: expect.closeTo(0.6) },
+				{ score: 8, probability: expect.closeTo(0.3) },
+			]);
+			expect(distribution?.coverage).toBeCloseTo(1);
+		});
+
+		it("should ignore alternatives that are not valid scores", () => {
+			const distribution = calculateScoreDistribution(
+				[
+					token('{"score": '),
+					token("5", [
+						["5", 0.5],
+						[" 5", 0.1],
+						["4", 0.2],
+						["11", 0.1],
+						["five", 0.1],
+					]),
+				],
+				{ min: 1, max: 10 },
+			);
+
+			expect(distribution?.coverage).toBeCloseTo(0.8);
+			expect(distribution?.expectedScore).toBeCloseTo(
+				(5 * 0.6 + 4 * 0.2) / 0.8,
+			);
+		});
+
+		it("should use the last score field so rubric criteria are skipped", () => {
+			const distribution = calculateScoreDistribution(
+				[
+					token('{"criteria":{"accuracy":{"score":'),
+					token("2", [["2", 1]]),
+					token('}},"score":'),
+					token("9", [["9", 1]]),
+					token("}"),
+				],
+				{ min: 0, max: 10 },
+			);
+
+			expect(distribution?.structuredScore).toBe(9);
+			expect(distribution?.expectedScore).toBe(9);
+		});
+
+		it("should not treat score keys inside strings as the score field", () => {
+			const distribution = calculateScoreDistribution(
+				[token('{"feedback":"the \\"score\\": '), token("3"), token('"}')],
+				{ min: 0, max: 10 },
+			);
+
+			expect(distribution).toBeUndefined();
+		});
+
+		it("should return undefined when no score token is found", () => {
+			expect(
+				calculateScoreDistribution([token('{"feedback":"ok"}')], {
+					min: 0,
+					max: 10,
+				}),
+			).toBeUndefined();
+		});
+	});
+});
@@ -0,0 +1,124 @@
+import type { ScoreDistribution } from "../types/evaluator.js";
+
+export interface TokenLogprob {
+	readonly token: string;
+	readonly logprob: number;
+	readonly topLogprobs: readonly { token: string; logprob: number }[];
+}
+
+// Matches a JSON "score" key with its colon, at the end of the text so far
+const SCORE_KEY_PATTERN = /"score"\s*:\s*$/;
+const INTEGER_TOKEN_PATTERN = /^\s*(-?\d+)\s*$/;
+
+function toTokenLogprob(value: unknown): TokenLogprob | undefined {
+	if (!value || typeof value !== "object") return undefined;
+	const record = value as Record<string, unknown>;
+	if (typeof record.token !== "string" || typeof record.logprob !== "number") {
+		return undefined;
+	}
+
+	const alternatives = Array.isArray(record.top_logprobs)
+		? record.top_logprobs
+		: Array.isArray(record.topLogprobs)
+			? record.topLogprobs
+			: [];
+
+	return {
+		token: record.token,
+		logprob: record.logprob,
+		topLogprobs: alternatives
+			.map(toTokenLogprob)
+			.filter((entry) => entry !== undefined),
+	};
+}
+
+/**
+ * Read token logprobs from AI SDK provider metadata.
+ *
+ * The OpenAI chat API reports a flat list of tokens while the responses API
+ * reports one list per output part; both are flattened into a single list.
+ * Returns undefined when the provider did not return logprobs.
+ */
+export const extractTokenLogprobs = (
+	providerMetadata: unknown,
+): TokenLogprob[] | undefined => {
+	const openai = (providerMetadata as Record<string, unknown> | undefined)
+		?.openai as Record<string, unknown> | undefined;
+	if (!Array.isArray(openai?.logprobs)) return undefined;
+
+	const tokens = (openai.logprobs as unknown[])
+		.flat()
+		.map(toTokenLogprob)
+		.filter((entry) => entry !== undefined);
+	return tokens.length > 0 ? tokens : undefined;
+};
+
+/**
+ * Compute a probability-weighted score from the logprobs of the token the
+ * judge wrote as the value of the top-level "score" field.
+ *
+ * Any earlier "score" keys (e.g. rubric criteria) are skipped, since the
+ * overall score always follows them. Alternatives at that position that are
+ * not integers between min and max are ignored and the remaining
+ * probabilities are renormalised. Returns undefined when the score token
+ * cannot be found or has no valid alternatives.
+ */
+export const calculateScoreDistribution = (
+	tokens: readonly TokenLogprob[],
+	range: { min: number; max: number },
+): ScoreDistribution | undefined => {
+	let scoreToken: TokenLogprob | undefined;
+	let text = "";
+	for (const token of tokens) {
+		if (
+			SCORE_KEY_PATTERN.test(text.slice(-32)) &&
+			INTEGER_TOKEN_PATTERN.test(token.token)
+		) {
+			scoreToken = token;
+		}
+		text += token.token;
+	}
+	if (!scoreToken) return undefined;
+
+	const structuredScore = Number(
+		INTEGER_TOKEN_PATTERN.exec(scoreToken.token)?.[1],
+	);
+	const alternatives =
+		scoreToken.topLogprobs.length > 0 ? scoreToken.topLogprobs : [scoreToken];
+
+	// Tokens such as "7" and " 7" describe the same score
+	const probabilities = new Map<number, number>();
+	for (const alternative of alternatives) {
+		const match = INTEGER_TOKEN_PATTERN.exec(alternative.token);
+		if (!match) continue;
+		const score = Number(match[1]);
+		if (score < range.min || score > range.max) continue;
+		probabilities.set(
+			score,
+			(probabilities.get(score) ?? 0) + Math.exp(alternative.logprob),
+		);
+	}
+
+	const coverage = [...probabilities.values()].reduce(
+		(sum, probability) => sum + probability,
+		0,
+	);
+	if (coverage === 0) return undefined;
+
+	const distribution = [...probabilities.entries()]
+		.sort(([a], [b]) => a - b)
+		.map(([score, probability]) => ({
+			score,
+			probability: probability / coverage,
+		}));
+
+	return {
+		expectedScore: distribution.reduce(
+			(sum, { score, probability }) => sum + score * probability,
+			0,
+		),
+		structuredScore,
+		probabilities: distribution,
+		coverage: Math.min(coverage, 1),
+	};
+};
@@ -0,0 +1,79 @@
+import { normalizeScore, validateScoreConfig } from "./score-normalization.js";
+
+describe("Score Normalization Utils", () => {
+	describe("normalizeScore", () => {
+		it("should scale numeric scores to [0, 1]", () => {
+			const config = { type: "numeric", min: 0, max: 100 } as const;
+
+			expect(normalizeScore(0, config)).toBe(0);
+			expect(normalizeScore(25, config)).toBe(0.25);
+			expect(normalizeScore(100, config)).toBe(1);
+		});
+
+		it("should clamp numeric scores outside the range", () => {
+			const config = { type: "numeric", min: 1, max: 5 } as const;
+
+			expect(normalizeScore(0, config)).toBe(0);
+			expect(normalizeScore(7, config)).toBe(1);
+		});
+
+		it("should return 1 for an empty numeric range", () => {
+			expect(normalizeScore(3, { type: "numeric", min: 3, max: 3 })).toBe(1);
+		});
+
+		it("should use ordinal position for categories", () => {
+			const config = {
+				type: "categorical",
+				categories: ["poor", "fair", "good"],
+			} as const;
+
+			expect(normalizeScore("poor", config)).toBe(0);
+			expect(normalizeScore("fair", config)).toBe(0.5);
+			expect(normalizeScore("good", config)).toBe(1);
+		});
+
+		it("should prefer explicit category values", () => {
+			const config = {
+				type: "categorical",
+				categories: ["fail", "pass"],
+				values: { fail: 0.2, pass: 0.9 },
+			} as const;
+
+			expect(normalizeScore("fail", config)).toBe(0.2);
+		});
+
+		it("should return undefined for scores that do not fit the config", () => {
+			expect(
+				normalizeScore("great", {
+					type: "categorical",
+					categories: ["poor", "good"],
+				}),
+			).toBeUndefined();
+			expect(
+				normalizeScore("5", { type: "numeric", min: 0, max: 10 }),
+			).toBeUndefined();
+		});
+	});
+
+	describe("validateScoreConfig", () => {
+		it("should accept complete category values", () => {
+			expect(() =>
+				validateScoreConfig({
+					type: "categorical",
+					categories: ["no", "yes"],
+					values: { no: 0, yes: 1 },
+				}),
+			).not.toThrow();
+		});
+
+		it("should reject values outside [0, 1]", () => {
+			expect(() =>
+				validateScoreConfig({
+					type: "categorical",
+					categories: ["no", "yes"],
+					values: { no: 0, yes: 10 },
+				}),
+			).toThrow("must be between 0 and 1");
+		});
+	});
+});
@@ -0,0 +1,52 @@
+import type { ScoreConfig } from "../types/evaluator.js";
+
+/**
+ * Check that explicit category values cover every category and lie in [0, 1]
+ */
+export const validateScoreConfig = (scoreConfig: ScoreConfig): void => {
+	if (scoreConfig.type !== "categorical" || !scoreConfig.values) return;
+
+	for (const category of scoreConfig.categories) {
+		const value = scoreConfig.values[category];
+		if (value === undefined) {
+			throw new Error(`Missing value for category ${category}`);
+		}
+		if (!(value >= 0 && value <= 1)) {
+			throw new Error(
+				`Value for category ${category} must be between 0 and 1, got ${value}`,
+			);
+		}
+	}
+};
+
+/**
+ * Map a score onto [0, 1] using its ScoreConfig.
+ *
+ * Numeric scores are scaled by min and max and clamped. Categorical scores
+ * use the explicit category value when configured, otherwise their position
+ * in categories (first is 0, last is 1). Returns undefined for scores that
+ * do not fit the config.
+ */
+export const normalizeScore = (
+	score: number | string,
+	scoreConfig: ScoreConfig,
+): number | undefined => {
+	if (scoreConfig.type === "numeric") {
+		if (typeof score !== "number" || Number.isNaN(score)) return undefined;
+
+		const range = scoreConfig.max - scoreConfig.min;
+		if (range === 0) return 1;
+		const normalized = (score - scoreConfig.min) / range;
+		return Math.min(1, Math.max(0, normalized));
+	}
+
+	if (typeof score !== "string") return undefined;
+	const explicit = scoreConfig.values?.[score];
+	if (explicit !== undefined) return explicit;
+
+	const index = scoreConfig.categories.indexOf(score);
+	if (index === -1) return undefined;
+	return scoreConfig.categories.length === 1
+		? 1
+		: index / (scoreConfig.categories.length - 1);
+};
@@ -0,0 +1,90 @@
+import {
+	agreementRatio,
+	mean,
+	median,
+	mode,
+	percentile,
+	standardDeviation,
+} from "./statistics.js";
+
+describe("Statistics Utils", () => {
+	describe("mean", () => {
+		it("should average values", () => {
+			expect(mean([1, 2, 3, 4])).toBe(2.5);
+		});
+
+		it("should return 0 for no values", () => {
+			expect(mean([])).toBe(0);
+		});
+	});
+
+	describe("median", () => {
+		it("should return the middle value for odd counts", () => {
+			expect(median([9, 1, 5])).toBe(5);
+		});
+
+		it("should average the middle values for even counts", () => {
+			expect(median([4, 1, 3, 2])).toBe(2.5);
+		});
+
+		it("should not mutate the input", () => {
+			const values = [3, 1, 2];
+			median(values);
+			expect(values).toEqual([3, 1, 2]);
+		});
+	});
+
+	describe("mode", () => {
+		it("should return the most frequent value", () => {
+			expect(mode(["good", "poor", "good"])).toBe("good");
+		});
+
+		it("should break ties by first occurrence", () => {
+			expect(mode([2, 1, 1, 2])).toBe(2);
+		});
+
+		it("should return undefined for no values", () => {
+			expect(mode([])).toBeUndefined();
+		});
+	});
+
+	describe("standardDeviation", () => {
+		it("should calculate the population standard deviation", () => {
+			expect(standardDeviation([2, 4, 4, 4, 5, 5, 7, 9])).toBe(2);
+		});
+
+		it("should return 0 for identical values", () => {
+			expect(standardDeviation([7, 7, 7])).toBe(0);
+		});
+	});
+
+	describe("agreementRatio", () => {
+		it("should return the share of values matching the mode", () => {
+			expect(agreementRatio(["good", "good", "poor", "good"])).toBe(0.75);
+		});
+
+		it("should return 1 for unanimous values", () => {
+			expect(agreementRatio([5, 5])).toBe(1);
+		});
+
+		it("should return 0 for no values", () => {
+			expect(agreementRatio([])).toBe(0);
+		});
+	});
+
+	describe("percentile", () => {
+		it("should interpolate between ranks", () => {
+			expect(percentile([1, 2, 3, 4, 5], 0.5)).toBe(3);
+			expect(percentile([4, 1, 3, 2], 0.25)).toBe(1.75);
+		});
+
+		it("should clamp to the smallest and largest values", () => {
+			expect(percentile([3, 1, 2], 0)).toBe(1);
+			expect(percentile([3, 1, 2], 1.5)).toBe(3);
+		});
+
+		it("should return 0 for no values", () => {
+			expect(percentile([], 0.5)).toBe(0);
+		});
+	});
+});
@@ -0,0 +1,83 @@
+export const mean = (values: readonly number[]): number => {
+	if (values.length === 0) {
+		return 0;
+	}
+	return values.reduce((sum, value) => sum + value, 0) / values.length;
+};
+
+export const median = (values: readonly number[]): number => {
+	if (values.length === 0) {
+		return 0;
+	}
+
+	const sorted = [...values].sort((a, b) => a - b);
+	const middle = Math.floor(sorted.length / 2);
+	return sorted.length % 2 === 0
+		? (sorted[middle - 1] + sorted[middle]) / 2
+		: sorted[middle];
+};
+
+/**
+ * Most frequent value. Ties are broken by first occurrence.
+ */
+export const mode = <T>(values: readonly T[]): T | undefined => {
+	const counts = new Map<T, number>();
+	for (const value of values) {
+		counts.set(value, (counts.get(value) ?? 0) + 1);
+	}
+
+	// Map iteration follows insertion order, so earlier values win ties
+	let best: T | undefined;
+	let bestCount = 0;
+	for (const [value, count] of counts) {
+		if (count > bestCount) {
+			best = value;
+			bestCount = count;
+		}
+	}
+
+	return best;
+};
+
+/**
+ * Population standard deviation
+ */
+export const standardDeviation = (values: readonly number[]): number => {
+	if (values.length === 0) {
+		return 0;
+	}
+
+	const average = mean(values);
+	const variance =
+		values.reduce((sum, value) => sum + (value - average) ** 2, 0) /
+		values.length;
+	return Math.sqrt(variance);
+};
+
+/**
+ * Fraction of values equal to the most frequent value
+ */
+export const agreementRatio = <T>(values: readonly T[]): number => {
+	if (values.length === 0) {
+		return 0;
+	}
+
+	const modal = mode(values);
+	return values.filter((value) => value === modal).length / values.length;
+};
+
+/**
+ * Value below which a share p of the values fall, interpolating linearly
+ * between the two nearest ranks
+ */
+export const percentile = (values: readonly number[], p: number): number => {
+	if (values.length === 0) {
+		return 0;
+	}
+
+	const sorted = [...values].sort((a, b) => a - b);
+	const rank = Math.min(1, Math.max(0, p)) * (sorted.length - 1);
+	const lower = Math.floor(rank);
+	const upper = Math.ceil(rank);
+	return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+};
@@ -166,6 +166,189 @@ Provide feedback.`);
 		});
 	});
 
+	describe("each", () => {
+		it("should repeat the body for every item", () => {
+			const template =
+				"{{#each contexts}}[{{@index}}] {{this}}\n{{/each}}Question: {{prompt}}";
+			const result = renderer.render(template, {
+				contexts: ["First chunk", "Second chunk"],
+				prompt: "Why?",
+			});
+
+			expect(result).toBe("[0] First chunk\n[1] Second chunk\nQuestion: Why?");
+		});
+
+		it("should render outer variables inside the body", () => {
+			const template = "{{#each items}}{{name}}: {{this}};{{/each}}";
+			const result = renderer.render(template, {
+				items: [1, 2],
+				name: "n",
+			});
+
+			expect(result).toBe("n: 1;n: 2;");
+		});
+
+		it("should render nothing for empty or missing lists", () => {
+			const template = "A{{#each items}}{{this}}{{/each}}B";
+
+			expect(renderer.render(template, { items: [] })).toBe("AB");
+			expect(renderer.render(template, {})).toBe("AB");
+		});
+
+		it("should not render template syntax inside items", () => {
+			const template = "{{#each items}}{{this}}{{/each}} {{secret}}";
+			const result = renderer.render(template, {
+				items: ["{{secret}}"],
+				secret: "s",
+			});
+
+			expect(result).toBe("{{secret}} s");
+		});
+	});
+
+	describe("else", () => {
+		it("should render the else branch of a falsy conditional", () => {
+			const template =
+				"{{#if reference}}Ref: {{reference}}{{else}}No reference{{/if}}";
+
+			expect(renderer.render(template, { reference: "R" })).toBe("Ref: R");
+			expect(renderer.render(template, { reference: "" })).toBe("No reference");
+		});
+
+		it("should render the else branch of an empty loop", () => {
+			const template =
+				"{{#each contexts}}- {{this}}\n{{else}}No contexts{{/each}}";
+
+			expect(renderer.render(template, { contexts: [] })).toBe("No contexts");
+			expect(renderer.render(template, { contexts: ["a"] })).toBe("- a");
+		});
+	});
+
+	describe("nesting", () => {
+		it("should render nested conditionals", () => {
+			const template =
+				"{{#if a}}A{{#if b}}B{{else}}!B{{/if}}{{else}}!A{{#if b}}B{{/if}}{{/if}}";
+
+			expect(renderer.render(template, { a: true, b: true })).toBe("AB");
+			expect(renderer.render(template, { a: true })).toBe("A!B");
+			expect(renderer.render(template, { b: true })).toBe("!AB");
+		});
+
+		it("should render conditionals and loops inside loops", () => {
+			const template =
+				"{{#each examples}}{{#if this.good}}+{{else}}-{{/if}}{{#each this.tags}}[{{this}}]{{/each}} {{/each}}";
+			const result = renderer.render(template, {
+				examples: [
+					{ good: true, tags: ["x", "y"] },
+					{ good: false, tags: [] },
+				],
+			});
+
+			expect(result).toBe("+[x][y] -");
+		});
+	});
+
+	describe("dotted paths", () => {
+		it("should read nested object fields", () => {
+			const template = "{{metadata.hotel.name}} in {{metadata.destination}}";
+			const result = renderer.render(template, {
+				metadata: { destination: "Crete", hotel: { name: "Sea View" } },
+			});
+
+			expect(result).toBe("Sea View in Crete");
+		});
+
+		it("should read fields of the current loop item", () => {
+			const template =
+				"{{#each examples}}{{@index}}: {{this.input}} -> {{this.score}}\n{{/each}}";
+			const result = renderer.render(template, {
+				examples: [
+					{ input: "a", score: 1 },
+					{ input: "b", score: 5 },
+				],
+			});
+
+			expect(result).toBe("0: a -> 1\n1: b -> 5");
+		});
+
+		it("should use dotted paths in conditions", () => {
+			const template = "{{#if metadata.brand}}Brand: {{metadata.brand}}{{/if}}";
+
+			expect(renderer.render(template, { metadata: { brand: "B" } })).toBe(
+				"Brand: B",
+			);
+			expect(renderer.render(template, { metadata: {} })).toBe("");
+		});
+
+		it("should render missing paths as empty", () => {
+			const template = "[{{a.b.c}}][{{text.length}}][{{a.toString}}]";
+
+			expect(renderer.render(template, { a: { b: 1 }, text: "abc" })).toBe(
+				"[][][]",
+			);
+		});
+
+		it("should index into arrays", () => {
+			const template = "{{contexts.0}} ({{contexts.length}} chunks)";
+
+			expect(renderer.render(template, { contexts: ["first", "second"] })).toBe(
+				"first (2 chunks)",
+			);
+		});
+	});
+
+	describe("filters", () => {
+		it("should change case", () => {
+			expect(renderer.render("{{name | upper}}", { name: "Tone" })).toBe(
+				"TONE",
+			);
+			expect(renderer.render("{{name|lower}}", { name: "Tone" })).toBe("tone");
+		});
+
+		it("should truncate long values", () => {
+			const template = "{{text | truncate 5}}";
+
+			expect(renderer.render(template, { text: "Hello world" })).toBe(
+				"Hello...",
+			);
+			expect(renderer.render(template, { text: "Hi" })).toBe("Hi");
+		});
+
+		it("should render values as indented JSON", () => {
+			const result = renderer.render("{{metadata | json}}", {
+				metadata: { a: 1 },
+			});
+
+			expect(result).toBe('{\n  "a": 1\n}');
+		});
+
+		it("should apply filters in order", () => {
+			const template = "{{metadata | json | truncate 6 | upper}}";
+
+			expect(renderer.render(template, { metadata: { ab: 1 } })).toBe(
+				'{\n  "A...',
+			);
+		});
+
+		it("should render missing values as empty", () => {
+			expect(renderer.render("[{{a | upper}}][{{a | json}}]", {})).toBe("[][]");
+		});
+	});
+
+	describe("invalid templates", () => {
+		it("should throw when rendering an invalid template", () => {
+			expect(() => renderer.render("{{#if a}}text", { a: true })).toThrow(
+				"Invalid template: Mismatched conditional blocks",
+			);
+		});
+
+		it("should keep tags that are not expressions as text", () => {
+			expect(renderer.render("{{ not a variable }} {{x}}", { x: 1 })).toBe(
+				"{{ not a variable }} 1",
+			);
+		});
+	});
+
 	describe("validate", () => {
 		it("should return no errors for valid template", () => {
 			const template = "Hello {{name}}!";
@@ -198,12 +381,62 @@ Provide feedback.`);
 			expect(errors[0]).toContain("Mismatched conditional blocks");
 		});
 
-		it("should detect nested conditionals", () => {
-			const template = "{{#if a}}{{#if b}}Nested{{/if}}{{/if}}";
+		it("should accept nested conditionals", () => {
+			const template = "{{#if a}}{{#if b}}Nested{{else}}No b{{/if}}{{/if}}";
+
+			expect(renderer.validate(template)).toEqual([]);
+		});
+
+		it("should detect blocks closed in the wrong order", () => {
+			const template = "{{#if a}}{{#each b}}{{/if}}{{/each}}";
 			const errors = renderer.validate(template);
 
-			expect(errors).toHaveLength(1);
-			expect(errors[0]).toContain("Nested conditionals are not supported");
+			expect(errors[0]).toBe("{{/if}} closes {{#each b}}");
+		});
+
+		it("should detect a closing tag before its block", () => {
+			const errors = renderer.validate("{{/if}}{{#if a}}");
+
+			expect(errors).toContain("{{/if}} without an opening {{#if}}");
+		});
+
+		it("should detect misplaced else tags", () => {
+			expect(renderer.validate("a{{else}}b")).toEqual([
+				"{{else}} outside an {{#if}} or {{#each}} block",
+			]);
+			expect(renderer.validate("{{#if a}}1{{else}}2{{else}}3{{/if}}")).toEqual([
+				"Multiple {{else}} in {{#if a}}",
+			]);
+		});
+
+		it("should detect unknown and invalid filters", () => {
+			const errors = renderer.validate(
+				"{{text | shout}} {{text | truncate}} {{text | upper 2}}",
+			);
+
+			expect(errors).toEqual([
+				'Unknown filter "shout" (available: upper, lower, truncate, json)',
+				'Invalid filter "truncate": use truncate <length>',
+				'Invalid filter "upper 2": use upper',
+			]);
+		});
+
+		it("should accept loops", () => {
+			const template = "{{#each contexts}}{{this}}{{/each}}";
+
+			expect(renderer.validate(template)).toEqual([]);
+		});
+
+		it("should detect unclosed loops", () => {
+			const errors = renderer.validate("{{#each contexts}}{{this}}");
+
+			expect(errors[0]).toContain("Mismatched loop blocks");
+		});
+
+		it("should accept nested loops", () => {
+			const template = "{{#each a}}{{#each b}}{{this}}{{/each}}{{/each}}";
+
+			expect(renderer.validate(template)).toEqual([]);
 		});
 
 		it("should detect unknown template tags", () => {
@@ -245,6 +478,21 @@ Provide feedback.`);
 			expect(variables).toEqual(["name"]);
 		});
 
+		it("should extract loop variables but not loop items", () => {
+			const template = "{{#each contexts}}{{this}}{{/each}}{{prompt}}";
+			const variables = renderer.extractVariables(template);
+
+			expect(variables.sort()).toEqual(["contexts", "prompt"]);
+		});
+
+		it("should extract the top-level name of dotted paths", () => {
+			const template =
+				"{{metadata.destination | upper}}{{#each examples}}{{this.input}}{{/each}}";
+			const variables = renderer.extractVariables(template);
+
+			expect(variables).toEqual(["metadata", "examples"]);
+		});
+
 		it("should return empty array for template with no variables", () => {
 			const template = "Hello World!";
 			const variables = renderer.extractVariables(template);
@@ -284,6 +532,29 @@ Provide feedback.`);
 			expect(variables).toEqual(["required1", "required2"]);
 		});
 
+		it("should treat loop variables as optional", () => {
+			const template = "{{text}}{{#each contexts}}{{this}}{{/each}}";
+			const variables = renderer.extractRequiredVariables(template);
+
+			expect(variables).toEqual(["text"]);
+		});
+
+		it("should treat variables in nested blocks and else branches as optional", () => {
+			const template =
+				"{{#if a}}{{#if b}}{{c}}{{/if}}{{else}}{{d}}{{/if}}{{#each e}}{{f}}{{else}}{{g}}{{/each}}";
+			const variables = renderer.extractRequiredVariables(template);
+
+			expect(variables).toEqual([]);
+		});
+
+		it("should require variables also used outside blocks", () => {
+			const template =
+				"{{#if text}}{{text}}{{/if}}{{metadata.brand | upper}}{{text}}";
+			const variables = renderer.extractRequiredVariables(template);
+
+			expect(variables).toEqual(["metadata", "text"]);
+		});
+
 		it("should return empty array for template with only optional variables", () => {
 			const template = "{{#if text}}{{text}}{{/if}}";
 			const variables = renderer.extractRequiredVariables(template);
@@ -1,137 +1,399 @@
+type TemplateNode =
+	| { readonly type: "text"; readonly text: string }
+	| { readonly type: "output"; readonly expression: Expression }
+	| BlockNode;
+
+interface BlockNode {
+	readonly type: "if" | "each";
+	readonly path: string;
+	readonly body: TemplateNode[];
+	readonly otherwise: TemplateNode[]; // The {{else}} branch
+}
+
+interface Expression {
+	readonly path: string;
+	readonly filters: readonly FilterCall[];
+}
+
+interface FilterCall {
+	readonly name: string;
+	readonly args: readonly string[];
+}
+
+interface ParsedTemplate {
+	readonly nodes: TemplateNode[];
+	readonly errors: string[];
+}
+
+interface Filter {
+	readonly usage: string;
+	validate(args: readonly string[]): boolean;
+	apply(value: unknown, args: readonly string[]): string;
+}
+
+const PATH = String.raw`@index|\w+(?:\.\w+)*`;
+const BLOCK_TAG = new RegExp(String.raw`^#(if|each)\s+(${PATH})$`);
+const EXPRESSION_TAG = new RegExp(String.raw`^(${PATH})\s*(\|.*)?$`);
+
+const noArgs = (args: readonly string[]) => args.length === 0;
+
+const FILTERS: Record<string, Filter> = {
+	upper: {
+		usage: "upper",
+		validate: noArgs,
+		apply: (value) => stringify(value).toUpperCase(),
+	},
+	lower: {
+		usage: "lower",
+		validate: noArgs,
+		apply: (value) => stringify(value).toLowerCase(),
+	},
+	truncate: {
+		usage: "truncate <length>",
+		validate: (args) => args.length === 1 && /^\d+$/.test(args[0]),
+		apply: (value, [length]) => {
+			const text = stringify(value);
+			const limit = Number(length);
+			return text.length > limit ? `${text.slice(0, limit)}...` : text;
+		},
+	},
+	json: {
+		usage: "json",
+		validate: noArgs,
+		apply: (value) =>
+			value === undefined ? "" : JSON.stringify(value, null, 2),
+	},
+};
+
+/**
+ * A small Handlebars-style template language for judge prompts: {{var}}
+ * substitution with dotted paths and filters, {{#if}} and {{#each}} blocks
+ * with optional {{else}} branches, nested to any depth.
+ *
+ * Substituted values are never rendered themselves, so input text that
+ * contains template syntax is passed through unchanged.
+ */
 export class TemplateRenderer {
+	private readonly parsed = new Map<string, ParsedTemplate>();
+
 	render(template: string, variables: Record<string, unknown>): string {
-		let result = template;
-		result = this.processConditionals(result, variables);
-		result = this.processVariables(result, variables);
-		return result.trim();
+		const { nodes, errors } = this.parse(template);
+		if (errors.length > 0) {
+			throw new Error(`Invalid template: ${errors.join("; ")}`);
+		}
+
+		return this.renderNodes(nodes, variables).trim();
 	}
 
-	private processConditionals(
-		template: string,
+	private renderNodes(
+		nodes: readonly TemplateNode[],
 		variables: Record<string, unknown>,
 	): string {
-		const conditionalRegex = /\{\{#if\s+(\w+)\}\}([\s\S]*?)\{\{\/if\}\}/g;
+		return nodes.map((node) => this.renderNode(node, variables)).join("");
+	}
 
-		return template.replace(conditionalRegex, (_, varName, content) => {
-			const value = variables[varName];
+	private renderNode(
+		node: TemplateNode,
+		variables: Record<string, unknown>,
+	): string {
+		if (node.type === "text") {
+			return node.text;
+		}
+		if (node.type === "output") {
+			return this.renderExpression(node.expression, variables);
+		}
 
-			const isTruthy =
-				value !== undefined &&
-				value !== null &&
-				value !== "" &&
-				value !== false &&
-				(typeof value !== "object" || Object.keys(value as object).length > 0);
+		const value = resolvePath(variables, node.path);
+		if (node.type === "if") {
+			return this.renderNodes(
+				isTruthy(value) ? node.body : node.otherwise,
+				variables,
+			);
+		}
 
-			return isTruthy ? content : "";
-		});
+		// {{this}} is the current item and {{@index}} its zero-based position
+		if (!Array.isArray(value) || value.length === 0) {
+			return this.renderNodes(node.otherwise, variables);
+		}
+		return value
+			.map((item, index) =>
+				this.renderNodes(node.body, {
+					...variables,
+					this: item,
+					"@index": index,
+				}),
+			)
+			.join("");
 	}
 
-	private processVariables(
-		template: string,
+	private renderExpression(
+		expression: Expression,
 		variables: Record<string, unknown>,
 	): string {
-		const variableRegex = /\{\{(\w+)\}\}/g;
+		const value = resolvePath(variables, expression.path);
+		if (expression.filters.length === 0) {
+			return value === undefined || value === null ? "" : stringify(value);
+		}
 
-		return template.replace(variableRegex, (_, varName) => {
-			const value = variables[varName];
+		return expression.filters.reduce<unknown>(
+			(current, filter) => FILTERS[filter.name].apply(current, filter.args),
+			value,
+		) as string;
+	}
+
+	/**
+	 * Parse a template into nodes, collecting every error rather than
+	 * stopping at the first. Tags that are not block tags or variable
+	 * expressions, such as {{ a b }}, are kept as literal text.
+	 */
+	private parse(template: string): ParsedTemplate {
+		const cached = this.parsed.get(template);
+		if (cached) {
+			return cached;
+		}
 
-			if (value === undefined || value === null) {
-				return "";
+		const root: TemplateNode[] = [];
+		const stack: BlockNode[] = [];
+		const elseSeen = new Set<TemplateNode>();
+		let current = root;
+		const counts = { openIf: 0, closeIf: 0, openEach: 0, closeEach: 0 };
+		const unknownTags: string[] = [];
+		const structureErrors: string[] = [];
+		const expressionErrors: string[] = [];
+
+		const tagRegex = /\{\{([^{}]*)\}\}/g;
+		let lastIndex = 0;
+		for (const match of template.matchAll(tagRegex)) {
+			const index = match.index ?? 0;
+			if (index > lastIndex) {
+				current.push({ type: "text", text: template.slice(lastIndex, index) });
 			}
+			lastIndex = index + match[0].length;
 
-			return this.stringify(value);
-		});
-	}
+			const tag = match[1].trim();
+			const block = BLOCK_TAG.exec(tag);
+			const expression = EXPRESSION_TAG.exec(tag);
 
-	private stringify(value: unknown): string {
-		if (typeof value === "string") {
-			return value;
+			if (block) {
+				const kind = block[1] as "if" | "each";
+				counts[kind === "if" ? "openIf" : "openEach"]++;
+				const node: BlockNode = {
+					type: kind,
+					path: block[2],
+					body: [],
+					otherwise: [],
+				};
+				current.push(node);
+				stack.push(node);
+				current = node.body;
+			} else if (tag === "/if" || tag === "/each") {
+				const kind = tag === "/if" ? "if" : "each";
+				counts[kind === "if" ? "closeIf" : "closeEach"]++;
+				const open = stack[stack.length - 1];
+				if (!open) {
+					structureErrors.push(`{{${tag}}} without an opening {{#${kind}}}`);
+				} else if (open.type !== kind) {
+					structureErrors.push(
+						`{{${tag}}} closes {{#${open.type} ${open.path}}}`,
+					);
+				}
+				// Recover by closing up to the nearest block of the same kind
+				const matching = stack.map((node) => node.type).lastIndexOf(kind);
+				if (matching >= 0) {
+					stack.length = matching;
+					const parent = stack[stack.length - 1];
+					current = parent
+						? elseSeen.has(parent)
+							? parent.otherwise
+							: parent.body
+						: root;
+				}
+			} else if (tag === "else") {
+				const open = stack[stack.length - 1];
+				if (!open) {
+					structureErrors.push(
+						"{{else}} outside an {{#if}} or {{#each}} block",
+					);
+				} else if (elseSeen.has(open)) {
+					structureErrors.push(
+						`Multiple {{else}} in {{#${open.type} ${open.path}}}`,
+					);
+				} else {
+					elseSeen.add(open);
+					current = open.otherwise;
+				}
+			} else if (/^[#/]/.test(tag)) {
+				unknownTags.push(match[0]);
+			} else if (expression) {
+				const filters = parseFilters(expression[2], expressionErrors);
+				current.push({
+					type: "output",
+					expression: { path: expression[1], filters },
+				});
+			} else {
+				current.push({ type: "text", text: match[0] });
+			}
 		}
-
-		if (typeof value === "number" || typeof value === "boolean") {
-			return String(value);
+		if (lastIndex < template.length) {
+			current.push({ type: "text", text: template.slice(lastIndex) });
 		}
-
-		if (typeof value === "object" && value !== null) {
-			return JSON.stringify(value);
+		for (const open of stack) {
+			structureErrors.push(`Unclosed {{#${open.type} ${open.path}}}`);
 		}
 
-		return String(value);
-	}
-
-	validate(template: string): string[] {
 		const errors: string[] = [];
-
-		const openIfs = (template.match(/\{\{#if\s+\w+\}\}/g) || []).length;
-		const closeIfs = (template.match(/\{\{\/if\}\}/g) || []).length;
-
-		if (openIfs !== closeIfs) {
+		if (counts.openIf !== counts.closeIf) {
 			errors.push(
-				`Mismatched conditional blocks: ${openIfs} opening {{#if}} but ${closeIfs} closing {{/if}}`,
+				`Mismatched conditional blocks: ${counts.openIf} opening {{#if}} but ${counts.closeIf} closing {{/if}}`,
 			);
 		}
-
-		const conditionalRegex = /\{\{#if\s+\w+\}\}([\s\S]*?)\{\{\/if\}\}/g;
-		const matches = template.matchAll(conditionalRegex);
-		for (const match of matches) {
-			const content = match[1];
-			if (content && /\{\{#if\s+\w+\}\}/.test(content)) {
-				errors.push("Nested conditionals are not supported");
-				break;
-			}
+		if (counts.openEach !== counts.closeEach) {
+			errors.push(
+				`Mismatched loop blocks: ${counts.openEach} opening {{#each}} but ${counts.closeEach} closing {{/each}}`,
+			);
 		}
-
-		const unknownTags = template.match(/\{\{[#/](?!if|\/if)[^}]*\}\}/g);
-		if (unknownTags) {
+		// Mis-nesting is only reported when the counts balance, as an unclosed
+		// block would otherwise be reported twice
+		if (errors.length === 0) {
+			errors.push(...structureErrors);
+		}
+		if (unknownTags.length > 0) {
 			errors.push(`Unknown template tags: ${unknownTags.join(", ")}`);
 		}
+		errors.push(...expressionErrors);
 
-		return errors;
+		const parsed = { nodes: root, errors };
+		this.parsed.set(template, parsed);
+		return parsed;
+	}
+
+	validate(template: string): string[] {
+		return [...this.parse(template).errors];
 	}
 
+	/**
+	 * Top-level names of every variable the template reads. A dotted path
+	 * such as {{metadata.destination}} reads metadata.
+	 */
 	extractVariables(template: string): string[] {
 		const variables = new Set<string>();
-
-		const conditionals = template.matchAll(/\{\{#if\s+(\w+)\}\}/g);
-		for (const match of conditionals) {
-			variables.add(match[1]);
-		}
-
-		const substitutions = template.matchAll(/\{\{(\w+)\}\}/g);
-		for (const match of substitutions) {
-			variables.add(match[1]);
-		}
-
+		walkPaths(this.parse(template).nodes, false, (path) => {
+			const name = rootName(path);
+			if (name) {
+				variables.add(name);
+			}
+		});
 		return Array.from(variables);
 	}
 
+	/**
+	 * Variables that are always rendered. Conditions, loop lists and
+	 * anything inside a block are optional, as they may render nothing.
+	 */
 	extractRequiredVariables(template: string): string[] {
 		const required = new Set<string>();
-		const optional = new Set<string>();
+		walkPaths(this.parse(template).nodes, false, (path, conditional) => {
+			const name = rootName(path);
+			if (name && !conditional) {
+				required.add(name);
+			}
+		});
+		return Array.from(required);
+	}
+}
 
-		const conditionals = template.matchAll(
-			/\{\{#if\s+(\w+)\}\}([\s\S]*?)\{\{\/if\}\}/g,
-		);
-		for (const match of conditionals) {
-			optional.add(match[1]);
+function parseFilters(
+	source: string | undefined,
+	errors: string[],
+): FilterCall[] {
+	if (!source) {
+		return [];
+	}
 
-			const innerVars = match[2]?.matchAll(/\{\{(\w+)\}\}/g);
-			for (const innerMatch of innerVars) {
-				optional.add(innerMatch[1]);
+	return source
+		.split("|")
+		.slice(1)
+		.map((part) => {
+			const [name = "", ...args] = part.trim().split(/\s+/);
+			const filter = FILTERS[name];
+			if (!filter) {
+				errors.push(
+					`Unknown filter "${name}" (available: ${Object.keys(FILTERS).join(", ")})`,
+				);
+			} else if (!filter.validate(args)) {
+				errors.push(`Invalid filter "${part.trim()}": use ${filter.usage}`);
 			}
+			return { name, args };
+		});
+}
+
+/**
+ * Call visit for every variable path in document order, with whether the
+ * path sits in a condition, loop or block body
+ */
+function walkPaths(
+	nodes: readonly TemplateNode[],
+	conditional: boolean,
+	visit: (path: string, conditional: boolean) => void,
+): void {
+	for (const node of nodes) {
+		if (node.type === "output") {
+			visit(node.expression.path, conditional);
+		} else if (node.type !== "text") {
+			visit(node.path, true);
+			walkPaths(node.body, true, visit);
+			walkPaths(node.otherwise, true, visit);
 		}
+	}
+}
 
-		const parts = template.split(/\{\{#if[\s\S]*?\{\{\/if\}\}/g);
-		for (const part of parts) {
-			const substitutions = part.matchAll(/\{\{(\w+)\}\}/g);
-			for (const match of substitutions) {
-				const varName = match[1];
-				if (!optional.has(varName)) {
-					required.add(varName);
-				}
-			}
+/**
+ * The variable a path reads, or undefined for {{this}} and {{@index}},
+ * which refer to the current loop item
+ */
+function rootName(path: string): string | undefined {
+	const [name] = path.split(".");
+	return name === "this" || name === "@index" ? undefined : name;
+}
+
+function resolvePath(
+	variables: Record<string, unknown>,
+	path: string,
+): unknown {
+	if (path === "@index") {
+		return variables[path];
+	}
+
+	return path.split(".").reduce<unknown>((value, key) => {
+		if (
+			typeof value === "object" &&
+			value !== null &&
+			Object.getOwnPropertyDescriptor(value, key) !== undefined
+		) {
+			return (value as Record<string, unknown>)[key];
 		}
+		return undefined;
+	}, variables);
+}
 
-		return Array.from(required);
+function isTruthy(value: unknown): boolean {
+	return (
+		value !== undefined &&
+		value !== null &&
+		value !== "" &&
+		value !== false &&
+		(typeof value !== "object" || Object.keys(value as object).length > 0)
+	);
+}
+
+function stringify(value: unknown): string {
+	if (value === undefined || value === null) {
+		return "";
 	}
+
+	if (typeof value === "object") {
+		return JSON.stringify(value);
+	}
+
+	return String(value);
 }
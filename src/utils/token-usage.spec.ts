@@ -0,0 +1,92 @@
+import { extractTokenUsage, sumTokenUsage } from "./token-usage.js";
+
+describe("Token Usage Utils", () => {
+	describe("extractTokenUsage", () => {
+		it("should return undefined when no usage is reported", () => {
+			expect(extractTokenUsage(undefined)).toBeUndefined();
+			expect(extractTokenUsage(null)).toBeUndefined();
+		});
+
+		it("should keep numeric fields only", () => {
+			expect(
+				extractTokenUsage({
+					inputTokens: 10,
+					outputTokens: "5",
+					totalTokens: 15,
+				}),
+			).toEqual({
+				inputTokens: 10,
+				outputTokens: undefined,
+				totalTokens: 15,
+				reasoningTokens: undefined,
+				cachedInputTokens: undefined,
+			});
+		});
+
+		it("should drop token details without numeric values", () => {
+			const usage = extractTokenUsage({
+				inputTokens: 10,
+				inputTokenDetails: { cacheReadTokens: undefined },
+				outputTokenDetails: { textTokens: 3 },
+			});
+
+			expect(usage?.inputTokenDetails).toBeUndefined();
+			expect(usage?.outputTokenDetails).toEqual({
+				textTokens: 3,
+				reasoningTokens: undefined,
+			});
+		});
+	});
+
+	describe("sumTokenUsage", () => {
+		it("should return undefined when nothing was reported", () => {
+			expect(sumTokenUsage([])).toBeUndefined();
+			expect(sumTokenUsage([undefined, undefined])).toBeUndefined();
+		});
+
+		it("should sum fields across usages", () => {
+			expect(
+				sumTokenUsage([
+					{ inputTokens: 10, outputTokens: 2, totalTokens: 12 },
+					undefined,
+					{ inputTokens: 5, outputTokens: 1, totalTokens: 6 },
+				]),
+			).toEqual({
+				inputTokens: 15,
+				outputTokens: 3,
+				totalTokens: 18,
+				reasoningTokens: undefined,
+				cachedInputTokens: undefined,
+			});
+		});
+
+		it("should keep fields reported by only some usages", () => {
+			const total = sumTokenUsage([
+				{ inputTokens: 10, reasoningTokens: 4 },
+				{ inputTokens: 5 },
+			]);
+
+			expect(total?.inputTokens).toBe(15);
+			expect(total?.reasoningTokens).toBe(4);
+			expect(total?.outputTokens).toBeUndefined();
+		});
+
+		it("should sum token details", () => {
+			const total = sumTokenUsage([
+				{ inputTokenDetails: { cacheReadTokens: 40, cacheWriteTokens: 10 } },
+				{ inputTokenDetails: { cacheReadTokens: 60 } },
+				{ outputTokenDetails: { reasoningTokens: 7 } },
+			]);
+
+			expect(total?.inputTokenDetails).toEqual({
+				noCacheTokens: undefined,
+				cacheReadTokens: 100,
+				cacheWriteTokens: 10,
+			});
+			expect(total?.outputTokenDetails).toEqual({
+				textTokens: undefined,
+				reasoningTokens: 7,
+			});
+		});
+	});
+});
@@ -0,0 +1,180 @@
+import type { EvalKitSpan } from "../telemetry.js";
+import type { TokenUsage } from "../types/evaluator.js";
+
+type Mutable<T> = { -readonly [K in keyof T]: T[K] };
+
+function getNumber(value: unknown): number | undefined {
+	return typeof value === "number" ? value : undefined;
+}
+
+function getRecord(value: unknown): Record<string, unknown> | undefined {
+	return value && typeof value === "object"
+		? (value as Record<string, unknown>)
+		: undefined;
+}
+
+function hasNumberValue(value: Record<string, unknown>): boolean {
+	return Object.values(value).some((entry) => typeof entry === "number");
+}
+
+function addOptional(
+	a: number | undefined,
+	b: number | undefined,
+): number | undefined {
+	if (a === undefined) return b;
+	if (b === undefined) return a;
+	return a + b;
+}
+
+const extractInputTokenDetails = (
+	details: unknown,
+): TokenUsage["inputTokenDetails"] | undefined => {
+	const detailRecord = getRecord(details);
+	if (!detailRecord || !hasNumberValue(detailRecord)) return undefined;
+
+	return {
+		noCacheTokens: getNumber(detailRecord.noCacheTokens),
+		cacheReadTokens: getNumber(detailRecord.cacheReadTokens),
+		cacheWriteTokens: getNumber(detailRecord.cacheWriteTokens),
+	};
+};
+
+const extractOutputTokenDetails = (
+	details: unknown,
+): TokenUsage["outputTokenDetails"] | undefined => {
+	const detailRecord = getRecord(details);
+	if (!detailRecord || !hasNumberValue(detailRecord)) return undefined;
+
+	return {
+		textTokens: getNumber(detailRecord.textTokens),
+		reasoningTokens: getNumber(detailRecord.reasoningTokens),
+	};
+};
+
+/**
+ * Convert the usage object reported by the AI SDK into a TokenUsage,
+ * dropping anything that is not a number.
+ */
+export const extractTokenUsage = (usage: unknown): TokenUsage | undefined => {
+	if (!usage) return undefined;
+	const usageRecord = getRecord(usage);
+	if (!usageRecord) return undefined;
+
+	const inputTokenDetails = extractInputTokenDetails(
+		usageRecord.inputTokenDetails,
+	);
+	const outputTokenDetails = extractOutputTokenDetails(
+		usageRecord.outputTokenDetails,
+	);
+
+	return {
+		inputTokens: getNumber(usageRecord.inputTokens),
+		...(inputTokenDetails ? { inputTokenDetails } : {}),
+		outputTokens: getNumber(usageRecord.outputTokens),
+		...(outputTokenDetails ? { outputTokenDetails } : {}),
+		totalTokens: getNumber(usageRecord.totalTokens),
+		reasoningTokens: getNumber(usageRecord.reasoningTokens),
+		cachedInputTokens: getNumber(usageRecord.cachedInputTokens),
+	};
+};
+
+/**
+ * Sum several TokenUsage records field by field. Fields that no record
+ * reports stay undefined. Returns undefined when no usage was reported.
+ */
+export const sumTokenUsage = (
+	usages: readonly (TokenUsage | undefined)[],
+): TokenUsage | undefined => {
+	const reported = usages.filter(
+		(usage): usage is TokenUsage => usage !== undefined,
+	);
+	if (reported.length === 0) return undefined;
+
+	const total: Mutable<TokenUsage> = {};
+	for (const usage of reported) {
+		total.inputTokens = addOptional(total.inputTokens, usage.inputTokens);
+		total.outputTokens = addOptional(total.outputTokens, usage.outputTokens);
+		total.totalTokens = addOptional(total.totalTokens, usage.totalTokens);
+		total.reasoningTokens = addOptional(
+			total.reasoningTokens,
+			usage.reasoningTokens,
+		);
+		total.cachedInputTokens = addOptional(
+			total.cachedInputTokens,
+			usage.cachedInputTokens,
+		);
+
+		if (usage.inputTokenDetails) {
+			const details = total.inputTokenDetails ?? {};
+			total.inputTokenDetails = {
+				noCacheTokens: addOptional(
+					details.noCacheTokens,
+					usage.inputTokenDetails.noCacheTokens,
+				),
+				cacheReadTokens: addOptional(
+					details.cacheReadTokens,
+					usage.inputTokenDetails.cacheReadTokens,
+				),
+				cacheWriteTokens: addOptional(
+					details.cacheWriteTokens,
+					usage.inputTokenDetails.cacheWriteTokens,
+				),
+			};
+		}
+
+		if (usage.outputTokenDetails) {
+			const details = total.outputTokenDetails ?? {};
+			total.outputTokenDetails = {
+				textTokens: addOptional(
+					details.textTokens,
+					usage.outputTokenDetails.textTokens,
+				),
+				reasoningTokens: addOptional(
+					details.reasoningTokens,
+					usage.outputTokenDetails.reasoningTokens,
+				),
+			};
+		}
+	}
+
+	return total;
+};
+
+/**
+ * Record token usage on a span using the eval_kit.result.token_usage.* attributes.
+ */
+export const setTokenUsageAttributes = (
+	span: EvalKitSpan,
+	tokenUsage: TokenUsage | undefined,
+): void => {
+	if (tokenUsage?.inputTokens !== undefined) {
+		span.setAttribute(
+			"eval_kit.result.token_usage.input",
+			tokenUsage.inputTokens,
+		);
+	}
+	if (tokenUsage?.outputTokens !== undefined) {
+		span.setAttribute(
+			"eval_kit.result.token_usage.output",
+			tokenUsage.outputTokens,
+		);
+	}
+	if (tokenUsage?.totalTokens !== undefined) {
+		span.setAttribute(
+			"eval_kit.result.token_usage.total",
+			tokenUsage.totalTokens,
+		);
+	}
+	if (tokenUsage?.inputTokenDetails?.cacheReadTokens !== undefined) {
+		span.setAttribute(
+			"eval_kit.result.token_usage.cache_read",
+			tokenUsage.inputTokenDetails.cacheReadTokens,
+		);
+	}
+	if (tokenUsage?.inputTokenDetails?.cacheWriteTokens !== undefined) {
+		span.setAttribute(
+			"eval_kit.result.token_usage.cache_write",
+			tokenUsage.inputTokenDetails.cacheWriteTokens,
+		);
+	}
+};
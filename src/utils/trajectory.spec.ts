@@ -0,0 +1,142 @@
+import {
+	formatTrajectory,
+	isTrajectory,
+	matchTrajectories,
+	stepsMatch,
+} from "./trajectory.js";
+
+describe("Trajectory Utils", () => {
+	const search = { tool: "search", arguments: { query: "hotels in Rome" } };
+	const book = { tool: "book", arguments: { hotelId: 42, nights: 3 } };
+	const confirm = { tool: "send_confirmation", arguments: {} };
+
+	describe("stepsMatch", () => {
+		it("should require the same tool", () => {
+			expect(stepsMatch(search, book, "ignore")).toBe(false);
+		});
+
+		it("should compare arguments exactly", () => {
+			expect(
+				stepsMatch(
+					{ tool: "book", arguments: { hotelId: 42, nights: 3 } },
+					book,
+					"exact",
+				),
+			).toBe(true);
+			expect(
+				stepsMatch(
+					{ tool: "book", arguments: { hotelId: 42, nights: 3, notes: "" } },
+					book,
+					"exact",
+				),
+			).toBe(false);
+		});
+
+		it("should allow extra arguments in subset mode", () => {
+			expect(
+				stepsMatch(
+					{ tool: "book", arguments: { hotelId: 42, nights: 3, notes: "" } },
+					book,
+					"subset",
+				),
+			).toBe(true);
+			expect(
+				stepsMatch(
+					{ tool: "book", arguments: { hotelId: 42 } },
+					book,
+					"subset",
+				),
+			).toBe(false);
+		});
+
+		it("should compare nested arguments by value", () => {
+			expect(
+				stepsMatch(
+					{ tool: "filter", arguments: { stars: [4, 5] } },
+					{ tool: "filter", arguments: { stars: [4, 5] } },
+					"exact",
+				),
+			).toBe(true);
+		});
+	});
+
+	describe("matchTrajectories", () => {
+		const exact = { match: "exact", arguments: "exact" } as const;
+
+		it("should match an identical trajectory", () => {
+			const result = matchTrajectories(
+				[search, book, confirm],
+				[search, book, confirm],
+				exact,
+			);
+
+			expect(result).toEqual({
+				matched: 3,
+				missing: [],
+				unexpected: [],
+				precision: 1,
+				recall: 1,
+			});
+		});
+
+		it("should report missing and unexpected calls", () => {
+			const result = matchTrajectories(
+				[search, search, book],
+				[search, book, confirm],
+				exact,
+			);
+
+			expect(result.matched).toBe(2);
+			expect(result.missing).toEqual([confirm]);
+			expect(result.unexpected).toEqual([search]);
+			expect(result.precision).toBeCloseTo(2 / 3);
+			expect(result.recall).toBeCloseTo(2 / 3);
+		});
+
+		it("should only pair calls in order unless any_order is set", () => {
+			const inOrder = matchTrajectories([book, search], [search, book], {
+				match: "in_order",
+				arguments: "exact",
+			});
+			const anyOrder = matchTrajectories([book, search], [search, book], {
+				match: "any_order",
+				arguments: "exact",
+			});
+
+			expect(inOrder.matched).toBe(1);
+			expect(anyOrder.matched).toBe(2);
+		});
+
+		it("should treat two empty trajectories as a perfect match", () => {
+			const result = matchTrajectories([], [], exact);
+
+			expect(result.precision).toBe(1);
+			expect(result.recall).toBe(1);
+		});
+	});
+
+	describe("formatTrajectory", () => {
+		it("should number each call and show its output", () => {
+			expect(
+				formatTrajectory([
+					{ ...search, output: ["Hotel Roma"] },
+					{ tool: "book" },
+				]),
+			).toBe(
+				'1. search({"query":"hotels in Rome"})\n   Output: ["Hotel Roma"]\n2. book({})',
+			);
+		});
+	});
+
+	describe("isTrajectory", () => {
+		it("should accept tool call steps", () => {
+			expect(isTrajectory([search, { tool: "book" }])).toBe(true);
+		});
+
+		it("should reject steps without a tool name or with invalid arguments", () => {
+			expect(isTrajectory([{ arguments: {} }])).toBe(false);
+			expect(isTrajectory([{ tool: "book", arguments: "42" }])).toBe(false);
+			expect(isTrajectory("search")).toBe(false);
+		});
+	});
+});
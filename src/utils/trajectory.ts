@@ -0,0 +1,170 @@
+import type {
+	ToolArgumentMatch,
+	ToolCallMatchMode,
+	TrajectoryMatch,
+	TrajectoryStep,
+} from "../types/evaluator.js";
+
+const isDeepEqual = (a: unknown, b: unknown): boolean => {
+	if (a === b) return true;
+	if (typeof a !== "object" || typeof b !== "object" || !a || !b) {
+		return false;
+	}
+	if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+	const aKeys = Object.keys(a);
+	const bKeys = Object.keys(b);
+	return (
+		aKeys.length === bKeys.length &&
+		aKeys.every((key) =>
+			isDeepEqual(
+				(a as Record<string, unknown>)[key],
+				(b as Record<string, unknown>)[key],
+			),
+		)
+	);
+};
+
+/**
+ * Whether an actual tool call satisfies an expected one
+ */
+export const stepsMatch = (
+	actual: TrajectoryStep,
+	expected: TrajectoryStep,
+	argumentMatch: ToolArgumentMatch,
+): boolean => {
+	if (actual.tool !== expected.tool) return false;
+	if (argumentMatch === "ignore") return true;
+
+	const actualArguments = actual.arguments ?? {};
+	const expectedArguments = expected.arguments ?? {};
+	if (argumentMatch === "exact") {
+		return isDeepEqual(actualArguments, expectedArguments);
+	}
+	return Object.entries(expectedArguments).every(([key, value]) =>
+		isDeepEqual(actualArguments[key], value),
+	);
+};
+
+/**
+ * Pair actual with expected steps, returning [actualIndex, expectedIndex]
+ * pairs. "in_order" finds the longest common subsequence; "any_order"
+ * greedily matches each expected step to the first unused actual step.
+ */
+const pairSteps = (
+	actual: readonly TrajectoryStep[],
+	expected: readonly TrajectoryStep[],
+	ordered: boolean,
+	argumentMatch: ToolArgumentMatch,
+): [number, number][] => {
+	if (!ordered) {
+		const used = new Set<number>();
+		const pairs: [number, number][] = [];
+		expected.forEach((step, expectedIndex) => {
+			const actualIndex = actual.findIndex(
+				(candidate, index) =>
+					!used.has(index) && stepsMatch(candidate, step, argumentMatch),
+			);
+			if (actualIndex !== -1) {
+				used.add(actualIndex);
+				pairs.push([actualIndex, expectedIndex]);
+			}
+		});
+		return pairs;
+	}
+
+	// lengths[i][j] is the LCS length of actual[i..] and expected[j..]
+	const lengths = Array.from({ length: actual.length + 1 }, () =>
+		new Array<number>(expected.length + 1).fill(0),
+	);
+	for (let i = actual.length - 1; i >= 0; i--) {
+		for (let j = expected.length - 1; j >= 0; j--) {
+			lengths[i][j] = stepsMatch(actual[i], expected[j], argumentMatch)
+				? lengths[i + 1][j + 1] + 1
+				: Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+		}
+	}
+
+	const pairs: [number, number][] = [];
+	let i = 0;
+	let j = 0;
+	while (i < actual.length && j < expected.length) {
+		if (stepsMatch(actual[i], expected[j], argumentMatch)) {
+			pairs.push([i, j]);
+			i++;
+			j++;
+		} else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+			i++;
+		} else {
+			j++;
+		}
+	}
+	return pairs;
+};
+
+/**
+ * Compare an agent's tool calls with the expected trajectory.
+ *
+ * Precision is the share of actual calls that were expected, recall the
+ * share of expected calls that were made. An empty trajectory matches an
+ * empty expectation perfectly.
+ */
+export const matchTrajectories = (
+	actual: readonly TrajectoryStep[],
+	expected: readonly TrajectoryStep[],
+	options: { match: ToolCallMatchMode; arguments: ToolArgumentMatch },
+): TrajectoryMatch => {
+	const pairs = pairSteps(
+		actual,
+		expected,
+		options.match !== "any_order",
+		options.arguments,
+	);
+	const matchedActual = new Set(pairs.map(([actualIndex]) => actualIndex));
+	const matchedExpected = new Set(
+		pairs.map(([, expectedIndex]) => expectedIndex),
+	);
+
+	return {
+		matched: pairs.length,
+		missing: expected.filter((_, index) => !matchedExpected.has(index)),
+		unexpected: actual.filter((_, index) => !matchedActual.has(index)),
+		precision: actual.length > 0 ? pairs.length / actual.length : 1,
+		recall: expected.length > 0 ? pairs.length / expected.length : 1,
+	};
+};
+
+/**
+ * Render tool calls as a numbered list for judge prompts
+ */
+export const formatTrajectory = (steps: readonly TrajectoryStep[]): string =>
+	steps
+		.map((step, index) => {
+			const lines = [
+				`${index + 1}. ${step.tool}(${JSON.stringify(step.arguments ?? {})})`,
+			];
+			if (step.output !== undefined) {
+				const output =
+					typeof step.output === "string"
+						? step.output
+						: JSON.stringify(step.output);
+				lines.push(`   Output: ${output}`);
+			}
+			return lines.join("\n");
+		})
+		.join("\n");
+
+/**
+ * Check that a parsed value is a list of tool calls
+ */
+export const isTrajectory = (value: unknown): value is TrajectoryStep[] =>
+	Array.isArray(value) &&
+	value.every(
+		(step) =>
+			typeof step === "object" &&
+			step !== null &&
+			typeof (step as Record<string, unknown>).tool === "string" &&
+			((step as Record<string, unknown>).arguments === undefined ||
+				(typeof (step as Record<string, unknown>).arguments === "object" &&
+					(step as Record<string, unknown>).arguments !== null)),
+	);